@@ -0,0 +1,41 @@
+import { Command } from 'commander';
+import * as path from 'path';
+import { ComposedStorySchema, isPageLocked } from '../../core/schemas';
+import { checkContinuity, continuityErrors } from '../../core/utils/continuity';
+import { displayContinuity } from '../output/display';
+import { loadArtifact, loadPageLocks } from '../utils/output';
+
+interface ContinuityOptions {
+  json?: boolean;
+}
+
+/**
+ * Check a directed story for continuity breaks between pages and suggest which
+ * pages to regenerate. Exits with status 1 on errors (unknown character IDs).
+ */
+export const continuityCommand = new Command('continuity')
+  .description('Check characters, setting, time of day and props for continuity across pages')
+  .argument('<folder>', 'Story folder')
+  .option('--json', 'Print the report as JSON')
+  .action(async (folder: string, options: ContinuityOptions) => {
+    try {
+      const story = ComposedStorySchema.parse(await loadArtifact(path.join(folder, 'story.json'), 'story'));
+      const report = checkContinuity(story);
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        displayContinuity(report);
+        const locks = await loadPageLocks(folder);
+        for (const { pageNumber, stage } of report.regenerations) {
+          console.log(isPageLocked(locks, pageNumber, stage)
+            ? `Page ${pageNumber} ${stage} is locked - unlock it first to regenerate`
+            : `To fix page ${pageNumber}, run: bookbug regen ${folder} --page ${pageNumber} --stage ${stage}`);
+        }
+      }
+      if (continuityErrors(report.issues).length > 0) process.exitCode = 1;
+    } catch (error) {
+      console.error(error);
+      process.exit(1);
+    }
+  });
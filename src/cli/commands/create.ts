@@ -1,34 +1,128 @@
 import { Command } from 'commander';
-import { runPipeline } from '../../core/pipeline';
+import * as path from 'path';
+import { runPipelineIncremental, runPipelineSteps, startPipeline } from '../../core/pipeline';
+import { DEFAULT_STEPS, getStep } from '../../core/steps';
+import { parseStoryDraft, type Story } from '../../core/schemas';
 import { displayBook } from '../output/display';
-import { createOutputManager } from '../utils/output';
-import { createLoggerToFolder } from '../../core/utils/logger';
+import { createOutputManager, loadArtifact } from '../utils/output';
+import { createLoggerToFolder, logCacheStats } from '../../core/utils/logger';
+import { CASSETTE_FILE, openCassette, setActiveCassette } from '../../core/services/cassette';
+import { createResponseCache, setActiveCache } from '../../core/services/cache';
 import { createCliUI } from '../../utils/cli';
+import { writePreview } from './preview';
+
+interface CreateOptions {
+  output?: string;
+  save?: boolean;
+  stopAfter?: string;
+  from?: string;
+  input?: boolean;
+  offline?: boolean;
+  record?: boolean;
+  replay?: string;
+  cache?: boolean;
+  clearCache?: boolean;
+  compositeText?: boolean;
+  lintProse?: boolean;
+}
+
+/**
+ * Load and validate a story file, listing every invalid field on failure.
+ * Missing required fields also fail unless canAsk, in which case the partial
+ * story is returned as a draft for a short intake.
+ */
+const loadStoryFile = async (file: string, canAsk: boolean): Promise<{ story?: Story; draft?: Partial<Story> }> => {
+  const result = parseStoryDraft(await loadArtifact(file, 'story'));
+  switch (result.status) {
+    case 'invalid':
+      throw new Error(`${file} is not a valid story:\n${result.issues.map(issue => `  - ${issue}`).join('\n')}`);
+    case 'incomplete':
+      if (!canAsk) {
+        throw new Error(
+          `${file} is missing required fields: ${result.missingFields.join(', ')}. ` +
+          'Add them to the file, or run create in a terminal without --no-input/--offline to be asked for them.'
+        );
+      }
+      console.log(`${file} is missing ${result.missingFields.join(', ')} - asking for just those.`);
+      return { draft: result.data };
+    case 'complete':
+      return { story: result.data };
+  }
+};
 
 export const createCommand = new Command('create')
   .description('Create a complete children\'s book')
   .option('-o, --output <path>', 'Output directory for generated files')
   .option('--no-save', 'Disable automatic artifact saving')
-  .action(async (options: { output?: string; save?: boolean }) => {
+  .option('--stop-after <step>', `Stop after a pipeline step (${DEFAULT_STEPS.map(s => s.name).join(', ')}); resume continues or reruns from a step`)
+  .option('--from <file>', 'Story JSON file to build from (skips intake, or asks only for missing fields)')
+  .option('--no-input', 'Never prompt: fail if the --from file is missing required fields')
+  .option('--offline', 'Run without network: mock agents and placeholder images (requires --from)')
+  .option('--record', `Record API calls to ${CASSETTE_FILE} in the story folder`)
+  .option('--replay <cassette>', 'Replay API calls from a recorded cassette file (fails on unrecorded calls)')
+  .option('--no-cache', 'Bypass the response cache (always call the APIs)')
+  .option('--clear-cache', 'Delete the response cache before running')
+  .option('--composite-text', 'Keep text out of the images and typeset it over them (assets/composited)')
+  .option('--lint-prose', 'Rewrite pages whose prose is too long for the story\'s age range (see bookbug lint)')
+  .action(async (options: CreateOptions) => {
     const ui = createCliUI();
 
     try {
+      if (options.stopAfter) getStep(DEFAULT_STEPS, options.stopAfter);
+      if (options.offline && !options.from) {
+        throw new Error('--offline requires --from <file>: the intake conversation needs the network');
+      }
+      if (options.record && options.replay) throw new Error('--record and --replay cannot be combined');
+      const canAsk = options.input !== false && !options.offline && Boolean(process.stdin.isTTY);
+      const { story, draft } = options.from ? await loadStoryFile(options.from, canAsk) : {};
+      if (options.replay) setActiveCassette(await openCassette(options.replay, 'replay'));
+      const cache = createResponseCache();
+      if (options.clearCache) await cache.clear();
+      setActiveCache(options.cache === false ? undefined : cache);
+
       console.log('\n📚 Let\'s create a children\'s book!\n');
 
-      const outputManager = await createOutputManager('untitled');
+      const outputManager = await createOutputManager(story?.title ?? draft?.title ?? 'untitled');
       const logger = createLoggerToFolder(outputManager.folder);
 
+      if (options.record) {
+        setActiveCassette(await openCassette(path.join(outputManager.folder, CASSETTE_FILE), 'record'));
+      }
+
       console.log(`Story folder: ${outputManager.folder}`);
 
-      const { book } = await runPipeline({
+      const pipelineOptions = {
         ui,
         logger,
         outputManager: options.save !== false ? outputManager : undefined,
-      });
+        offline: options.offline,
+        compositeText: options.compositeText,
+        proseLint: { enabled: options.lintProse },
+        story,
+        draft,
+      };
+      const state = await startPipeline(pipelineOptions);
+
+      if (options.stopAfter) {
+        await runPipelineSteps(state, { ...pipelineOptions, stopAfter: options.stopAfter });
+        logCacheStats(logger, cache.stats);
+        ui.succeed(`Stopped after ${options.stopAfter}`);
+        if (options.save !== false) {
+          console.log(`\nArtifacts saved to: ${outputManager.folder}`);
+          console.log(`Continue with: bookbug resume ${outputManager.folder}`);
+        }
+        return;
+      }
+
+      const { book } = await runPipelineIncremental(state, pipelineOptions);
+      logCacheStats(logger, cache.stats);
 
       ui.succeed('Book complete!');
       displayBook(book);
       console.log(`\nAll files saved to: ${outputManager.folder}`);
+      if (options.save !== false) {
+        console.log(`Preview: ${await writePreview(outputManager.folder)}`);
+      }
     } catch (error) {
       ui.fail('Pipeline failed');
       console.error(error);
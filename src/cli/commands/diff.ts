@@ -0,0 +1,70 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { ComposedStorySchema, migrateArtifact, type ComposedStory } from '../../core/schemas';
+import { diffStories } from '../../core/utils/story-diff';
+import { displayLineDiff, displayStoryDiff } from '../output/display';
+import { createRevisionStore, diffAssets, diffLines } from '../utils/revisions';
+
+interface DiffOptions {
+  json?: boolean;
+  lines?: boolean;
+}
+
+/** A story.json revision with prose and visuals - the bare intake story has nothing to compare structurally */
+const parseComposedStory = (file: string, content: string): ComposedStory | undefined => {
+  if (file !== 'story.json') return undefined;
+  const result = ComposedStorySchema.safeParse(migrateArtifact(JSON.parse(content), 'story').data);
+  return result.success ? result.data : undefined;
+};
+
+/**
+ * Compare two revisions of the same file, plus the page images that changed.
+ * Composed story.json revisions are compared page by page; other files line by line.
+ */
+export const diffCommand = new Command('diff')
+  .description('Show what changed between two revisions (see bookbug history)')
+  .argument('<folder>', 'Story folder')
+  .argument('<from>', 'Older revision number')
+  .argument('[to]', 'Newer revision number (default: the latest revision of the same file)')
+  .option('--json', 'Print the diff as JSON')
+  .option('--lines', 'Compare story.json line by line instead of page by page')
+  .action(async (folder: string, fromArg: string, toArg: string | undefined, options: DiffOptions) => {
+    try {
+      const revisions = createRevisionStore(folder);
+      const from = await revisions.get(Number(fromArg));
+      const to = toArg
+        ? await revisions.get(Number(toArg))
+        : (await revisions.list()).filter(r => r.file === from.file).at(-1)!;
+      if (from.file !== to.file) {
+        throw new Error(`Revision ${from.number} is ${from.file} but revision ${to.number} is ${to.file}`);
+      }
+
+      const before = await revisions.read(from);
+      const after = await revisions.read(to);
+      const storyBefore = options.lines ? undefined : parseComposedStory(from.file, before);
+      const storyAfter = options.lines ? undefined : parseComposedStory(to.file, after);
+      const story = storyBefore && storyAfter ? diffStories(storyBefore, storyAfter) : undefined;
+      const lines = story ? undefined : diffLines(before, after);
+      const assets = diffAssets(from.assets, to.assets);
+
+      if (options.json) {
+        const changedLines = lines?.filter(line => line.type !== 'same');
+        console.log(JSON.stringify({ file: from.file, from: from.number, to: to.number, story, lines: changedLines, assets }, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold(`${from.file}: #${from.number} → #${to.number}`));
+      if (story) displayStoryDiff(story);
+      if (lines) displayLineDiff(lines);
+
+      if (assets.added.length + assets.removed.length + assets.changed.length > 0) {
+        console.log('\n' + chalk.bold('Images:'));
+        for (const asset of assets.added) console.log(chalk.green(`  added    ${asset}`));
+        for (const asset of assets.removed) console.log(chalk.red(`  removed  ${asset}`));
+        for (const asset of assets.changed) console.log(chalk.yellow(`  changed  ${asset}`));
+      }
+    } catch (error) {
+      console.error(error);
+      process.exit(1);
+    }
+  });
@@ -1,8 +1,7 @@
 import { Command } from 'commander';
 import { generateVisuals } from '../../core/pipeline';
 import { StoryWithProseSchema, type VisualDirection } from '../../core/schemas';
-import { getOrCreateOutputManager } from '../utils/output';
-import { loadJson } from '../../utils';
+import { getOrCreateOutputManager, loadArtifact } from '../utils/output';
 
 const displayVisuals = (visuals: VisualDirection): void => {
   console.log('\n🎨 Visual direction created:');
@@ -19,7 +18,7 @@ export const directCommand = new Command('direct')
   .action(async (proseFile: string) => {
     try {
       console.log('Loading story...');
-      const storyWithProse = StoryWithProseSchema.parse(await loadJson(proseFile));
+      const storyWithProse = StoryWithProseSchema.parse(await loadArtifact(proseFile, 'prose'));
 
       console.log('Creating visual direction...');
       const composedStory = await generateVisuals(storyWithProse);
@@ -0,0 +1,167 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BookFormatKeySchema, ComposedStorySchema, RenderedBookSchema, type BookFormatKey } from '../../core/schemas';
+import {
+  buildInteriorPdf,
+  buildCoverPdf,
+  calculateSpineWidth,
+  PAPER_STOCKS,
+  type PageImage,
+  type PaperStock,
+} from '../../core/services/pdf-export';
+import { buildEpub } from '../../core/services/epub-export';
+import { layoutStoryLettering, layoutStoryText } from '../../core/services/text-compositor';
+import { loadTextStyle } from '../../core/services/typography';
+import { createSpinner } from '../output/progress';
+import { loadArtifact, usesCompositedText } from '../utils/output';
+
+interface PdfExportOptions {
+  format?: BookFormatKey;
+  paper: PaperStock;
+  cover?: string;
+  backCover?: string;
+}
+
+/** Read assets/page-N.png for every page in the book, failing on any missing file */
+const loadPageImages = async (folder: string, pageNumbers: number[]): Promise<PageImage[]> => {
+  const missing: number[] = [];
+  const images: PageImage[] = [];
+
+  for (const pageNumber of pageNumbers) {
+    const imagePath = path.join(folder, 'assets', `page-${pageNumber}.png`);
+    try {
+      images.push({ pageNumber, data: await fs.readFile(imagePath) });
+    } catch {
+      missing.push(pageNumber);
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Missing page images in ${folder}/assets: ${missing.map(n => `page-${n}.png`).join(', ')}`);
+  }
+  return images;
+};
+
+/**
+ * With composited text, page-N.png is the text-free illustration: typeset each page's
+ * text, bubbles and sound effects into the PDF, laid out as in assets/composited
+ */
+const addCompositedText = async (folder: string, images: PageImage[], format: BookFormatKey): Promise<void> => {
+  const story = ComposedStorySchema.parse(await loadArtifact(path.join(folder, 'story.json'), 'story'));
+  const style = await loadTextStyle(story);
+  for (const image of images) {
+    image.text = {
+      layout: layoutStoryText(story, image.pageNumber, format, style),
+      style,
+      lettering: layoutStoryLettering(story, image.pageNumber, format, style),
+    };
+  }
+};
+
+const pdfCommand = new Command('pdf')
+  .description('Export print-ready interior and cover PDFs (Lulu trim, bleed and spine)')
+  .argument('<folder>', 'Story folder containing book.json and assets/')
+  .option('-f, --format <format>', 'Book format (defaults to the format in book.json)')
+  .option('-p, --paper <paper>', `Paper stock: ${Object.keys(PAPER_STOCKS).join(', ')}`, 'white-80-coated')
+  .option('--cover <image>', 'PNG for the front cover (defaults to page 1)')
+  .option('--back-cover <image>', 'PNG for the back cover (defaults to plain with title)')
+  .action(async (folder: string, options: PdfExportOptions) => {
+    const spinner = createSpinner();
+
+    try {
+      if (!(options.paper in PAPER_STOCKS)) {
+        throw new Error(`Unknown paper stock "${options.paper}". Use one of: ${Object.keys(PAPER_STOCKS).join(', ')}`);
+      }
+
+      spinner.start('Loading book...');
+      const book = RenderedBookSchema.parse(await loadArtifact(path.join(folder, 'book.json')));
+      const format = options.format ? BookFormatKeySchema.parse(options.format) : book.format;
+      const images = await loadPageImages(folder, book.pages.map(p => p.pageNumber));
+      if (await usesCompositedText(folder)) await addCompositedText(folder, images, format);
+      spinner.succeed(`Loaded ${images.length} pages (${format})${images.some(image => image.text) ? ', typesetting composited text' : ''}`);
+
+      spinner.start('Building interior PDF...');
+      const interior = await buildInteriorPdf(images, format, book.storyTitle);
+      const interiorPath = path.join(folder, 'interior.pdf');
+      await fs.writeFile(interiorPath, interior.pdf);
+      spinner.succeed(`Interior saved to: ${interiorPath} (${interior.pageCount} pages)`);
+
+      spinner.start('Building cover PDF...');
+      const frontImage = options.cover ? await fs.readFile(options.cover) : images[0]!.data;
+      const backImage = options.backCover ? await fs.readFile(options.backCover) : undefined;
+      const cover = await buildCoverPdf({
+        title: book.storyTitle,
+        pageCount: interior.pageCount,
+        formatKey: format,
+        paper: options.paper,
+        frontImage,
+        backImage,
+      });
+      const coverPath = path.join(folder, 'cover.pdf');
+      await fs.writeFile(coverPath, cover.pdf);
+      const spineInches = calculateSpineWidth(interior.pageCount, options.paper);
+      spinner.succeed(`Cover saved to: ${coverPath} (spine ${spineInches.toFixed(3)}" on ${PAPER_STOCKS[options.paper].name})`);
+
+      for (const issue of interior.resolutionIssues) {
+        console.warn(
+          `  ⚠ Page ${issue.pageNumber}: ${issue.width}x${issue.height}px is below ${issue.requiredWidth}x${issue.requiredHeight}px ` +
+          `(${issue.effectiveDpi}dpi at full bleed)`
+        );
+      }
+      for (const warning of [...interior.warnings, ...cover.warnings]) {
+        console.warn(`  ⚠ ${warning}`);
+      }
+    } catch (error) {
+      spinner.fail('PDF export failed');
+      console.error(error);
+      process.exit(1);
+    }
+  });
+
+/** BCP 47 language tag shape: a primary language with optional subtags (e.g. "en", "pt-BR", "zh-Hant-TW") */
+const LANGUAGE_TAG = /^[A-Za-z]{2,8}(?:-[A-Za-z0-9]{1,8})*$/;
+
+interface EpubExportOptions {
+  format?: BookFormatKey;
+  language: string;
+}
+
+const epubCommand = new Command('epub')
+  .description('Export a fixed-layout EPUB 3 with selectable page text')
+  .argument('<folder>', 'Story folder containing story.json, book.json and assets/')
+  .option('-f, --format <format>', 'Book format for the viewport (defaults to the format in book.json)')
+  .option('-l, --language <lang>', 'Book language (BCP 47)', 'en')
+  .action(async (folder: string, options: EpubExportOptions) => {
+    const spinner = createSpinner();
+
+    try {
+      if (!LANGUAGE_TAG.test(options.language)) {
+        throw new Error(`Invalid language "${options.language}". Use a BCP 47 tag such as en, fr or pt-BR`);
+      }
+
+      spinner.start('Loading book...');
+      const story = ComposedStorySchema.parse(await loadArtifact(path.join(folder, 'story.json')));
+      const book = RenderedBookSchema.parse(await loadArtifact(path.join(folder, 'book.json')));
+      const format = options.format ? BookFormatKeySchema.parse(options.format) : book.format;
+      const images = await loadPageImages(folder, book.pages.map(p => p.pageNumber));
+      // Composited books have text-free illustrations: letter their bubbles over the art
+      const letteringStyle = (await usesCompositedText(folder)) ? await loadTextStyle(story) : undefined;
+      spinner.succeed(`Loaded ${images.length} pages (${format})${letteringStyle ? ', lettering composited bubbles' : ''}`);
+
+      spinner.start('Building EPUB...');
+      const epub = buildEpub({ story, book, images, format, language: options.language, letteringStyle });
+      const epubPath = path.join(folder, 'book.epub');
+      await fs.writeFile(epubPath, epub);
+      spinner.succeed(`EPUB saved to: ${epubPath}`);
+    } catch (error) {
+      spinner.fail('EPUB export failed');
+      console.error(error);
+      process.exit(1);
+    }
+  });
+
+export const exportCommand = new Command('export')
+  .description('Export a rendered book to other formats')
+  .addCommand(pdfCommand)
+  .addCommand(epubCommand);
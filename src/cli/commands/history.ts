@@ -0,0 +1,21 @@
+import { Command } from 'commander';
+import { displayRevisions } from '../output/display';
+import { createRevisionStore } from '../utils/revisions';
+
+interface HistoryOptions {
+  file?: string;
+}
+
+export const historyCommand = new Command('history')
+  .description('List the saved revisions of a story folder\'s artifacts')
+  .argument('<folder>', 'Story folder')
+  .option('--file <name>', 'Only show revisions of one file (e.g. prose.json)')
+  .action(async (folder: string, options: HistoryOptions) => {
+    try {
+      const revisions = await createRevisionStore(folder).list();
+      displayRevisions(options.file ? revisions.filter(r => r.file === options.file) : revisions);
+    } catch (error) {
+      console.error(error);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,58 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { runImportStage, runManuscriptStage } from '../../core/pipeline';
+import type { ComposedStory } from '../../core/schemas';
+import { createOutputManager } from '../utils/output';
+import { createLoggerToFolder } from '../../core/utils/logger';
+import { parseManuscript } from '../../core/utils/manuscript';
+import { assembleProse } from '../../core/utils/assemble';
+import { createCliUI } from '../../utils/cli';
+
+interface ImportOptions {
+  output?: string;
+  manuscript?: boolean;
+}
+
+export const importCommand = new Command('import')
+  .description('Import a story from a text synopsis or manuscript')
+  .argument('<text-file>', 'Text file with the synopsis or manuscript')
+  .option('-o, --output <path>', 'Output directory for the story folder')
+  .option('--manuscript', 'The file is the finished text, split into pages - keep it and only generate the art')
+  .action(async (textFile: string, options: ImportOptions) => {
+    const ui = createCliUI();
+
+    try {
+      const text = await fs.readFile(textFile, 'utf-8');
+      if (!text.trim()) throw new Error(`${textFile} is empty`);
+
+      const pageTexts = options.manuscript ? parseManuscript(text) : undefined;
+      if (pageTexts && pageTexts.length < 2) {
+        throw new Error(`No page breaks found in ${textFile}. Separate pages with a --- line or a "## Page N" heading.`);
+      }
+
+      // Folder is named after the file - the title isn't known until extraction
+      const outputManager = await createOutputManager(path.basename(textFile, path.extname(textFile)), options.output);
+      const logger = createLoggerToFolder(outputManager.folder);
+
+      const imported = await runImportStage(pageTexts ? pageTexts.join('\n\n') : text, { ui, logger });
+      // Manuscript: the pages are the prose, so the pipeline continues from visuals
+      const state = pageTexts ? await runManuscriptStage(imported, pageTexts, { ui, logger }) : imported;
+      const { story, proseSetup, prosePages } = state;
+      if (!story) throw new Error('Import produced no story');
+
+      await outputManager.saveStory(story as ComposedStory);
+      if (proseSetup && prosePages) await outputManager.saveProse({ ...story, prose: assembleProse(proseSetup, prosePages) });
+      await outputManager.saveCheckpoint(state);
+
+      ui.succeed(`Imported "${story.title}"`);
+      console.log(`   ${story.characters.length} characters, ${story.plotBeats.length} plot beats, ${story.pageCount} pages`);
+      if (prosePages) console.log('   Page text kept from the manuscript - prose generation is skipped');
+      console.log(`\nStory saved to: ${outputManager.folder}`);
+      console.log(`Continue with: bookbug resume ${outputManager.folder}`);
+    } catch (error) {
+      ui.fail('Import failed');
+      console.error(error);
+      process.exit(1);
+    }
+  });
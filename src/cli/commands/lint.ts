@@ -0,0 +1,39 @@
+import { Command } from 'commander';
+import { lintProse, pagesOverLimits } from '../../core/utils/prose-lint';
+import { displayProseLint } from '../output/display';
+import { loadPipelineState } from './resume';
+
+interface LintOptions {
+  json?: boolean;
+}
+
+/**
+ * Check a story's prose against its age band's limits and for readability.
+ * Exits with status 1 when a page breaks a limit, so it can gate scripts.
+ */
+export const lintCommand = new Command('lint')
+  .description('Check prose length and readability against the story\'s age range')
+  .argument('<folder>', 'Story folder')
+  .option('--json', 'Print the report as JSON')
+  .action(async (folder: string, options: LintOptions) => {
+    try {
+      const state = await loadPipelineState(folder);
+      if (!state?.story || !state.prosePages) throw new Error(`No story with prose found in ${folder}`);
+
+      const report = lintProse(state.prosePages, state.story);
+      const overLimits = pagesOverLimits(report);
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        displayProseLint(report);
+        for (const pageNumber of overLimits) {
+          console.log(`To rewrite page ${pageNumber}, run: bookbug regen ${folder} --page ${pageNumber} --stage prose`);
+        }
+      }
+      if (overLimits.length > 0) process.exitCode = 1;
+    } catch (error) {
+      console.error(error);
+      process.exit(1);
+    }
+  });
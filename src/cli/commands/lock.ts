@@ -0,0 +1,67 @@
+import { Command } from 'commander';
+import { PAGE_LOCK_SCOPES, lockPage, unlockPage, type PageLockScope, type PageLocks } from '../../core/schemas';
+import { displayLocks } from '../output/display';
+import { loadPageLocks, savePageLocks } from '../utils/output';
+
+interface LockOptions {
+  stage: string;
+}
+
+const parsePageNumbers = (pages: string[]): number[] =>
+  pages.map(page => {
+    const pageNumber = Number(page);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1) throw new Error(`Invalid page number "${page}"`);
+    return pageNumber;
+  });
+
+const parseScope = (stage: string): PageLockScope => {
+  if (!PAGE_LOCK_SCOPES.includes(stage as PageLockScope)) {
+    throw new Error(`Unknown stage "${stage}". Expected one of: ${PAGE_LOCK_SCOPES.join(', ')}`);
+  }
+  return stage as PageLockScope;
+};
+
+/** Apply lockPage/unlockPage to each page, save locks.json and show the result */
+const updateLocks = async (
+  folder: string,
+  pages: string[],
+  stage: string,
+  update: (locks: PageLocks, pageNumber: number, scope: PageLockScope) => PageLocks
+): Promise<void> => {
+  const scope = parseScope(stage);
+  const pageNumbers = parsePageNumbers(pages);
+  let locks = await loadPageLocks(folder);
+  if (pageNumbers.length > 0) {
+    locks = pageNumbers.reduce((current, pageNumber) => update(current, pageNumber, scope), locks);
+    await savePageLocks(folder, locks);
+  }
+  displayLocks(locks);
+};
+
+export const lockCommand = new Command('lock')
+  .description('Lock approved pages so reruns and regen keep them as they are (lists locks without pages)')
+  .argument('<folder>', 'Story folder')
+  .argument('[pages...]', 'Page numbers to lock')
+  .option('-s, --stage <stage>', `What to lock: ${PAGE_LOCK_SCOPES.join(', ')}`, 'all')
+  .action(async (folder: string, pages: string[], options: LockOptions) => {
+    try {
+      await updateLocks(folder, pages, options.stage, lockPage);
+    } catch (error) {
+      console.error(error);
+      process.exit(1);
+    }
+  });
+
+export const unlockCommand = new Command('unlock')
+  .description('Unlock pages so the pipeline and regen can change them again')
+  .argument('<folder>', 'Story folder')
+  .argument('<pages...>', 'Page numbers to unlock')
+  .option('-s, --stage <stage>', `What to unlock: ${PAGE_LOCK_SCOPES.join(', ')}`, 'all')
+  .action(async (folder: string, pages: string[], options: LockOptions) => {
+    try {
+      await updateLocks(folder, pages, options.stage, unlockPage);
+    } catch (error) {
+      console.error(error);
+      process.exit(1);
+    }
+  });
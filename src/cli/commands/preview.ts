@@ -0,0 +1,69 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ComposedStorySchema, RenderedBookSchema, type RenderedBook } from '../../core/schemas';
+import { buildFlipbookHtml } from '../../core/services/flipbook';
+import { loadTextStyle } from '../../core/services/typography';
+import { createSpinner } from '../output/progress';
+import { loadArtifact, usesCompositedText } from '../utils/output';
+
+interface PreviewOptions {
+  embed?: boolean;
+}
+
+/**
+ * Resolve an image src for each page: local assets/page-N.png when present
+ * (relative path, or inlined as a data URI with embed), else the book URL.
+ */
+const resolveImageSources = async (
+  folder: string,
+  book: RenderedBook,
+  embed: boolean
+): Promise<Record<number, string>> => {
+  const sources: Record<number, string> = {};
+
+  for (const page of book.pages) {
+    const relativePath = `assets/page-${page.pageNumber}.png`;
+    try {
+      const data = await fs.readFile(path.join(folder, relativePath));
+      sources[page.pageNumber] = embed ? `data:image/png;base64,${data.toString('base64')}` : relativePath;
+    } catch {
+      sources[page.pageNumber] = page.url;
+    }
+  }
+
+  return sources;
+};
+
+/**
+ * Write index.html flipbook into a story folder. Returns the file path.
+ */
+export const writePreview = async (folder: string, options: PreviewOptions = {}): Promise<string> => {
+  const story = ComposedStorySchema.parse(await loadArtifact(path.join(folder, 'story.json')));
+  const book = RenderedBookSchema.parse(await loadArtifact(path.join(folder, 'book.json')));
+  const imageSources = await resolveImageSources(folder, book, options.embed ?? false);
+  // Composited books have text-free illustrations: letter their bubbles over the art
+  const letteringStyle = (await usesCompositedText(folder)) ? await loadTextStyle(story) : undefined;
+
+  const htmlPath = path.join(folder, 'index.html');
+  await fs.writeFile(htmlPath, buildFlipbookHtml({ story, book, imageSources, letteringStyle }));
+  return htmlPath;
+};
+
+export const previewCommand = new Command('preview')
+  .description('Write an offline HTML flipbook (index.html) into a story folder')
+  .argument('<folder>', 'Story folder containing story.json and book.json')
+  .option('-e, --embed', 'Inline images as data URIs so index.html can be shared on its own')
+  .action(async (folder: string, options: PreviewOptions) => {
+    const spinner = createSpinner();
+
+    try {
+      spinner.start('Building preview...');
+      const htmlPath = await writePreview(folder, options);
+      spinner.succeed(`Preview saved to: ${htmlPath}`);
+    } catch (error) {
+      spinner.fail('Preview failed');
+      console.error(error);
+      process.exit(1);
+    }
+  });
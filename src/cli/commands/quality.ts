@@ -2,12 +2,14 @@ import { Command } from 'commander';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { imageQualityAgent, filterStoryForPage } from '../../core/agents';
-import { ComposedStorySchema, type ImageQualityResult, type PageRenderContext } from '../../core/schemas';
+import { ComposedStorySchema, ImageQualityResultSchema, type ImageQualityResult, type PageRenderContext } from '../../core/schemas';
+import { buildQualityReportHtml, type PageQuality } from '../../core/services/quality-report';
 import { createSpinner } from '../output/progress';
-import { loadJson } from '../../utils';
+import { loadArtifact } from '../utils/output';
 
 interface QualityOptions {
   threshold?: string;
+  report?: boolean;
 }
 
 interface PageQualityResult {
@@ -20,6 +22,7 @@ export const qualityCommand = new Command('quality')
   .description('Analyze image quality for rendered pages in a story folder')
   .argument('<path>', 'Story folder or single image file')
   .option('-t, --threshold <n>', 'Quality threshold 0-100 (default: 70)', '70')
+  .option('-r, --report', 'Only write quality-report.html from the saved results, without analyzing again')
   .action(async (inputPath: string, options: QualityOptions) => {
     const spinner = createSpinner();
     const threshold = parseInt(options.threshold ?? '70', 10);
@@ -28,7 +31,10 @@ export const qualityCommand = new Command('quality')
       const resolvedPath = path.resolve(inputPath);
       const stats = await fs.stat(resolvedPath);
 
-      if (stats.isFile()) {
+      if (options.report) {
+        if (stats.isFile()) throw new Error('--report needs a story folder');
+        console.log(`Report saved to: ${await writeQualityReport(resolvedPath, threshold)}`);
+      } else if (stats.isFile()) {
         // Single image mode
         await analyzeImage(resolvedPath, threshold, spinner);
       } else {
@@ -47,7 +53,7 @@ async function analyzeImage(imagePath: string, threshold: number, spinner: Retur
   const storyPath = path.join(folder, 'story.json');
 
   spinner.start('Loading story context...');
-  const story = ComposedStorySchema.parse(await loadJson(storyPath));
+  const story = ComposedStorySchema.parse(await loadArtifact(storyPath, 'story'));
   spinner.succeed('Story loaded');
 
   // Extract page number from filename (page-1.png, page-2.png, etc.)
@@ -63,6 +69,7 @@ async function analyzeImage(imagePath: string, threshold: number, spinner: Retur
 
   displayResult(pageNumber, imagePath, result);
   await saveResult(folder, pageNumber, result);
+  console.log(`\nReport: ${await writeQualityReport(folder, threshold)}`);
 }
 
 async function analyzeFolder(folderPath: string, threshold: number, spinner: ReturnType<typeof createSpinner>) {
@@ -70,7 +77,7 @@ async function analyzeFolder(folderPath: string, threshold: number, spinner: Ret
   const assetsPath = path.join(folderPath, 'assets');
 
   spinner.start('Loading story context...');
-  const story = ComposedStorySchema.parse(await loadJson(storyPath));
+  const story = ComposedStorySchema.parse(await loadArtifact(storyPath, 'story'));
   spinner.succeed('Story loaded');
 
   // Find all page images
@@ -107,6 +114,7 @@ async function analyzeFolder(folderPath: string, threshold: number, spinner: Ret
   }
 
   displaySummary(results, threshold);
+  console.log(`Report: ${await writeQualityReport(folderPath, threshold)}`);
 }
 
 function findStoryFolder(imagePath: string): string {
@@ -131,6 +139,59 @@ async function saveResult(folder: string, pageNumber: number, result: ImageQuali
   await fs.writeFile(resultPath, JSON.stringify(result, null, 2));
 }
 
+async function readQualityResult(file: string): Promise<ImageQualityResult | undefined> {
+  try {
+    return ImageQualityResultSchema.parse(JSON.parse(await fs.readFile(file, 'utf-8')));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Gather each page's image, saved quality result and failed attempts (assets/page-N.png,
+ * assets/quality/page-N[-attempt-K].json, assets/failed/page-N-attempt-K.png).
+ * Image paths are relative to the story folder, where the report is written.
+ */
+async function loadPageQuality(folder: string, pageNumbers: number[]): Promise<PageQuality[]> {
+  const assets = path.join(folder, 'assets');
+  const list = (dir: string) => fs.readdir(path.join(assets, dir)).catch(() => [] as string[]);
+  const [images, qualityFiles, failedImages] = await Promise.all([list('.'), list('quality'), list('failed')]);
+
+  const attemptsOf = (pageNumber: number): number[] => {
+    const pattern = new RegExp(`^page-${pageNumber}-attempt-(\\d+)\\.(png|json)$`);
+    const numbers = [...failedImages, ...qualityFiles].flatMap(file => file.match(pattern)?.[1] ?? []);
+    return [...new Set(numbers.map(Number))].sort((a, b) => a - b);
+  };
+
+  return Promise.all(pageNumbers.map(async (pageNumber): Promise<PageQuality> => ({
+    pageNumber,
+    imageSrc: images.includes(`page-${pageNumber}.png`) ? `assets/page-${pageNumber}.png` : undefined,
+    result: qualityFiles.includes(`page-${pageNumber}.json`)
+      ? await readQualityResult(path.join(assets, 'quality', `page-${pageNumber}.json`))
+      : undefined,
+    failedAttempts: await Promise.all(attemptsOf(pageNumber).map(async attempt => {
+      const name = `page-${pageNumber}-attempt-${attempt}`;
+      return {
+        attempt,
+        imageSrc: failedImages.includes(`${name}.png`) ? `assets/failed/${name}.png` : undefined,
+        result: qualityFiles.includes(`${name}.json`) ? await readQualityResult(path.join(assets, 'quality', `${name}.json`)) : undefined,
+      };
+    })),
+  })));
+}
+
+/**
+ * Write quality-report.html into a story folder from the saved quality results. Returns the file path.
+ */
+export const writeQualityReport = async (folder: string, threshold?: number): Promise<string> => {
+  const story = ComposedStorySchema.parse(await loadArtifact(path.join(folder, 'story.json'), 'story'));
+  const pages = await loadPageQuality(folder, story.visuals.illustratedPages.map(page => page.pageNumber));
+
+  const htmlPath = path.join(folder, 'quality-report.html');
+  await fs.writeFile(htmlPath, buildQualityReportHtml({ title: story.title, pages, threshold }));
+  return htmlPath;
+};
+
 function displayResult(pageNumber: number, imagePath: string, result: ImageQualityResult): void {
   const status = result.passesQualityBar ? '✓' : '✗';
   console.log(`\nPage ${pageNumber}: ${status} ${result.score}/100`);
@@ -0,0 +1,145 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { regeneratePage, REGEN_STAGES, type RegenStage, type RegenResult, type PipelineState } from '../../core/pipeline';
+import { RenderedBookSchema, isPageLocked, type BookFormatKey, type RenderedBook } from '../../core/schemas';
+import { assembleProse, assembleVisuals } from '../../core/utils/assemble';
+import { createLoggerToFolder } from '../../core/utils/logger';
+import { compositeStoryPage, type TextStyle } from '../../core/services/text-compositor';
+import { loadTextStyle } from '../../core/services/typography';
+import { loadArtifact, loadOutputManager, loadPageLocks, usesCompositedText, type StoryOutputManager } from '../utils/output';
+import { createCliUI } from '../../utils/cli';
+import { loadPipelineState } from './resume';
+
+interface RegenOptions {
+  page: string;
+  stage: string;
+  format?: BookFormatKey;
+  mock?: boolean;
+  offline?: boolean;
+  compositeText?: boolean;
+}
+
+/** What to regenerate next so the page stays consistent */
+const FOLLOW_UP: Record<RegenStage, string | undefined> = {
+  prose: 'visuals',
+  visuals: 'image',
+  image: undefined,
+};
+
+/** Page 1 from disk as the style reference - image URLs saved in state expire after a day */
+const loadHeroPageUrl = async (folder: string): Promise<string | undefined> => {
+  const data = await fs.readFile(path.join(folder, 'assets', 'page-1.png')).catch(() => undefined);
+  return data && `data:image/png;base64,${data.toString('base64')}`;
+};
+
+/**
+ * Save every artifact that contains the regenerated page
+ */
+const saveRegeneratedPage = async (
+  result: RegenResult,
+  outputManager: StoryOutputManager,
+  book?: RenderedBook,
+  composite?: { pageNumber: number; format: BookFormatKey; textStyle: TextStyle }
+): Promise<void> => {
+  const { story, proseSetup, prosePages, styleGuide, illustratedPages, characterDesigns } = result.state;
+  if (!story || !proseSetup || !prosePages) return;
+
+  const prose = assembleProse(proseSetup, prosePages);
+  const visuals = styleGuide && illustratedPages ? assembleVisuals(styleGuide, illustratedPages) : undefined;
+
+  if (result.stage === 'prose') await outputManager.saveProse({ ...story, prose });
+  if (result.stage === 'visuals' && visuals) await outputManager.saveVisuals(visuals);
+  if (visuals) await outputManager.saveStory({ ...story, prose, visuals, characterDesigns });
+  if (result.stage === 'image' && book) {
+    const { pageNumber, url } = result.page;
+    await outputManager.saveBook({ ...book, pages: book.pages.map(page => (page.pageNumber === pageNumber ? { pageNumber, url } : page)) });
+  }
+  // New text or a new image: typeset the page again (the visuals only move the text box)
+  if (composite && visuals) {
+    const svg = compositeStoryPage({ ...story, prose, visuals, characterDesigns }, composite.pageNumber, composite.format, composite.textStyle);
+    await outputManager.saveCompositedPage(composite.pageNumber, svg);
+  }
+
+  await outputManager.saveCheckpoint(result.state);
+};
+
+export const regenCommand = new Command('regen')
+  .description('Regenerate one page\'s prose, visuals or image, keeping the old version in history/')
+  .argument('<folder>', 'Story folder')
+  .requiredOption('-p, --page <number>', 'Page number to regenerate')
+  .requiredOption('-s, --stage <stage>', `What to regenerate: ${REGEN_STAGES.join(', ')}`)
+  .option('-f, --format <format>', 'Book format for rendering (default: the book\'s format)')
+  .option('-m, --mock', 'Use a mock image instead of real generation (a dry run: nothing is saved)')
+  .option('--offline', 'Run without network: mock agents and placeholder images')
+  .option('--composite-text', 'Keep text out of the image and typeset it over it (default: when the book has composited pages)')
+  .action(async (folder: string, options: RegenOptions) => {
+    const ui = createCliUI();
+
+    try {
+      const stage = options.stage as RegenStage;
+      if (!REGEN_STAGES.includes(stage)) {
+        throw new Error(`Unknown stage "${options.stage}". Expected one of: ${REGEN_STAGES.join(', ')}`);
+      }
+      const pageNumber = Number(options.page);
+      const locks = await loadPageLocks(folder);
+      if (isPageLocked(locks, pageNumber, stage)) {
+        ui.succeed(`Page ${pageNumber} ${stage} is locked - skipped`);
+        console.log(`To change it, first run: bookbug unlock ${folder} ${pageNumber} --stage ${stage}`);
+        return;
+      }
+
+      ui.progress('Loading story...');
+      const state = await loadPipelineState(folder);
+      if (!state) throw new Error(`No story with prose found in ${folder}`);
+
+      // Folders without a checkpoint keep their rendered pages only in book.json
+      const bookFile = path.join(folder, 'book.json');
+      const book = await fs.access(bookFile).then(
+        async () => RenderedBookSchema.parse(await loadArtifact(bookFile)),
+        () => undefined
+      );
+      const startState: PipelineState = { ...state, renderedPages: state.renderedPages ?? book?.pages };
+
+      const outputManager = await loadOutputManager(bookFile);
+      const logger = createLoggerToFolder(folder);
+
+      const format = options.format ?? book?.format ?? 'square-large';
+      const textStyle = (await usesCompositedText(folder, options.compositeText)) ? await loadTextStyle(state.story ?? {}) : undefined;
+      const result = await regeneratePage(startState, pageNumber, stage, {
+        ui,
+        logger,
+        format,
+        mock: options.mock,
+        offline: options.offline,
+        heroPageUrl: await loadHeroPageUrl(folder),
+        locks,
+        compositeText: !!textStyle,
+      });
+
+      // A mock image is never saved to assets/, so book.json, the checkpoint and history stay as they are
+      if (result.stage === 'image' && options.mock) {
+        ui.succeed(`Rendered a mock image for page ${pageNumber} - nothing saved`);
+        return;
+      }
+
+      const archived = await outputManager.archivePage(pageNumber, stage, result.previous);
+      if (result.stage === 'image') {
+        await outputManager.savePageImage(result.page);
+        if (result.page.quality) await outputManager.saveQualityResult(pageNumber, result.page.quality);
+      }
+      await saveRegeneratedPage(result, outputManager, book, textStyle && { pageNumber, format, textStyle });
+
+      ui.succeed(`Regenerated page ${pageNumber} ${stage}`);
+      if (result.stage === 'prose') console.log(`\n${result.page.text}`);
+      console.log(`\nPrevious version: ${path.join(folder, archived)}`);
+      const followUp = FOLLOW_UP[stage];
+      if (followUp) {
+        console.log(`To match the change, run: bookbug regen ${folder} --page ${pageNumber} --stage ${followUp}`);
+      }
+    } catch (error) {
+      ui.fail('Regeneration failed');
+      console.error(error);
+      process.exit(1);
+    }
+  });
@@ -2,12 +2,12 @@ import { Command } from 'commander';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { renderPage, renderPageMock, createBook } from '../../core/pipeline';
-import { ComposedStorySchema, type BookFormatKey, type RenderedBook, type RenderedPage } from '../../core/schemas';
+import { ComposedStorySchema, RenderedBookSchema, isPageLocked, type BookFormatKey, type RenderedBook, type RenderedPage } from '../../core/schemas';
 import type { ImageModel } from '../../core/services/image-generation';
 import { createSpinner } from '../output/progress';
 import { displayBook } from '../output/display';
-import { createOutputManager, getOrCreateOutputManager } from '../utils/output';
-import { loadJson, downloadFile } from '../../utils';
+import { createOutputManager, getOrCreateOutputManager, loadArtifact, loadPageLocks } from '../utils/output';
+import { downloadFile } from '../../utils';
 
 interface RenderOptions {
   output?: string;
@@ -29,7 +29,7 @@ export const renderCommand = new Command('render')
     try {
       // Load and validate story
       spinner.start('Loading story...');
-      const story = ComposedStorySchema.parse(await loadJson(storyFile));
+      const story = ComposedStorySchema.parse(await loadArtifact(storyFile, 'story'));
       spinner.succeed('Story loaded');
 
       // Set up output manager (custom path takes precedence)
@@ -41,6 +41,15 @@ export const renderCommand = new Command('render')
       const assetsFolder = path.join(outputManager.folder, 'assets');
       await fs.mkdir(assetsFolder, { recursive: true });
 
+      // Locked pages keep their image from the existing book
+      const locks = await loadPageLocks(outputManager.folder);
+      const bookFile = path.join(outputManager.folder, 'book.json');
+      const previousBook = await fs.access(bookFile).then(
+        async () => RenderedBookSchema.parse(await loadArtifact(bookFile)),
+        () => undefined
+      );
+      const lockedPageNumbers = new Set<number>();
+
       // Render pages one at a time (images have temporary URLs from Replicate)
       const totalPages = story.visuals.illustratedPages.length;
       const format = options.format ?? 'square-large';
@@ -49,6 +58,17 @@ export const renderCommand = new Command('render')
       let heroPage: RenderedPage | undefined;
 
       for (const storyPage of story.visuals.illustratedPages) {
+        const locked = isPageLocked(locks, storyPage.pageNumber, 'image')
+          ? previousBook?.pages.find(page => page.pageNumber === storyPage.pageNumber)
+          : undefined;
+        if (locked) {
+          pages.push(locked);
+          heroPage ??= locked;
+          lockedPageNumbers.add(locked.pageNumber);
+          spinner.info(`Page ${locked.pageNumber}/${totalPages} is locked - skipped`);
+          continue;
+        }
+
         spinner.start(`Rendering page ${storyPage.pageNumber}/${totalPages}${options.mock ? ' (mock)' : ` [${model}]`}...`);
 
         const page = options.mock
@@ -68,7 +88,7 @@ export const renderCommand = new Command('render')
         finalBook = book;
       } else {
         spinner.start('Downloading images...');
-        finalBook = await downloadAndSaveImages(book, assetsFolder, (completed, total) => {
+        finalBook = await downloadAndSaveImages(book, assetsFolder, lockedPageNumbers, (completed, total) => {
           spinner.text = `Downloading images... (${completed}/${total})`;
         });
         spinner.succeed('Images downloaded');
@@ -92,16 +112,24 @@ export const renderCommand = new Command('render')
 /**
  * Download images from temporary URLs and save to local disk.
  * Returns a new RenderedBook with updated local paths.
+ * Locked pages are already saved and kept as they are.
  */
 async function downloadAndSaveImages(
   book: RenderedBook,
   assetsFolder: string,
+  lockedPageNumbers: Set<number>,
   onProgress?: (completed: number, total: number) => void
 ): Promise<RenderedBook> {
   const updatedPages = [];
   const total = book.pages.length;
 
   for (const page of book.pages) {
+    if (lockedPageNumbers.has(page.pageNumber)) {
+      updatedPages.push(page);
+      onProgress?.(updatedPages.length, total);
+      continue;
+    }
+
     const filename = `page-${page.pageNumber}.png`;
     const localPath = path.join(assetsFolder, filename);
 
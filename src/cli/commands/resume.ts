@@ -1,23 +1,28 @@
 import { Command } from 'commander';
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { runPipelineIncremental, renderBook, type PipelineState } from '../../core/pipeline';
+import { runPipelineIncremental, runPipelineSteps, startPipeline, type PipelineState } from '../../core/pipeline';
+import { DEFAULT_STEPS, getPendingSteps, getStep, parseCheckpoint, resetFromStep } from '../../core/steps';
 import {
   StoryWithProseSchema,
   StorySchema,
-  ComposedStorySchema,
   RenderedBookSchema,
+  parseIntakeTranscript,
+  parseStoryDraft,
   type BookFormatKey,
   type Story,
 } from '../../core/schemas';
-import { displayBook } from '../output/display';
-import { loadOutputManager } from '../utils/output';
-import { loadJson } from '../../utils';
+import { displayBook, formatPageLock } from '../output/display';
+import { loadArtifact, loadOutputManager, loadPageLocks, usesCompositedText } from '../utils/output';
 import { createCliUI } from '../../utils/cli';
+import { writePreview } from './preview';
+import { CASSETTE_FILE, openCassette, setActiveCassette } from '../../core/services/cassette';
+import { createResponseCache, setActiveCache } from '../../core/services/cache';
+import { createLoggerToFolder, logCacheStats } from '../../core/utils/logger';
 
 const OUTPUT_DIR = './output';
 
-type ResumeStage = 'draft' | 'prose' | 'story' | 'complete';
+type ResumeStage = 'intake' | 'brief' | 'draft' | 'prose' | 'story' | 'checkpoint' | 'complete';
 
 interface StoryFolderInfo {
   folder: string;
@@ -44,12 +49,33 @@ const findLatestStoryFolder = async (): Promise<string | null> => {
   }
 };
 
+/**
+ * Write the flipbook when the folder has story.json and book.json. Best effort: a
+ * preview that cannot be built (e.g. a legacy folder) never fails the resume.
+ */
+const tryWritePreview = async (folder: string): Promise<void> => {
+  const files = await fs.readdir(folder);
+  if (!files.includes('story.json') || !files.includes('book.json')) return;
+  try {
+    console.log(`Preview: ${await writePreview(folder)}`);
+  } catch {
+    // bookbug preview reports the full error
+    console.warn(`⚠ Could not write the preview. To see why, run: bookbug preview ${folder}`);
+  }
+};
+
 const detectStage = async (folder: string): Promise<StoryFolderInfo> => {
   const files = await fs.readdir(folder);
+  if (files.includes('checkpoint.json')) {
+    // Checkpoint is written after every step - complete only when no step is left to run
+    const state = parseCheckpoint(await loadArtifact(path.join(folder, 'checkpoint.json')));
+    const isComplete = files.includes('book.json') && getPendingSteps(DEFAULT_STEPS, state).length === 0;
+    return { folder, stage: isComplete ? 'complete' : 'checkpoint', latestFile: path.join(folder, 'checkpoint.json') };
+  }
   if (files.includes('book.json')) return { folder, stage: 'complete', latestFile: path.join(folder, 'book.json') };
   if (files.includes('story.json')) {
     // Check if story.json has prose/visuals (composed) or just base story
-    const data = await loadJson(path.join(folder, 'story.json')) as Record<string, unknown>;
+    const data = await loadArtifact(path.join(folder, 'story.json')) as Record<string, unknown>;
     const isComposed = 'prose' in data && 'visuals' in data;
     return {
       folder,
@@ -58,18 +84,25 @@ const detectStage = async (folder: string): Promise<StoryFolderInfo> => {
     };
   }
   if (files.includes('prose.json')) return { folder, stage: 'prose', latestFile: path.join(folder, 'prose.json') };
-  // plot.json and brief.json are legacy - treat as draft stage
+  // plot.json is legacy (migrated on load) - treat as draft stage
   if (files.includes('plot.json')) return { folder, stage: 'draft', latestFile: path.join(folder, 'plot.json') };
-  if (files.includes('brief.json')) return { folder, stage: 'draft', latestFile: path.join(folder, 'brief.json') };
+  // Intake was interrupted before the story was saved
+  if (files.includes('intake.json')) return { folder, stage: 'intake', latestFile: path.join(folder, 'intake.json') };
+  // Legacy brief.json has no plot beats - intake asks for them
+  if (files.includes('brief.json')) return { folder, stage: 'brief', latestFile: path.join(folder, 'brief.json') };
   throw new Error(`No resumable artifacts found in ${folder}`);
 };
 
-const loadPipelineState = async (folder: string): Promise<PipelineState | null> => {
+export const loadPipelineState = async (folder: string): Promise<PipelineState | null> => {
   const files = await fs.readdir(folder);
 
+  if (files.includes('checkpoint.json')) {
+    return parseCheckpoint(await loadArtifact(path.join(folder, 'checkpoint.json')));
+  }
+
   if (files.includes('story.json')) {
     // Try to parse as ComposedStory first (has prose/visuals), fallback to base Story
-    const data = await loadJson(path.join(folder, 'story.json')) as Record<string, unknown>;
+    const data = await loadArtifact(path.join(folder, 'story.json')) as Record<string, unknown>;
     const story = StorySchema.parse(data);
 
     // Check if it has prose/visuals (composed story)
@@ -91,7 +124,7 @@ const loadPipelineState = async (folder: string): Promise<PipelineState | null>
   }
 
   if (files.includes('prose.json')) {
-    const storyWithProse = StoryWithProseSchema.parse(await loadJson(path.join(folder, 'prose.json')));
+    const storyWithProse = StoryWithProseSchema.parse(await loadArtifact(path.join(folder, 'prose.json')));
     return {
       story: storyWithProse,
       proseSetup: { logline: storyWithProse.prose.logline, theme: storyWithProse.prose.theme, styleNotes: storyWithProse.prose.styleNotes },
@@ -100,28 +133,64 @@ const loadPipelineState = async (folder: string): Promise<PipelineState | null>
   }
 
   if (files.includes('plot.json')) {
-    const story = StorySchema.parse(await loadJson(path.join(folder, 'plot.json')));
+    const story = StorySchema.parse(await loadArtifact(path.join(folder, 'plot.json')));
     return { story };
   }
 
-  // Legacy brief.json - need to run through draft stage (not supported in simplified pipeline)
-  if (files.includes('brief.json')) {
-    console.warn('Warning: brief.json is a legacy format. Please re-run the draft stage.');
-    return null;
-  }
-
   return null;
 };
 
+/**
+ * Load a legacy brief.json. Briefs predate plot beats, so they are usually
+ * a draft that resume finishes with a short intake for the missing fields.
+ */
+const loadBrief = async (file: string): Promise<{ story?: Story; draft?: Partial<Story> }> => {
+  const result = parseStoryDraft(await loadArtifact(file));
+  if (result.status === 'invalid') {
+    throw new Error(`Invalid ${file}:\n${result.issues.map(issue => `  - ${issue}`).join('\n')}`);
+  }
+  return result.status === 'complete' ? { story: result.data } : { draft: result.data };
+};
+
+interface ResumeOptions {
+  format: BookFormatKey;
+  mock?: boolean;
+  offline?: boolean;
+  from?: string;
+  stopAfter?: string;
+  record?: boolean;
+  /** Cassette path, or true for the story folder's cassette */
+  replay?: string | boolean;
+  cache?: boolean;
+  clearCache?: boolean;
+  compositeText?: boolean;
+  lintProse?: boolean;
+}
+
+const stepNames = DEFAULT_STEPS.map(s => s.name).join(', ');
+
 export const resumeCommand = new Command('resume')
   .description('Resume creating a story from where it left off')
   .argument('[folder]', 'Story folder path (defaults to latest)')
   .option('-f, --format <format>', 'Book format for rendering', 'square-large')
   .option('-m, --mock', 'Use mock images instead of real generation')
-  .action(async (folderArg: string | undefined, options: { format: BookFormatKey; mock?: boolean }) => {
+  .option('--offline', 'Run without network: mock agents and placeholder images')
+  .option('--from <step>', `Rerun from a pipeline step, discarding its output and everything after (${stepNames})`)
+  .option('--stop-after <step>', `Stop after a pipeline step (${stepNames})`)
+  .option('--record', `Record API calls, appending to ${CASSETTE_FILE} in the story folder`)
+  .option('--replay [cassette]', `Replay API calls from a cassette (default: the story folder's ${CASSETTE_FILE})`)
+  .option('--no-cache', 'Bypass the response cache (always call the APIs)')
+  .option('--clear-cache', 'Delete the response cache before running')
+  .option('--composite-text', 'Keep text out of newly rendered images and typeset it over them (default: when the book has composited pages)')
+  .option('--lint-prose', 'Rewrite pages whose prose is too long for the story\'s age range (see bookbug lint)')
+  .action(async (folderArg: string | undefined, options: ResumeOptions) => {
     const ui = createCliUI();
 
     try {
+      if (options.from) getStep(DEFAULT_STEPS, options.from);
+      if (options.stopAfter) getStep(DEFAULT_STEPS, options.stopAfter);
+      if (options.record && options.replay) throw new Error('--record and --replay cannot be combined');
+
       const folder = folderArg ?? (await findLatestStoryFolder());
       if (!folder) {
         console.error('No story folders found in output/');
@@ -132,40 +201,56 @@ export const resumeCommand = new Command('resume')
       const info = await detectStage(folder);
       ui.succeed(`Found story at: ${info.folder}`);
 
+      if (info.stage === 'complete' && !options.from) {
+        console.log('\n✅ Story is already complete!');
+        const book = RenderedBookSchema.parse(await loadArtifact(path.join(folder, 'book.json')));
+        displayBook(book);
+        await tryWritePreview(folder);
+        return;
+      }
+
+      if (options.record) setActiveCassette(await openCassette(path.join(folder, CASSETTE_FILE), 'record'));
+      if (options.replay) {
+        const cassetteFile = typeof options.replay === 'string' ? options.replay : path.join(folder, CASSETTE_FILE);
+        setActiveCassette(await openCassette(cassetteFile, 'replay'));
+      }
+      const cache = createResponseCache();
+      if (options.clearCache) await cache.clear();
+      // --from asks for fresh output, so cached responses would defeat it
+      setActiveCache(options.cache === false || options.from ? undefined : cache);
+      const logger = createLoggerToFolder(folder);
+
       const outputManager = await loadOutputManager(info.latestFile);
+      console.log(`\n📍 Resuming from: ${info.latestFile.split('/').pop()}`);
+      const pipelineState = info.stage === 'intake'
+        ? await startPipeline({ ui, outputManager, logger, transcript: parseIntakeTranscript(await loadArtifact(info.latestFile)) })
+        : info.stage === 'brief'
+          ? await startPipeline({ ui, outputManager, logger, ...(await loadBrief(info.latestFile)) })
+          : await loadPipelineState(folder);
+      if (!pipelineState) throw new Error('Failed to load pipeline state');
 
-      switch (info.stage) {
-        case 'complete': {
-          console.log('\n✅ Story is already complete!');
-          const book = RenderedBookSchema.parse(await loadJson(path.join(folder, 'book.json')));
-          displayBook(book);
-          break;
-        }
-
-        case 'story': {
-          console.log('\n📍 Resuming from: story.json (rendering images)');
-          const story = ComposedStorySchema.parse(await loadJson(info.latestFile));
-          const onStep = (step: string) => ui.progress(`Rendering page ${step.replace('render-', '')}...`);
-          const book = await renderBook(story, { mock: options.mock, format: options.format, outputManager, onStep });
-          ui.succeed('Book rendered');
-          await outputManager.saveBook(book);
-          displayBook(book);
-          console.log(`\nBook saved to: ${folder}/book.json`);
-          break;
-        }
-
-        case 'prose':
-        case 'draft': {
-          console.log(`\n📍 Resuming from: ${info.latestFile.split('/').pop()}`);
-          const pipelineState = await loadPipelineState(folder);
-          if (!pipelineState) throw new Error('Failed to load pipeline state');
-          const result = await runPipelineIncremental(pipelineState, { ui, outputManager, format: options.format });
-          ui.succeed('Book complete!');
-          displayBook(result.book);
-          console.log(`\nAll files saved to: ${folder}`);
-          break;
-        }
+      const startState = options.from ? resetFromStep(DEFAULT_STEPS, pipelineState, options.from) : pipelineState;
+      const pending = getPendingSteps(DEFAULT_STEPS, startState);
+      console.log(`   Remaining steps: ${pending.map(s => s.name).join(' → ') || 'none'}`);
+      const locks = await loadPageLocks(folder);
+      if (locks.pages.length > 0) console.log(`   Locked, skipped: ${locks.pages.map(formatPageLock).join(', ')}`);
+
+      const pipelineOptions = { ui, outputManager, logger, format: options.format, mock: options.mock, offline: options.offline, from: options.from, locks, compositeText: await usesCompositedText(folder, options.compositeText), proseLint: { enabled: options.lintProse } };
+
+      if (options.stopAfter) {
+        await runPipelineSteps(pipelineState, { ...pipelineOptions, stopAfter: options.stopAfter });
+        logCacheStats(logger, cache.stats);
+        ui.succeed(`Stopped after ${options.stopAfter}`);
+        console.log(`\nArtifacts saved to: ${folder}`);
+        return;
       }
+
+      const result = await runPipelineIncremental(pipelineState, pipelineOptions);
+      logCacheStats(logger, cache.stats);
+      ui.succeed('Book complete!');
+      displayBook(result.book);
+      console.log(`\nAll files saved to: ${folder}`);
+      await tryWritePreview(folder);
     } catch (error) {
       ui.fail('Resume failed');
       console.error(error);
@@ -0,0 +1,108 @@
+import { Command } from 'commander';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { PipelineState } from '../../core/pipeline';
+import {
+  ComposedStorySchema,
+  RenderedBookSchema,
+  StorySchema,
+  StoryWithProseSchema,
+  VisualDirectionSchema,
+  getArtifactKind,
+  migrateArtifact,
+} from '../../core/schemas';
+import { DEFAULT_STEPS, parseCheckpoint } from '../../core/steps';
+import { loadArtifact, loadOutputManager } from '../utils/output';
+import { createRevisionStore } from '../utils/revisions';
+
+/**
+ * The pipeline state held by a restored artifact. resume reads checkpoint.json
+ * before any other file, so the checkpoint has to follow a rollback.
+ */
+const checkpointPatch = (file: string, content: string): Partial<PipelineState> => {
+  const kind = getArtifactKind(file);
+  const data = kind ? migrateArtifact(JSON.parse(content), kind).data : JSON.parse(content);
+
+  switch (kind) {
+    case 'story': {
+      const composed = ComposedStorySchema.safeParse(data);
+      // A bare story is the intake result - generation starts over from it
+      if (!composed.success) {
+        return {
+          story: StorySchema.parse(data),
+          styleGuide: undefined,
+          proseSetup: undefined,
+          characterDesigns: undefined,
+          prosePages: undefined,
+          illustratedPages: undefined,
+          renderedPages: undefined,
+          heroPage: undefined,
+        };
+      }
+      const { prose, visuals, characterDesigns } = composed.data;
+      return {
+        story: StorySchema.parse(composed.data),
+        proseSetup: { logline: prose.logline, theme: prose.theme, styleNotes: prose.styleNotes },
+        prosePages: prose.pages,
+        styleGuide: visuals.style,
+        illustratedPages: visuals.illustratedPages,
+        characterDesigns,
+      };
+    }
+    case 'prose': {
+      const { prose, ...story } = StoryWithProseSchema.parse(data);
+      return {
+        story,
+        proseSetup: { logline: prose.logline, theme: prose.theme, styleNotes: prose.styleNotes },
+        prosePages: prose.pages,
+      };
+    }
+    case 'visuals': {
+      const visuals = VisualDirectionSchema.parse(data);
+      return { styleGuide: visuals.style, illustratedPages: visuals.illustratedPages };
+    }
+    case 'book': {
+      const { pages } = RenderedBookSchema.parse(data);
+      return { renderedPages: pages, heroPage: pages[0] };
+    }
+    default:
+      return {};
+  }
+};
+
+export const rollbackCommand = new Command('rollback')
+  .description('Restore a story file and its page images to an earlier revision (see bookbug history)')
+  .argument('<folder>', 'Story folder')
+  .argument('<revision>', 'Revision number to restore')
+  .action(async (folder: string, revisionArg: string) => {
+    try {
+      const revisions = createRevisionStore(folder);
+      const { revision, restoredAssets, removedAssets } = await revisions.rollback(Number(revisionArg));
+
+      // Steps whose output the checkpoint patch cleared
+      let clearedSteps: string[] = [];
+      const checkpointFile = path.join(folder, 'checkpoint.json');
+      const hasCheckpoint = await fs.access(checkpointFile).then(() => true, () => false);
+      if (hasCheckpoint) {
+        const state = parseCheckpoint(await loadArtifact(checkpointFile));
+        const patch = checkpointPatch(revision.file, await revisions.read(revision));
+        const outputManager = await loadOutputManager(checkpointFile);
+        await outputManager.saveCheckpoint({ ...state, ...patch });
+        clearedSteps = DEFAULT_STEPS
+          .map(step => step.name as keyof PipelineState)
+          .filter(name => name in patch && patch[name] === undefined && state[name] !== undefined);
+      }
+
+      console.log(`Restored ${revision.file} from revision ${revisionArg} (saved as revision ${revision.number})`);
+      for (const asset of restoredAssets) console.log(`  restored ${asset}`);
+      for (const asset of removedAssets) console.log(`  removed ${asset} (not in revision ${revisionArg})`);
+      if (clearedSteps.length > 0) {
+        console.log(`Cleared ${clearedSteps.join(', ')} from the checkpoint. To regenerate them, run: bookbug resume ${folder}`);
+      } else {
+        console.log('Later steps are kept as they are. To regenerate them, run: bookbug resume <folder> --from <step>');
+      }
+    } catch (error) {
+      console.error(error);
+      process.exit(1);
+    }
+  });
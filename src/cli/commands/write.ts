@@ -1,8 +1,7 @@
 import { Command } from 'commander';
 import { generateProse } from '../../core/pipeline';
 import { StorySchema, type Prose } from '../../core/schemas';
-import { getOrCreateOutputManager } from '../utils/output';
-import { loadJson } from '../../utils';
+import { getOrCreateOutputManager, loadArtifact } from '../utils/output';
 
 const displayProse = (prose: Prose): void => {
   console.log('\n📖 Prose written:');
@@ -18,7 +17,7 @@ export const writeCommand = new Command('write')
   .action(async (storyFile: string) => {
     try {
       console.log('Loading story...');
-      const story = StorySchema.parse(await loadJson(storyFile));
+      const story = StorySchema.parse(await loadArtifact(storyFile, 'story'));
 
       console.log('Writing prose...');
       const storyWithProse = await generateProse(story);
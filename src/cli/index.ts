@@ -3,11 +3,21 @@ import 'dotenv/config';
 import { Command } from 'commander';
 import { createCommand } from './commands/create';
 import { resumeCommand } from './commands/resume';
+import { importCommand } from './commands/import';
+import { regenCommand } from './commands/regen';
+import { historyCommand } from './commands/history';
+import { diffCommand } from './commands/diff';
+import { rollbackCommand } from './commands/rollback';
+import { lockCommand, unlockCommand } from './commands/lock';
+import { lintCommand } from './commands/lint';
+import { continuityCommand } from './commands/continuity';
 import { writeCommand } from './commands/write';
 import { directCommand } from './commands/direct';
 import { renderCommand } from './commands/render';
 import { qualityCommand } from './commands/quality';
 import { logsCommand } from './commands/logs';
+import { exportCommand } from './commands/export';
+import { previewCommand } from './commands/preview';
 
 const program = new Command();
 
@@ -18,10 +28,21 @@ program
 
 program.addCommand(createCommand);
 program.addCommand(resumeCommand);
+program.addCommand(importCommand);
+program.addCommand(regenCommand);
+program.addCommand(historyCommand);
+program.addCommand(diffCommand);
+program.addCommand(rollbackCommand);
+program.addCommand(lockCommand);
+program.addCommand(unlockCommand);
+program.addCommand(lintCommand);
+program.addCommand(continuityCommand);
 program.addCommand(writeCommand);
 program.addCommand(directCommand);
 program.addCommand(renderCommand);
 program.addCommand(qualityCommand);
 program.addCommand(logsCommand);
+program.addCommand(exportCommand);
+program.addCommand(previewCommand);
 
 program.parse();
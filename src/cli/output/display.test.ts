@@ -244,6 +244,15 @@ describe('displayBook', () => {
     expect(output).toContain('https://example.com/page1.png');
   });
 
+  it('shortens inline data URIs', () => {
+    const dataUrl = `data:image/png;base64,${'A'.repeat(4096)}`;
+    displayBook({ ...minimalBook, pages: [{ pageNumber: 1, url: dataUrl }] });
+
+    const output = consoleSpy.mock.calls.flat().join(' ');
+    expect(output).toContain('data:image/png (inline, ~3 KB)');
+    expect(output).not.toContain(dataUrl);
+  });
+
   it('displays completion message', () => {
     displayBook(minimalBook);
 
@@ -1,5 +1,18 @@
 import chalk from 'chalk';
-import type { StoryBrief, ComposedStory, RenderedBook } from '../../core/schemas';
+import { PAGE_LOCK_STAGES, type StoryBrief, type ComposedStory, type RenderedBook, type PageLock, type PageLocks } from '../../core/schemas';
+import type { Revision, DiffLine } from '../utils/revisions';
+import { hasStoryChanges, type FieldChange, type StoryDiff } from '../../core/utils/story-diff';
+import type { ProseLintReport } from '../../core/utils/prose-lint';
+import type { ContinuityReport } from '../../core/utils/continuity';
+
+/**
+ * Shorten inline data URIs (offline/local providers) so they don't flood the terminal
+ */
+function formatUrl(url: string): string {
+  if (!url.startsWith('data:')) return url;
+  const kb = Math.round((url.length * 3) / 4 / 1024);
+  return `${url.slice(0, url.indexOf(';'))} (inline, ~${kb} KB)`;
+}
 
 /**
  * Display a StoryBrief summary
@@ -62,7 +75,7 @@ export function displayBook(book: RenderedBook): void {
 
   console.log(chalk.bold('\nPages:'));
   for (const page of book.pages.slice(0, 3)) {
-    console.log(`  ${chalk.yellow(`Page ${page.pageNumber}:`)} ${chalk.gray(page.url)}`);
+    console.log(`  ${chalk.yellow(`Page ${page.pageNumber}:`)} ${chalk.gray(formatUrl(page.url))}`);
   }
   if (book.pages.length > 3) {
     console.log(chalk.gray(`  ... and ${book.pages.length - 3} more pages`));
@@ -70,3 +83,170 @@ export function displayBook(book: RenderedBook): void {
 
   console.log('\n' + chalk.green.bold('Book generation complete!'));
 }
+
+/**
+ * Display a story folder's revision history, oldest first
+ */
+export function displayRevisions(revisions: Revision[]): void {
+  if (revisions.length === 0) {
+    console.log(chalk.gray('No revisions yet'));
+    return;
+  }
+
+  console.log('\n' + chalk.bold.yellow('Revisions'));
+  console.log(chalk.gray('─'.repeat(50)));
+  for (const revision of revisions) {
+    const savedAt = new Date(revision.createdAt).toLocaleString();
+    const assetCount = Object.keys(revision.assets).length;
+    console.log(`  ${chalk.yellow(`#${revision.number}`.padEnd(5))} ${revision.file.padEnd(13)} ${chalk.gray(savedAt)}  ${chalk.gray(`${assetCount} images`)}`);
+    console.log(`        ${chalk.cyan(revision.command)}`);
+  }
+}
+
+/**
+ * Display a line diff, showing only changed lines with a few lines of context
+ */
+export function displayLineDiff(lines: DiffLine[], context = 3): void {
+  const changed = lines.map((line, i) => (line.type === 'same' ? -1 : i)).filter(i => i >= 0);
+  if (changed.length === 0) {
+    console.log(chalk.gray('No changes'));
+    return;
+  }
+
+  const visible = new Set(changed.flatMap(i => Array.from({ length: context * 2 + 1 }, (_, k) => i - context + k)));
+  let skipped = false;
+  lines.forEach((line, i) => {
+    if (!visible.has(i)) {
+      if (!skipped) console.log(chalk.gray('  ...'));
+      skipped = true;
+      return;
+    }
+    skipped = false;
+    if (line.type === 'added') console.log(chalk.green(`+ ${line.text}`));
+    else if (line.type === 'removed') console.log(chalk.red(`- ${line.text}`));
+    else console.log(chalk.gray(`  ${line.text}`));
+  });
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? chalk.gray('(none)') : JSON.stringify(value);
+}
+
+function displayFieldChange(change: FieldChange, indent: string): void {
+  console.log(`${indent}${chalk.yellow('~')} ${change.path}: ${chalk.red(formatValue(change.before))} → ${chalk.green(formatValue(change.after))}`);
+}
+
+/**
+ * Display a structured story diff: style guide, characters, then page by page
+ */
+export function displayStoryDiff(diff: StoryDiff): void {
+  if (!hasStoryChanges(diff)) {
+    console.log(chalk.gray('No changes'));
+    return;
+  }
+
+  if (diff.styleGuide.length > 0) {
+    console.log('\n' + chalk.bold('Style guide'));
+    for (const change of diff.styleGuide) displayFieldChange(change, '  ');
+  }
+
+  if (diff.characters.length > 0) {
+    console.log('\n' + chalk.bold('Characters'));
+    for (const character of diff.characters) {
+      if (character.status === 'added') console.log(chalk.green(`  + ${character.name}`));
+      else if (character.status === 'removed') console.log(chalk.red(`  - ${character.name}`));
+      else {
+        console.log(`  ${chalk.yellow('~')} ${character.name}`);
+        for (const change of character.changes) displayFieldChange(change, '      ');
+      }
+    }
+  }
+
+  for (const page of diff.pages) {
+    const status = page.status === 'changed' ? '' : chalk.gray(` (${page.status})`);
+    console.log('\n' + chalk.bold(`Page ${page.pageNumber}`) + status);
+    if (page.text) {
+      if (page.text.before !== undefined) console.log(chalk.red(`  - ${page.text.before}`));
+      if (page.text.after !== undefined) console.log(chalk.green(`  + ${page.text.after}`));
+    }
+    for (const beat of page.removedBeats) console.log(chalk.red(`  - Beat ${beat.order}: ${beat.summary}`));
+    for (const beat of page.addedBeats) console.log(chalk.green(`  + Beat ${beat.order}: ${beat.summary}`));
+    for (const beat of page.beatChanges) {
+      console.log(`  ${chalk.cyan(`Beat ${beat.order}`)}`);
+      for (const change of beat.changes) displayFieldChange(change, '    ');
+    }
+  }
+}
+
+/**
+ * Format a page lock, e.g. "Page 3 (prose, visuals)" or "Page 5 (all)"
+ */
+export function formatPageLock(lock: PageLock): string {
+  const stages = lock.stages.length === PAGE_LOCK_STAGES.length ? 'all' : lock.stages.join(', ');
+  return `Page ${lock.pageNumber} (${stages})`;
+}
+
+/**
+ * Display a story folder's locked pages
+ */
+export function displayLocks(locks: PageLocks): void {
+  if (locks.pages.length === 0) {
+    console.log(chalk.gray('No locked pages'));
+    return;
+  }
+
+  console.log('\n' + chalk.bold.yellow('Locked pages'));
+  console.log(chalk.gray('─'.repeat(50)));
+  for (const lock of locks.pages) {
+    console.log(`  ${chalk.yellow(formatPageLock(lock))} ${chalk.gray(`locked ${new Date(lock.lockedAt).toLocaleString()}`)}`);
+  }
+}
+
+/**
+ * Display a prose lint report: per-page stats against the age band's limits, then the issues
+ */
+export function displayProseLint(report: ProseLintReport): void {
+  const { band, limits } = report;
+  console.log('\n' + chalk.bold.yellow(`Prose lint (ages ${band})`));
+  console.log(chalk.gray(`Limits: ${limits.words[1]} words, ${limits.sentences[1]} sentences, ${limits.maxSentenceWords} words per sentence, grade ${limits.maxGrade}`));
+  console.log(chalk.gray('─'.repeat(50)));
+
+  for (const page of report.pages) {
+    const words = `${page.words} words`.padEnd(10);
+    const sentences = `${page.sentences} sentences`.padEnd(13);
+    const longest = `longest ${page.longestSentence}`.padEnd(11);
+    console.log(`  ${chalk.yellow(`Page ${page.pageNumber}`.padEnd(8))} ${page.words > limits.words[1] ? chalk.red(words) : words} ${page.sentences > limits.sentences[1] ? chalk.red(sentences) : sentences} ${page.longestSentence > limits.maxSentenceWords ? chalk.red(longest) : longest} ${chalk.gray(`grade ${page.grade}`)}`);
+  }
+  console.log(chalk.gray(`\n  Whole book: grade ${report.grade}`));
+
+  if (report.issues.length === 0) {
+    console.log(chalk.green('\nNo issues'));
+    return;
+  }
+  console.log('\n' + chalk.bold('Issues:'));
+  for (const issue of report.issues) {
+    const label = issue.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+    console.log(`  ${label} Page ${issue.pageNumber}: ${issue.message}`);
+  }
+}
+
+/**
+ * Display a continuity report: issues grouped by page
+ */
+export function displayContinuity(report: ContinuityReport): void {
+  console.log('\n' + chalk.bold.yellow('Continuity'));
+  console.log(chalk.gray('─'.repeat(50)));
+
+  if (report.issues.length === 0) {
+    console.log(chalk.green('No issues'));
+    return;
+  }
+  for (const { pageNumber } of report.regenerations) {
+    console.log(chalk.yellow(`Page ${pageNumber}`));
+    for (const issue of report.issues.filter(issue => issue.pageNumber === pageNumber)) {
+      const label = issue.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning');
+      console.log(`  ${label} ${issue.message}`);
+    }
+  }
+  console.log();
+}
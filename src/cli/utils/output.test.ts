@@ -4,12 +4,20 @@ import * as path from 'path';
 import {
   createOutputManager,
   loadOutputManager,
+  loadArtifact,
   isStoryFolder,
+  usesCompositedText,
 } from './output';
+import { CURRENT_SCHEMA_VERSION } from '../../core/schemas';
 
 vi.mock('fs/promises');
 vi.mock('./naming', () => ({
   createStoryFolderName: vi.fn(() => 'test-story-20241126-143052'),
+  formatSortableTimestamp: vi.fn(() => '20241126-150000'),
+}));
+const mockRecord = vi.fn();
+vi.mock('./revisions', () => ({
+  createRevisionStore: vi.fn(() => ({ record: mockRecord })),
 }));
 
 const mockedFs = vi.mocked(fs);
@@ -48,7 +56,7 @@ describe('createOutputManager', () => {
 
     expect(mockedFs.writeFile).toHaveBeenCalledWith(
       'output/test-story-20241126-143052/brief.json',
-      JSON.stringify(brief, null, 2)
+      JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...brief }, null, 2)
     );
   });
 
@@ -60,7 +68,7 @@ describe('createOutputManager', () => {
 
     expect(mockedFs.writeFile).toHaveBeenCalledWith(
       'output/test-story-20241126-143052/plot.json',
-      JSON.stringify(plot, null, 2)
+      JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...plot }, null, 2)
     );
   });
 
@@ -72,7 +80,11 @@ describe('createOutputManager', () => {
 
     expect(mockedFs.writeFile).toHaveBeenCalledWith(
       'output/test-story-20241126-143052/prose.json',
-      JSON.stringify(storyWithProse, null, 2)
+      JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...storyWithProse }, null, 2)
+    );
+    expect(mockRecord).toHaveBeenCalledWith(
+      'prose.json',
+      JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...storyWithProse }, null, 2)
     );
   });
 
@@ -84,7 +96,7 @@ describe('createOutputManager', () => {
 
     expect(mockedFs.writeFile).toHaveBeenCalledWith(
       'output/test-story-20241126-143052/story.json',
-      JSON.stringify(story, null, 2)
+      JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...story }, null, 2)
     );
   });
 
@@ -96,7 +108,49 @@ describe('createOutputManager', () => {
 
     expect(mockedFs.writeFile).toHaveBeenCalledWith(
       'output/test-story-20241126-143052/book.json',
-      JSON.stringify(book, null, 2)
+      JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...book }, null, 2)
+    );
+  });
+
+  it('saveCheckpoint writes to checkpoint.json', async () => {
+    const manager = await createOutputManager('Test Story');
+    const state = { story: { title: 'Test' } } as any;
+
+    await manager.saveCheckpoint(state);
+
+    expect(mockedFs.writeFile).toHaveBeenCalledWith(
+      'output/test-story-20241126-143052/checkpoint.json',
+      JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...state }, null, 2)
+    );
+  });
+
+  it('saveIntake writes to intake.json', async () => {
+    const manager = await createOutputManager('Test Story');
+    const transcript = { opening: 'Hi', story: {}, turns: [], isComplete: false };
+
+    await manager.saveIntake(transcript);
+
+    expect(mockedFs.writeFile).toHaveBeenCalledWith(
+      'output/test-story-20241126-143052/intake.json',
+      JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...transcript }, null, 2)
+    );
+  });
+
+  it('archivePage keeps the replaced version in history/page-N', async () => {
+    mockedFs.copyFile.mockResolvedValue(undefined);
+    const manager = await createOutputManager('Test Story');
+    const replaced = { pageNumber: 3, url: 'https://example.com/page3.png' };
+
+    const archived = await manager.archivePage(3, 'image', replaced);
+
+    expect(archived).toMatch(/^history\/page-3\/image-\d{8}-\d{6}\.json$/);
+    expect(mockedFs.writeFile).toHaveBeenCalledWith(
+      path.join('output/test-story-20241126-143052', archived),
+      JSON.stringify(replaced, null, 2)
+    );
+    expect(mockedFs.copyFile).toHaveBeenCalledWith(
+      'output/test-story-20241126-143052/assets/page-3.png',
+      path.join('output/test-story-20241126-143052', archived.replace(/\.json$/, '.png'))
     );
   });
 
@@ -113,6 +167,29 @@ describe('createOutputManager', () => {
   });
 });
 
+describe('loadArtifact', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('migrates legacy artifacts by file name', async () => {
+    const legacy = { title: 'Old', plotBeats: [{ purpose: 'rising_action', description: 'Things escalate' }] };
+    mockedFs.readFile.mockResolvedValue(JSON.stringify({ story: legacy }));
+
+    const data = await loadArtifact('/stories/old/checkpoint.json') as { story: { plotBeats: { purpose: string }[] } };
+
+    expect(data.story.plotBeats[0]?.purpose).toBe('build');
+    expect(data).not.toHaveProperty('schemaVersion');
+  });
+
+  it('uses the fallback kind for user-named files', async () => {
+    mockedFs.readFile.mockResolvedValue(JSON.stringify({ title: 'Old', customInstructions: ['Be kind'] }));
+
+    await expect(loadArtifact('/stories/otto.json', 'story')).resolves.toEqual({ title: 'Old', customInstructions: 'Be kind' });
+    await expect(loadArtifact('/stories/otto.json')).rejects.toThrow('Not a story artifact');
+  });
+});
+
 describe('loadOutputManager', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -196,3 +273,23 @@ describe('isStoryFolder', () => {
     expect(result).toBe(false);
   });
 });
+
+describe('usesCompositedText', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('follows an explicit flag', async () => {
+    expect(await usesCompositedText('/story', true)).toBe(true);
+    expect(mockedFs.access).not.toHaveBeenCalled();
+  });
+
+  it('detects books that already have composited pages', async () => {
+    mockedFs.access.mockResolvedValueOnce(undefined);
+    expect(await usesCompositedText('/story')).toBe(true);
+    expect(mockedFs.access).toHaveBeenCalledWith('/story/assets/composited');
+
+    mockedFs.access.mockRejectedValueOnce(new Error('ENOENT'));
+    expect(await usesCompositedText('/story')).toBe(false);
+  });
+});
@@ -10,15 +10,56 @@ import type {
   CharacterDesign,
   ImageQualityResult,
   VisualDirection,
+  IntakeTranscript,
 } from '../../core/schemas';
-import { createStoryFolderName } from './naming';
-import { downloadFile } from '../../utils';
+import { EMPTY_PAGE_LOCKS, PageLocksSchema, getArtifactKind, migrateArtifact, withSchemaVersion, type ArtifactKind, type PageLocks } from '../../core/schemas';
+import type { PipelineState, RegenStage } from '../../core/pipeline';
+import { createStoryFolderName, formatSortableTimestamp } from './naming';
+import { createRevisionStore, type RevisionStore } from './revisions';
+import { downloadFile, loadJson } from '../../utils';
 
 const OUTPUT_DIR = './output';
-const ARTIFACT_FILES = ['brief.json', 'plot.json', 'visuals.json', 'prose.json', 'story.json', 'book.json'];
+const ARTIFACT_FILES = ['brief.json', 'plot.json', 'visuals.json', 'prose.json', 'story.json', 'book.json', 'checkpoint.json', 'intake.json'];
 
+/** Artifacts are stamped with schemaVersion so loadArtifact can migrate them later */
 const saveJson = (folder: string, filename: string, data: unknown): Promise<void> =>
-  fs.writeFile(path.join(folder, filename), JSON.stringify(data, null, 2));
+  fs.writeFile(path.join(folder, filename), JSON.stringify(withSchemaVersion(data), null, 2));
+
+/** Save an artifact and keep a numbered revision of it (see revisions.ts) */
+const saveRevisioned = async (revisions: RevisionStore, folder: string, filename: string, data: unknown): Promise<void> => {
+  const content = JSON.stringify(withSchemaVersion(data), null, 2);
+  await fs.writeFile(path.join(folder, filename), content);
+  await revisions.record(filename, content);
+};
+
+/**
+ * Load a story folder artifact (story.json, checkpoint.json, ...), migrated to the
+ * current schemaVersion and ready to parse with the current schemas.
+ * The kind comes from the file name, or fallbackKind for user-named files.
+ */
+export const loadArtifact = async (filePath: string, fallbackKind?: ArtifactKind): Promise<unknown> => {
+  const kind = getArtifactKind(filePath) ?? fallbackKind;
+  if (!kind) throw new Error(`Not a story artifact: ${filePath}`);
+  return migrateArtifact(await loadJson(filePath), kind).data;
+};
+
+const LOCKS_FILE = 'locks.json';
+
+/**
+ * Load a story folder's page locks (none when there is no locks.json)
+ */
+export const loadPageLocks = async (folder: string): Promise<PageLocks> => {
+  const file = path.join(folder, LOCKS_FILE);
+  const exists = await fs.access(file).then(() => true, () => false);
+  return exists ? PageLocksSchema.parse(await loadArtifact(file)) : EMPTY_PAGE_LOCKS;
+};
+
+export const savePageLocks = (folder: string, locks: PageLocks): Promise<void> =>
+  saveJson(folder, LOCKS_FILE, locks);
+
+/** Pages are composited when asked to, or when the book already has composited pages */
+export const usesCompositedText = async (folder: string, compositeText?: boolean): Promise<boolean> =>
+  compositeText || fs.access(path.join(folder, 'assets', 'composited')).then(() => true, () => false);
 
 /**
  * Manages saving story artifacts to a folder structure
@@ -30,22 +71,30 @@ export interface StoryOutputManager {
   saveBrief(brief: StoryBrief): Promise<void>;
   /** Save Story to plot.json (composed brief + plot) */
   savePlot(story: Story): Promise<void>;
-  /** Save VisualDirection to visuals.json (style guide + illustrated pages) */
+  /** Save VisualDirection to visuals.json (style guide + illustrated pages), keeping a revision */
   saveVisuals(visuals: VisualDirection): Promise<void>;
-  /** Save StoryWithProse to prose.json (composed brief + plot + prose) */
+  /** Save StoryWithProse to prose.json (composed brief + plot + prose), keeping a revision */
   saveProse(story: StoryWithProse): Promise<void>;
-  /** Save ComposedStory to story.json */
+  /** Save ComposedStory to story.json, keeping a revision */
   saveStory(story: ComposedStory): Promise<void>;
-  /** Save RenderedBook to book.json */
+  /** Save RenderedBook to book.json, keeping a revision (with the image assets) */
   saveBook(book: RenderedBook): Promise<void>;
+  /** Save the intake conversation to intake.json (written after every turn) */
+  saveIntake(transcript: IntakeTranscript): Promise<void>;
+  /** Save PipelineState to checkpoint.json (written after every pipeline step) */
+  saveCheckpoint(state: PipelineState): Promise<void>;
   /** Save a single page image to assets folder (downloads from URL) */
   savePageImage(page: RenderedPage): Promise<string>;
+  /** Save a page with its text composited (SVG over assets/page-N.png) to assets/composited folder */
+  saveCompositedPage(pageNumber: number, svg: string): Promise<string>;
   /** Save a character design sprite sheet to assets/characters folder */
   saveCharacterDesign(design: CharacterDesign): Promise<string>;
   /** Save quality analysis result for a page to assets/quality folder */
   saveQualityResult(pageNumber: number, result: ImageQualityResult, attempt?: number): Promise<string>;
   /** Save a failed image to assets/failed folder for debugging */
   saveFailedImage(pageNumber: number, attempt: number, url: string): Promise<string>;
+  /** Keep a page version that regen is about to replace in history/page-N (image: also its PNG) */
+  archivePage(pageNumber: number, stage: RegenStage, replaced: unknown): Promise<string>;
 }
 
 /**
@@ -100,14 +149,16 @@ export const isStoryFolder = async (filePath: string): Promise<boolean> => {
 const slugify = (name: string): string =>
   name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
 
-const createManager = (folder: string): StoryOutputManager => ({
+const createManager = (folder: string, revisions: RevisionStore = createRevisionStore(folder)): StoryOutputManager => ({
   folder,
   saveBrief: (brief) => saveJson(folder, 'brief.json', brief),
   savePlot: (plot) => saveJson(folder, 'plot.json', plot),
-  saveVisuals: (visuals) => saveJson(folder, 'visuals.json', visuals),
-  saveProse: (story) => saveJson(folder, 'prose.json', story),
-  saveStory: (story) => saveJson(folder, 'story.json', story),
-  saveBook: (book) => saveJson(folder, 'book.json', book),
+  saveVisuals: (visuals) => saveRevisioned(revisions, folder, 'visuals.json', visuals),
+  saveProse: (story) => saveRevisioned(revisions, folder, 'prose.json', story),
+  saveStory: (story) => saveRevisioned(revisions, folder, 'story.json', story),
+  saveBook: (book) => saveRevisioned(revisions, folder, 'book.json', book),
+  saveIntake: (transcript) => saveJson(folder, 'intake.json', transcript),
+  saveCheckpoint: (state) => saveJson(folder, 'checkpoint.json', state),
   savePageImage: async (page: RenderedPage): Promise<string> => {
     const imageBuffer = await downloadFile(page.url);
     const filename = `page-${page.pageNumber}.png`;
@@ -115,6 +166,12 @@ const createManager = (folder: string): StoryOutputManager => ({
     await fs.writeFile(imagePath, imageBuffer);
     return imagePath;
   },
+  saveCompositedPage: async (pageNumber: number, svg: string): Promise<string> => {
+    const filename = `page-${pageNumber}.svg`;
+    await fs.mkdir(path.join(folder, 'assets', 'composited'), { recursive: true });
+    await fs.writeFile(path.join(folder, 'assets', 'composited', filename), svg);
+    return `assets/composited/${filename}`;
+  },
   saveCharacterDesign: async (design: CharacterDesign): Promise<string> => {
     const imageBuffer = await downloadFile(design.spriteSheetUrl);
     const filename = `${slugify(design.character.name)}.png`;
@@ -135,6 +192,18 @@ const createManager = (folder: string): StoryOutputManager => ({
     await fs.writeFile(imagePath, imageBuffer);
     return `assets/failed/${filename}`;
   },
+  archivePage: async (pageNumber: number, stage: RegenStage, replaced: unknown): Promise<string> => {
+    const historyFolder = path.join('history', `page-${pageNumber}`);
+    const name = `${stage}-${formatSortableTimestamp()}`;
+    await fs.mkdir(path.join(folder, historyFolder), { recursive: true });
+    await fs.writeFile(path.join(folder, historyFolder, `${name}.json`), JSON.stringify(replaced, null, 2));
+    if (stage === 'image') {
+      // Not every run saves page images (e.g. --mock)
+      await fs.copyFile(path.join(folder, 'assets', `page-${pageNumber}.png`), path.join(folder, historyFolder, `${name}.png`))
+        .catch(() => undefined);
+    }
+    return path.join(historyFolder, `${name}.json`);
+  },
 });
 
 /**
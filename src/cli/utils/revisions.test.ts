@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createRevisionStore, diffLines, diffAssets, REVISIONS_DIR } from './revisions';
+
+describe('revision store', () => {
+  let dir: string;
+
+  const writeFile = async (file: string, content: string): Promise<string> => {
+    await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+    await fs.writeFile(path.join(dir, file), content);
+    return content;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'revisions-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('numbers revisions and records the command and image assets', async () => {
+    const store = createRevisionStore(dir, 'bookbug create --offline');
+    await writeFile('assets/page-1.png', 'image one');
+
+    const first = await store.record('prose.json', await writeFile('prose.json', '{"v":1}'));
+    const second = await store.record('story.json', await writeFile('story.json', '{"v":2}'));
+
+    expect(first).toMatchObject({ number: 1, file: 'prose.json', command: 'bookbug create --offline' });
+    expect(second.number).toBe(2);
+    expect(Object.keys(first.assets)).toEqual([path.join('assets', 'page-1.png')]);
+    expect(await store.read(first)).toBe('{"v":1}');
+    expect((await store.list()).map(r => r.number)).toEqual([1, 2]);
+  });
+
+  it('stores each image content once', async () => {
+    const store = createRevisionStore(dir, 'bookbug');
+    await writeFile('assets/page-1.png', 'same');
+    await writeFile('assets/page-2.png', 'same');
+
+    await store.record('book.json', '{}');
+    await store.record('book.json', '{}');
+
+    expect(await fs.readdir(path.join(dir, REVISIONS_DIR, 'objects'))).toHaveLength(1);
+  });
+
+  it('serializes overlapping saves', async () => {
+    const store = createRevisionStore(dir, 'bookbug');
+    const revisions = await Promise.all([1, 2, 3].map(n => store.record('book.json', `{"n":${n}}`)));
+
+    expect(revisions.map(r => r.number)).toEqual([1, 2, 3]);
+    expect(await store.list()).toHaveLength(3);
+  });
+
+  it('rolls back the file and changed images as a new revision', async () => {
+    const store = createRevisionStore(dir, 'bookbug regen');
+    await writeFile('assets/page-1.png', 'old image');
+    await writeFile('assets/page-2.png', 'kept image');
+    await store.record('book.json', await writeFile('book.json', '{"v":1}'));
+    await writeFile('assets/page-1.png', 'new image');
+    await store.record('book.json', await writeFile('book.json', '{"v":2}'));
+
+    const { revision, restoredAssets } = await store.rollback(1, 'bookbug rollback');
+
+    expect(revision).toMatchObject({ number: 3, file: 'book.json', command: 'bookbug rollback' });
+    expect(restoredAssets).toEqual([path.join('assets', 'page-1.png')]);
+    expect(await fs.readFile(path.join(dir, 'book.json'), 'utf-8')).toBe('{"v":1}');
+    expect(await fs.readFile(path.join(dir, 'assets', 'page-1.png'), 'utf-8')).toBe('old image');
+  });
+
+  it('removes images the revision did not have, keeping their content in objects/', async () => {
+    const store = createRevisionStore(dir, 'bookbug create');
+    await store.record('prose.json', await writeFile('prose.json', '{"v":1}'));
+    await writeFile('assets/page-1.png', 'rendered');
+    await writeFile('assets/characters/otto.png', 'sprite');
+    await writeFile('assets/composited/page-1.svg', '<svg/>');
+    await store.record('book.json', await writeFile('book.json', '{"pages":1}'));
+
+    const { restoredAssets, removedAssets } = await store.rollback(1, 'bookbug rollback');
+
+    expect(restoredAssets).toEqual([]);
+    expect(removedAssets).toEqual([path.join('assets', 'page-1.png'), path.join('assets', 'characters', 'otto.png')]);
+    expect(await fs.readdir(path.join(dir, 'assets'))).toEqual(['characters', 'composited']);
+    expect(await fs.readdir(path.join(dir, REVISIONS_DIR, 'objects'))).toHaveLength(2);
+    // Rolling forward brings them back
+    await store.rollback(2, 'bookbug rollback');
+    expect(await fs.readFile(path.join(dir, 'assets', 'page-1.png'), 'utf-8')).toBe('rendered');
+  });
+
+  it('throws for an unknown revision', async () => {
+    const store = createRevisionStore(dir, 'bookbug');
+    await expect(store.get(4)).rejects.toThrow('No revision 4');
+  });
+});
+
+describe('diffLines', () => {
+  it('marks added and removed lines around unchanged ones', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'B' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+  });
+
+  it('returns only unchanged lines for identical text', () => {
+    expect(diffLines('x\ny', 'x\ny').every(line => line.type === 'same')).toBe(true);
+  });
+});
+
+describe('diffAssets', () => {
+  it('lists added, removed and changed paths', () => {
+    expect(diffAssets({ a: '1', b: '2', c: '3' }, { a: '1', b: '9', d: '4' })).toEqual({
+      added: ['d'],
+      removed: ['c'],
+      changed: ['b'],
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Revision history for story artifacts
+ *
+ * Every revisioned save (story.json, prose.json, visuals.json, book.json) keeps a
+ * numbered copy of the file in revisions/, with a timestamp, the command that
+ * produced it, and a manifest of the image assets at that moment. Images are
+ * stored once by content hash in revisions/objects/, so unchanged pages cost nothing.
+ *
+ * revisions/
+ *   index.json            - Revision list
+ *   0001-story.json       - File content of revision 1
+ *   objects/<sha256>.png  - Image assets referenced by any revision
+ */
+
+export const REVISIONS_DIR = 'revisions';
+
+/** Image folders tracked with each revision (failed attempts are debug output, not tracked) */
+const ASSET_FOLDERS = ['assets', path.join('assets', 'characters')];
+
+export interface Revision {
+  number: number;
+  /** Artifact file name, e.g. story.json */
+  file: string;
+  createdAt: string;
+  /** The bookbug command that produced this save */
+  command: string;
+  /** Image assets at save time: relative path → content hash */
+  assets: Record<string, string>;
+}
+
+export interface RevisionStore {
+  /** Record a save of an artifact that was just written to the story folder */
+  record(file: string, content: string): Promise<Revision>;
+  /** All revisions, oldest first */
+  list(): Promise<Revision[]>;
+  /** A revision by number; throws if there is none */
+  get(number: number): Promise<Revision>;
+  /** The saved file content of a revision */
+  read(revision: Revision): Promise<string>;
+  /**
+   * Restore a revision's file and image assets, recorded as a new revision. Images the
+   * revision did not have are removed (their content stays in objects/). Returns the
+   * new revision and the asset paths that were restored and removed.
+   */
+  rollback(number: number, command?: string): Promise<{ revision: Revision; restoredAssets: string[]; removedAssets: string[] }>;
+}
+
+/** The command line of the running bookbug process */
+export const getCurrentCommand = (): string => ['bookbug', ...process.argv.slice(2)].join(' ');
+
+const sha256 = (data: Buffer | string): string => createHash('sha256').update(data).digest('hex');
+
+const revisionFileName = (revision: Pick<Revision, 'number' | 'file'>): string =>
+  `${String(revision.number).padStart(4, '0')}-${revision.file}`;
+
+export const createRevisionStore = (folder: string, command: string = getCurrentCommand()): RevisionStore => {
+  const dir = path.join(folder, REVISIONS_DIR);
+  const indexFile = path.join(dir, 'index.json');
+  // Saves can overlap (e.g. parallel page renders) - serialize index updates
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const loadIndex = async (): Promise<Revision[]> => {
+    const content = await fs.readFile(indexFile, 'utf-8').catch(() => undefined);
+    return content ? (JSON.parse(content) as { revisions: Revision[] }).revisions : [];
+  };
+
+  /** Relative paths of the tracked image assets in the story folder */
+  const listAssets = async (): Promise<string[]> => {
+    const assets: string[] = [];
+    for (const assetFolder of ASSET_FOLDERS) {
+      const files = (await fs.readdir(path.join(folder, assetFolder)).catch(() => undefined)) ?? [];
+      assets.push(...files.filter(f => f.endsWith('.png')).sort().map(file => path.join(assetFolder, file)));
+    }
+    return assets;
+  };
+
+  /** Store an asset's content in objects/ (once per hash) and return the hash */
+  const storeObject = async (relativePath: string): Promise<string> => {
+    const data = await fs.readFile(path.join(folder, relativePath));
+    const hash = sha256(data);
+    const object = path.join(dir, 'objects', `${hash}.png`);
+    await fs.mkdir(path.dirname(object), { recursive: true });
+    if (!(await fs.access(object).then(() => true, () => false))) await fs.writeFile(object, data);
+    return hash;
+  };
+
+  /** Hash the current image assets, storing any new content in objects/ */
+  const snapshotAssets = async (): Promise<Record<string, string>> => {
+    const assets: Record<string, string> = {};
+    for (const relativePath of await listAssets()) assets[relativePath] = await storeObject(relativePath);
+    return assets;
+  };
+
+  const append = (file: string, content: string, revisionCommand: string): Promise<Revision> => {
+    const next = pending.then(async () => {
+      await fs.mkdir(dir, { recursive: true });
+      const revisions = await loadIndex();
+      const revision: Revision = {
+        number: (revisions.at(-1)?.number ?? 0) + 1,
+        file,
+        createdAt: new Date().toISOString(),
+        command: revisionCommand,
+        assets: await snapshotAssets(),
+      };
+      await fs.writeFile(path.join(dir, revisionFileName(revision)), content);
+      await fs.writeFile(indexFile, JSON.stringify({ revisions: [...revisions, revision] }, null, 2));
+      return revision;
+    });
+    pending = next.catch(() => undefined);
+    return next;
+  };
+
+  const get = async (number: number): Promise<Revision> => {
+    const revisions = await loadIndex();
+    const revision = revisions.find(r => r.number === number);
+    if (!revision) {
+      const range = revisions.length > 0 ? `1-${revisions.at(-1)!.number}` : 'none yet';
+      throw new Error(`No revision ${number} in ${folder} (revisions: ${range})`);
+    }
+    return revision;
+  };
+
+  const read = (revision: Revision): Promise<string> =>
+    fs.readFile(path.join(dir, revisionFileName(revision)), 'utf-8');
+
+  return {
+    record: (file, content) => append(file, content, command),
+    list: loadIndex,
+    get,
+    read,
+    rollback: async (number, rollbackCommand = command) => {
+      const target = await get(number);
+      const content = await read(target);
+
+      const restoredAssets: string[] = [];
+      for (const [relativePath, hash] of Object.entries(target.assets)) {
+        const current = await fs.readFile(path.join(folder, relativePath)).catch(() => undefined);
+        if (current && sha256(current) === hash) continue;
+        await fs.mkdir(path.dirname(path.join(folder, relativePath)), { recursive: true });
+        await fs.copyFile(path.join(dir, 'objects', `${hash}.png`), path.join(folder, relativePath));
+        restoredAssets.push(relativePath);
+      }
+
+      // Images made after the revision go too, so the folder matches it
+      const removedAssets: string[] = [];
+      for (const relativePath of await listAssets()) {
+        if (relativePath in target.assets) continue;
+        await storeObject(relativePath);
+        await fs.rm(path.join(folder, relativePath));
+        removedAssets.push(relativePath);
+      }
+
+      await fs.writeFile(path.join(folder, target.file), content);
+      const revision = await append(target.file, content, rollbackCommand);
+      return { revision, restoredAssets, removedAssets };
+    },
+  };
+};
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+export type DiffLine = { type: 'same' | 'added' | 'removed'; text: string };
+
+/**
+ * Line diff (longest common subsequence) between two texts, e.g. two revisions of a JSON file
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common prefix/suffix are most of a revision - keep them out of the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const midA = a.slice(start, a.length - end);
+  const midB = b.slice(start, b.length - end);
+  const cols = midB.length + 1;
+  const lcs = new Uint32Array((midA.length + 1) * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * cols + j + 1]! + 1
+        : Math.max(lcs[(i + 1) * cols + j]!, lcs[i * cols + j + 1]!);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i++]! });
+      j++;
+    } else if (i < midA.length && (j === midB.length || lcs[(i + 1) * cols + j]! >= lcs[i * cols + j + 1]!)) {
+      middle.push({ type: 'removed', text: midA[i++]! });
+    } else {
+      middle.push({ type: 'added', text: midB[j++]! });
+    }
+  }
+
+  return [
+    ...a.slice(0, start).map(text => ({ type: 'same' as const, text })),
+    ...middle,
+    ...a.slice(a.length - end).map(text => ({ type: 'same' as const, text })),
+  ];
+};
+
+/**
+ * Image assets that differ between two asset manifests
+ */
+export const diffAssets = (
+  before: Record<string, string>,
+  after: Record<string, string>
+): { added: string[]; removed: string[]; changed: string[] } => {
+  const paths = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  return {
+    added: paths.filter(p => !(p in before)),
+    removed: paths.filter(p => !(p in after)),
+    changed: paths.filter(p => p in before && p in after && before[p] !== after[p]),
+  };
+};
@@ -1,17 +1,9 @@
-import Replicate from 'replicate';
 import type { StoryCharacter, VisualStyleGuide, CharacterDesign } from '../schemas';
-import {
-  createReplicateClient,
-  extractImageUrl,
-  runWithRateLimit,
-  type ImageModel,
-} from '../services/image-generation';
+import { createImageProvider, type ImageProvider } from '../services/image-provider';
 import { type Logger, logThinking } from '../utils/logger';
 
-const CHARACTER_MODEL: ImageModel = 'flux2-dev';
-
 /**
- * Character sprite sheet generation using Replicate
+ * Character sprite sheet generation using the configured ImageProvider
  */
 
 const buildSpritePrompt = (character: StoryCharacter, styleGuide: VisualStyleGuide): string => {
@@ -47,24 +39,14 @@ Requirements:
 export const characterDesignAgent = async (
   character: StoryCharacter,
   styleGuide: VisualStyleGuide,
-  client: Replicate = createReplicateClient(),
+  provider: ImageProvider = createImageProvider(),
   logger?: Logger
 ): Promise<CharacterDesign> => {
-  const output = await runWithRateLimit(
-    client,
-    CHARACTER_MODEL,
-    {
-      prompt: buildSpritePrompt(character, styleGuide),
-      aspect_ratio: '16:9',
-      output_format: 'png',
-      go_fast: true,
-    },
-    logger
-  );
+  const { url } = await provider.generateSpriteSheet(buildSpritePrompt(character, styleGuide), { aspectRatio: '16:9', logger });
 
   return {
     character,
-    spriteSheetUrl: extractImageUrl(output),
+    spriteSheetUrl: url,
   };
 };
 
@@ -74,14 +56,14 @@ export const characterDesignAgent = async (
 export const generateCharacterDesigns = async (
   characters: StoryCharacter[],
   styleGuide: VisualStyleGuide,
-  options: { client?: Replicate; logger?: Logger } = {}
+  options: { provider?: ImageProvider; logger?: Logger } = {}
 ): Promise<CharacterDesign[]> => {
-  const { client = createReplicateClient(), logger } = options;
+  const { provider = createImageProvider(), logger } = options;
   const designs: CharacterDesign[] = [];
 
   for (const [i, char] of characters.entries()) {
     logThinking(logger, `Generating sprite sheet for ${char.name} (${i + 1}/${characters.length})...`);
-    const design = await characterDesignAgent(char, styleGuide, client, logger);
+    const design = await characterDesignAgent(char, styleGuide, provider, logger);
     designs.push(design);
   }
 
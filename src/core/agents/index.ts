@@ -23,10 +23,14 @@ export type OnStepProgress = (step: string, status: 'start' | 'complete' | 'erro
 
 // Re-export agents (named after their output)
 export { proseAgent, proseSetupAgent, prosePageAgent, type ProsePageInput } from './prose';
+export { manuscriptAgent, type ManuscriptInput, type ManuscriptProse } from './manuscript';
 export { visualsAgent, styleGuideAgent, pageVisualsAgent, type PageVisualsInput, type StylePreset } from './visuals';
 export { characterDesignAgent, generateCharacterDesigns } from './character-design';
 export { renderPage, renderPageMock, createBook, filterStoryForPage } from './renderer';
 
+// Offline mock agents (deterministic, no network)
+export { styleGuideMock, proseSetupMock, prosePageMock, pageVisualsMock } from './mock';
+
 // Progress messages for CLI display
 export { progressMessagesAgent } from './progress-messages';
 
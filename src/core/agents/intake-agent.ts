@@ -25,6 +25,8 @@ import type { Logger } from '../utils/logger';
 export interface IntakeAgentOptions {
   /** Available style presets */
   availableStyles?: string[];
+  /** Only ask about these fields - the rest of the story is already decided (e.g. from a brief file) */
+  focusFields?: string[];
   /** Logger for debugging */
   logger?: Logger;
 }
@@ -52,7 +54,8 @@ export type IntakeMessage = {
 const buildSystemPrompt = (
   availableStyles: string[],
   missingFields: string[],
-  policies: Record<string, FieldPolicy>
+  policies: Record<string, FieldPolicy>,
+  focusFields?: string[]
 ): string => {
   const hasPresets = availableStyles.length > 0;
   const styleHint = hasPresets
@@ -88,7 +91,12 @@ RULES:
 - Always use tools to record information
 - Characters need both name AND description
 - Plot needs at least 3 beats covering the story arc
-- Be creative with suggestions - make them specific to the emerging story`;
+- To fix or reorder an entry, use remove*(), update*At() or move*() - never add a duplicate
+- Be creative with suggestions - make them specific to the emerging story${focusFields ? `
+
+FOCUS:
+The rest of the story was provided up front. Only ask about: ${focusFields.join(', ')}.
+Do not change or ask about any other field. Call finishIntake() as soon as these are filled.` : ''}`;
 };
 
 // ============================================================================
@@ -146,7 +154,7 @@ export const intakeAgent = async (
   history: IntakeMessage[],
   options: IntakeAgentOptions = {}
 ): Promise<IntakeAgentResult> => {
-  const { availableStyles = [], logger } = options;
+  const { availableStyles = [], focusFields, logger } = options;
   const policies = getFieldPolicies(StorySchema);
   const missingFields = getMissingRequiredFields(state.story);
 
@@ -155,7 +163,7 @@ export const intakeAgent = async (
     'Running intake agent turn'
   );
 
-  const systemPrompt = buildSystemPrompt(availableStyles, missingFields, policies);
+  const systemPrompt = buildSystemPrompt(availableStyles, missingFields, policies, focusFields);
 
   const stateContext = `CURRENT STORY:
 ${JSON.stringify(state.story, null, 2)}`;
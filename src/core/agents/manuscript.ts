@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { generateObject } from '../services/ai';
+import {
+  ProseSetupSchema,
+  ProsePageSchema,
+  type Story,
+  type ProseSetup,
+  type ProsePage,
+} from '../schemas';
+import { getFastModel } from '../config';
+import { createRepairFunction } from '../utils/repair';
+import type { Logger } from '../utils/logger';
+
+/**
+ * Manuscript mode: the author wrote the text, so no prose is generated.
+ * A light agent reads the pages and fills in what the visuals stage needs:
+ * the prose setup plus a summary and imageConcept per page.
+ */
+
+const ManuscriptNotesSchema = ProseSetupSchema.extend({
+  pages: z.array(ProsePageSchema.pick({ summary: true, imageConcept: true }))
+    .describe('One entry per manuscript page, in order'),
+});
+
+const SYSTEM_PROMPT = `You are preparing an author's finished picture book manuscript for illustration.
+The text is final - never rewrite, extend or correct it.
+
+You receive the story (characters, setting, plot) and the manuscript pages in order.
+
+Output:
+- logline: One-sentence story summary
+- theme: Central theme or message, as the manuscript shows it
+- styleNotes: The author's writing voice (optional)
+- pages: Exactly one entry per manuscript page, in the same order, each with
+  - summary: Brief description of what happens on the page
+  - imageConcept: The illustration for the page - the moment to show, who is in it and where.
+    Show what the text describes; do not invent events the text doesn't contain.`;
+
+export interface ManuscriptInput {
+  story: Story;
+  /** Page texts from parseManuscript, kept verbatim */
+  pageTexts: string[];
+  logger?: Logger;
+}
+
+export interface ManuscriptProse {
+  proseSetup: ProseSetup;
+  prosePages: ProsePage[];
+}
+
+/**
+ * ManuscriptAgent: Annotates author-written pages for the visuals stage.
+ * Page text is copied from the manuscript, never from the model.
+ */
+export const manuscriptAgent = async ({ story, pageTexts, logger }: ManuscriptInput): Promise<ManuscriptProse> => {
+  logger?.debug({ agent: 'manuscriptAgent', title: story.title, pageCount: pageTexts.length }, 'Annotating manuscript');
+
+  const context = {
+    story,
+    pages: pageTexts.map((text, i) => ({ pageNumber: i + 1, text })),
+  };
+
+  const { object } = await generateObject({
+    model: getFastModel(),
+    schema: ManuscriptNotesSchema,
+    system: SYSTEM_PROMPT,
+    prompt: JSON.stringify(context, null, 2),
+    experimental_repairText: createRepairFunction(),
+  }, logger, 'manuscriptAgent');
+
+  if (object.pages.length !== pageTexts.length) {
+    throw new Error(`manuscriptAgent returned ${object.pages.length} pages for a ${pageTexts.length}-page manuscript`);
+  }
+
+  const { pages, ...proseSetup } = object;
+  logger?.info({ agent: 'manuscriptAgent', pageCount: pages.length, logline: proseSetup.logline.substring(0, 80) }, 'Manuscript annotated');
+
+  return {
+    proseSetup,
+    prosePages: pages.map((page, i) => ({ ...page, text: pageTexts[i]! })),
+  };
+};
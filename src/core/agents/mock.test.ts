@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { styleGuideMock, proseSetupMock, prosePageMock, pageVisualsMock } from './mock';
+import {
+  ProseSetupSchema,
+  ProsePageSchema,
+  VisualStyleGuideSchema,
+  IllustratedPageSchema,
+  type Story,
+} from '../schemas';
+
+const story: Story = {
+  title: 'Otto and the Lost Kite',
+  storyArc: 'Otto learns to ask for help',
+  setting: 'A windy hilltop town',
+  ageRange: { min: 3, max: 6 },
+  pageCount: 4,
+  characters: [{ name: 'Otto', description: 'A small grey otter', traits: [], notes: [] }],
+  interests: [],
+  plotBeats: [
+    { purpose: 'setup', description: 'Otto flies his kite' },
+    { purpose: 'conflict', description: 'The kite blows away' },
+  ],
+  allowCreativeLiberty: true,
+};
+
+describe('offline mock agents', () => {
+  it('produce schema-valid setup and style guide', async () => {
+    expect(ProseSetupSchema.safeParse(await proseSetupMock(story)).success).toBe(true);
+    expect(VisualStyleGuideSchema.safeParse(await styleGuideMock(story)).success).toBe(true);
+  });
+
+  it('spread plot beats across pages', async () => {
+    const proseSetup = await proseSetupMock(story);
+    const pages = await Promise.all([1, 2, 3, 4].map(pageNumber =>
+      prosePageMock({ story, proseSetup, pageNumber, previousPages: [] })
+    ));
+
+    pages.forEach(page => expect(ProsePageSchema.safeParse(page).success).toBe(true));
+    expect(pages.map(page => page.summary)).toEqual([
+      'Otto flies his kite',
+      'Otto flies his kite',
+      'The kite blows away',
+      'The kite blows away',
+    ]);
+  });
+
+  it('produce schema-valid page visuals', async () => {
+    const styleGuide = await styleGuideMock(story);
+    const prosePage = await prosePageMock({ story, proseSetup: await proseSetupMock(story), pageNumber: 3, previousPages: [] });
+    const page = await pageVisualsMock({ story, styleGuide, pageNumber: 3, prosePage });
+
+    expect(IllustratedPageSchema.safeParse(page).success).toBe(true);
+    expect(page.beats[0]?.purpose).toBe('conflict');
+  });
+});
@@ -0,0 +1,89 @@
+import type {
+  Story,
+  ProseSetup,
+  ProsePage,
+  VisualStyleGuide,
+  IllustratedPage,
+  PlotBeat,
+  ShotComposition,
+} from '../schemas';
+import type { ProsePageInput } from './prose';
+import type { PageVisualsInput, StylePreset } from './visuals';
+
+/**
+ * Offline mock agents
+ *
+ * Deterministic stand-ins for the LLM agents, derived only from the story.
+ * Same signatures as the real agents; outputs satisfy the zod schemas.
+ * Images come from the offline ImageProvider (services/offline-image-provider.ts).
+ */
+
+const SHOT_SIZES: ShotComposition['size'][] = ['wide', 'medium', 'close_up', 'medium_wide'];
+const SHOT_ANGLES: ShotComposition['angle'][] = ['eye_level', 'childs_eye', 'high_angle', 'low_angle_hero'];
+
+/** The plot beat a page falls under, spreading beats evenly across pages */
+const beatForPage = (story: Story, pageNumber: number): PlotBeat => {
+  const index = Math.floor(((pageNumber - 1) * story.plotBeats.length) / Math.max(story.pageCount, 1));
+  return story.plotBeats[Math.min(index, story.plotBeats.length - 1)]!;
+};
+
+export const styleGuideMock = async (story: Story, stylePreset?: StylePreset): Promise<VisualStyleGuide> => ({
+  art_style: {
+    genre: stylePreset?.genre ?? ['picture book'],
+    medium: stylePreset?.medium ?? ['digital illustration'],
+    technique: stylePreset?.technique ?? ['soft edges'],
+    style_strength: stylePreset?.style_strength,
+  },
+  coreEmotion: story.tone ?? 'wonder',
+  setting: {
+    location: story.setting,
+    landmarks: [],
+    diegetic_lights: [],
+  },
+  constraints: { negative: ['scary imagery'] },
+});
+
+export const proseSetupMock = async (story: Story): Promise<ProseSetup> => ({
+  logline: `${story.title}: ${story.storyArc}`,
+  theme: story.moral ?? story.storyArc,
+  styleNotes: 'Offline placeholder prose',
+});
+
+export const prosePageMock = async ({ story, pageNumber }: ProsePageInput): Promise<ProsePage> => {
+  const beat = beatForPage(story, pageNumber);
+  return {
+    summary: beat.description,
+    text: `Page ${pageNumber}. ${beat.description}`,
+    imageConcept: `${beat.description} in ${story.setting}`,
+  };
+};
+
+export const pageVisualsMock = async ({ story, pageNumber, prosePage }: PageVisualsInput): Promise<IllustratedPage> => {
+  const beat = beatForPage(story, pageNumber);
+  const character = story.characters[(pageNumber - 1) % story.characters.length];
+
+  return {
+    pageNumber,
+    beats: [{
+      order: 1,
+      purpose: beat.purpose,
+      summary: prosePage.imageConcept,
+      emotion: story.tone ?? 'curious',
+      characters: character
+        ? [{ id: character.name, expression: 'curious', pose: 'standing', focus: 'primary' }]
+        : [],
+      shot: {
+        size: SHOT_SIZES[(pageNumber - 1) % SHOT_SIZES.length]!,
+        angle: SHOT_ANGLES[(pageNumber - 1) % SHOT_ANGLES.length]!,
+        layout: 'full_bleed_single',
+        staging: {
+          negative_space: 'top third',
+          anchors: character ? [{ subject: character.name, grid: 'bottom-left third' }] : undefined,
+        },
+      },
+    }],
+    // Some lettering, so offline runs exercise the compositor
+    ...(character && pageNumber % 2 === 0 && { dialogue: [{ speaker: character.name, text: 'Look at that!', grid: 'middle right' }] }),
+    ...(pageNumber % 3 === 0 && { soundEffects: [{ text: 'WHOOSH!', grid: 'middle left' }] }),
+  };
+};
@@ -3,6 +3,7 @@ import {
   ProseSchema,
   ProseSetupSchema,
   ProsePageSchema,
+  AGE_BANDS,
   type Story,
   type Prose,
   type ProseSetup,
@@ -10,6 +11,7 @@ import {
 } from '../schemas';
 import { getModel } from '../config';
 import { createRepairFunction } from '../utils/repair';
+import { PROSE_LIMITS } from '../utils/prose-lint';
 import type { Logger } from '../utils/logger';
 
 // ============================================================================
@@ -62,11 +64,12 @@ CONFLICT RESOLUTION
 - Resolution through character action, not luck/magic
 - Model healthy coping (asking for help, compromise, expressing feelings)`;
 
+// Built from PROSE_LIMITS, which the prose linter checks pages against
 const AGE_GUIDELINES = `PER-PAGE TEXT LIMITS (picture books have minimal text!)
-- Ages 2-4: 1-2 sentences per page (10-20 words max) | Simple words, repetition
-- Ages 4-6: 2-3 sentences per page (20-40 words max) | Mix simple + new words
-- Ages 6-8: 3-4 sentences per page (40-60 words max) | Descriptive vocabulary
-- Ages 8+: 3-4 sentences per page (40-60 words max) | Descriptive vocabulary
+${AGE_BANDS.map(band => {
+  const { sentences, words, vocabulary } = PROSE_LIMITS[band];
+  return `- Ages ${band}: ${sentences[0]}-${sentences[1]} sentences per page (${words[0]}-${words[1]} words max) | ${vocabulary}`;
+}).join('\n')}
 
 
 CRITICAL: Each page should have just a few lines of text. The illustrations carry the story.`;
@@ -183,6 +186,10 @@ export interface ProsePageInput {
   proseSetup: ProseSetup;
   pageNumber: number;
   previousPages: ProsePage[];
+  /** Pages that follow, when rewriting one page of a finished book */
+  nextPages?: ProsePage[];
+  /** Problems with a previous draft of this page (e.g. from the prose linter) to fix in the rewrite */
+  feedback?: string[];
   logger?: Logger;
 }
 
@@ -193,6 +200,8 @@ You receive:
 - Prose setup (logline, theme, styleNotes)
 - Page number and total page count
 - Previous pages (for continuity)
+- Next pages, when rewriting one page of a finished book (lead into them without repeating them)
+- Feedback, when a previous draft of the page broke the limits (fix every point)
 
 WRITING GUIDELINES
 - Follow the established voice from styleNotes
@@ -215,7 +224,7 @@ Output a single page with:
  * ProsePageAgent: Generates prose for a single page
  */
 export const prosePageAgent = async (input: ProsePageInput): Promise<ProsePage> => {
-  const { story, proseSetup, pageNumber, previousPages, logger } = input;
+  const { story, proseSetup, pageNumber, previousPages, nextPages, feedback, logger } = input;
 
   logger?.debug(
     { agent: 'prosePageAgent', pageNumber, totalPages: story.pageCount, previousPagesCount: previousPages.length },
@@ -228,6 +237,8 @@ export const prosePageAgent = async (input: ProsePageInput): Promise<ProsePage>
     pageNumber,
     totalPages: story.pageCount,
     previousPages,
+    nextPages,
+    feedback,
   };
 
   const { object } = await generateObject({
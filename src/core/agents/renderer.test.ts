@@ -7,17 +7,27 @@ import {
 } from './renderer';
 import type { ComposedStory, RenderedPage } from '../schemas';
 
-// Mock image-generation module
-vi.mock('../services/image-generation', () => ({
+// Mock the configured image provider
+const { generatePageImage } = vi.hoisted(() => ({
   generatePageImage: vi.fn().mockResolvedValue({ url: 'https://generated.com/image.png' }),
 }));
 
+vi.mock('../services/image-provider', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/image-provider')>()),
+  createImageProvider: () => ({
+    name: 'replicate',
+    supportedAspectRatios: ['1:1', '4:3', '3:4'],
+    maxReferenceImages: 4,
+    generatePage: generatePageImage,
+    generateSpriteSheet: vi.fn(),
+  }),
+}));
+
 // Mock image-quality module
 vi.mock('./image-quality', () => ({
   imageQualityAgent: vi.fn(),
 }));
 
-import { generatePageImage } from '../services/image-generation';
 import { imageQualityAgent } from './image-quality';
 
 const createMinimalStory = (overrides?: Partial<ComposedStory>): ComposedStory => ({
@@ -122,6 +132,18 @@ describe('filterStoryForPage', () => {
     expect(slice.page.text).toBe('She entered the garden.');
   });
 
+  it('includes the page\'s dialogue and sound effects', () => {
+    const story = createMinimalStory();
+    story.visuals.illustratedPages[1]!.dialogue = [{ speaker: 'Luna', text: 'Hello?', grid: 'top right' }];
+    story.visuals.illustratedPages[1]!.soundEffects = [{ text: 'CREAK!', grid: 'middle left' }];
+
+    const slice = filterStoryForPage(story, 2);
+
+    expect(slice.page.dialogue).toEqual([{ speaker: 'Luna', text: 'Hello?', grid: 'top right' }]);
+    expect(slice.page.soundEffects).toEqual([{ text: 'CREAK!', grid: 'middle left' }]);
+    expect(filterStoryForPage(story, 1).page.dialogue).toBeUndefined();
+  });
+
   it('includes story title and style', () => {
     const story = createMinimalStory();
 
@@ -251,6 +273,24 @@ describe('renderPage', () => {
     );
   });
 
+  it('uses the provider passed in options', async () => {
+    const story = createMinimalStory();
+    const generatePage = vi.fn().mockResolvedValue({ url: 'http://localhost/page.png' });
+    const provider = { name: 'local' as const, supportedAspectRatios: ['1:1' as const], maxReferenceImages: 0, generatePage, generateSpriteSheet: vi.fn() };
+
+    const result = await renderPage(story, 1, { provider });
+
+    expect(result.url).toBe('http://localhost/page.png');
+    expect(generatePageImage).not.toHaveBeenCalled();
+  });
+
+  it('rejects formats the provider cannot generate', async () => {
+    const story = createMinimalStory();
+    const provider = { name: 'local' as const, supportedAspectRatios: ['1:1' as const], maxReferenceImages: 0, generatePage: vi.fn(), generateSpriteSheet: vi.fn() };
+
+    await expect(renderPage(story, 1, { format: 'landscape', provider })).rejects.toThrow('does not support aspect ratio 4:3');
+  });
+
   describe('with quality check enabled', () => {
     const mockPassingQuality = {
       score: 85,
@@ -1,6 +1,7 @@
 import type { ComposedStory, RenderedBook, RenderedPage, BookFormatKey, PageRenderContext, ImageQualityResult } from '../schemas';
 import { BOOK_FORMATS } from '../schemas';
-import { generatePageImage, type ImageModel } from '../services/image-generation';
+import type { ImageModel } from '../services/image-generation';
+import { createImageProvider, resolveAspectRatio, type ImageProvider } from '../services/image-provider';
 import { imageQualityAgent } from './image-quality';
 import type { Logger } from '../utils/logger';
 
@@ -16,8 +17,12 @@ export interface RenderPageOptions {
   /** Enable quality checking with optional threshold (default 70) */
   qualityCheck?: boolean | { threshold?: number; maxRetries?: number };
   logger?: Logger;
-  /** Image generation model (default: nano-banana) */
+  /** Image generation model for the Replicate provider (default: nano-banana) */
   model?: ImageModel;
+  /** Image backend (default: the configured provider, see createImageProvider) */
+  provider?: ImageProvider;
+  /** The text is composited later (text-compositor.ts), so the image must not contain any */
+  compositeText?: boolean;
 }
 
 /** Render a single page image. Pass heroPageUrl (page 1) for style consistency. */
@@ -26,13 +31,15 @@ export const renderPage = async (
   pageNumber: number,
   options: RenderPageOptions = {}
 ): Promise<RenderedPage & { quality?: ImageQualityResult; failedAttempts?: Array<{ url: string; quality: ImageQualityResult }> }> => {
-  const { format = 'square-large', heroPageUrl, qualityCheck, logger, model } = options;
-  const storySlice = filterStoryForPage(story, pageNumber);
+  const { format = 'square-large', heroPageUrl, qualityCheck, logger, model, provider = createImageProvider({ model }), compositeText } = options;
+  const pageSlice = filterStoryForPage(story, pageNumber);
+  const storySlice = compositeText ? { ...pageSlice, page: { ...pageSlice.page, textComposited: true } } : pageSlice;
   const formatSpec = BOOK_FORMATS[format];
+  resolveAspectRatio(provider, formatSpec);
 
   // No quality check - simple render
   if (!qualityCheck) {
-    const result = await generatePageImage(storySlice, formatSpec, { heroPageUrl, logger, model });
+    const result = await provider.generatePage(storySlice, formatSpec, { heroPageUrl, logger });
     return { pageNumber, url: result.url };
   }
 
@@ -42,7 +49,7 @@ export const renderPage = async (
   const failedAttempts: Array<{ url: string; quality: ImageQualityResult }> = [];
 
   for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
-    const result = await generatePageImage(storySlice, formatSpec, { heroPageUrl, logger, model });
+    const result = await provider.generatePage(storySlice, formatSpec, { heroPageUrl, logger });
     const quality = await imageQualityAgent(result.url, storySlice, { qualityThreshold: threshold, logger });
 
     if (quality.passesQualityBar || attempt > maxRetries) {
@@ -99,6 +106,8 @@ export const filterStoryForPage = (story: ComposedStory, pageNumber: number): Pa
       pageNumber,
       text: prosePage?.text,
       beats: illustratedPage?.beats,
+      dialogue: illustratedPage?.dialogue,
+      soundEffects: illustratedPage?.soundEffects,
     },
   };
 };
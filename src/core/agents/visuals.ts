@@ -4,6 +4,7 @@ import {
   VisualDirectionSchema,
   VisualStyleGuideSchema,
   IllustrationBeatSchema,
+  IllustratedPageSchema,
   type Story,
   type StoryWithProse,
   type VisualDirection,
@@ -15,6 +16,11 @@ import { getModel } from '../config';
 import { createRepairFunction } from '../utils/repair';
 import type { Logger } from '../utils/logger';
 
+const LETTERING_GUIDELINES = `Lettering (optional, sparingly - most pages need none):
+- dialogue: a speech or thought bubble for a character speaking aloud. speaker is a character ID from Story.characters, text is a few words (never the page text), grid is where the bubble sits, like staging.anchors
+- soundEffects: onomatopoeia for a sound the moment is about (e.g., "SPLASH!"), with its grid position and the speaker making it, if any
+- Keep bubbles and sound effects clear of faces and the page text's negative space`;
+
 const SYSTEM_PROMPT = `You are an illustrator for children's picture books. Given a story with prose, create visual direction.
 
 IMPORTANT: You MUST output BOTH fields:
@@ -30,6 +36,8 @@ For each beat:
 - characters: Who appears
 - shot: size and angle (required), other fields optional
 
+${LETTERING_GUIDELINES}
+
 Visual principles:
 - First think of core emotion and plot beat in the scene
 - In your composition of the visual, exaggerate this emotion as far as you possibly can
@@ -54,6 +62,21 @@ ANIMATION PRINCIPLES FOR STATIC ILLUSTRATION:
 
 CRITICAL: Generate illustratedPages for EVERY page in the story. Do not stop after style.`;
 
+/**
+ * Drop dialogue and sound effects whose speaker isn't one of the story's characters
+ */
+export const keepKnownSpeakers = (page: IllustratedPage, story: Story, logger?: Logger): IllustratedPage => {
+  const names = new Set(story.characters.map(character => character.name));
+  const known = ({ speaker }: { speaker?: string }) => speaker === undefined || names.has(speaker);
+  const dialogue = page.dialogue?.filter(known);
+  const soundEffects = page.soundEffects?.filter(known);
+
+  const dropped = (page.dialogue?.length ?? 0) - (dialogue?.length ?? 0) + (page.soundEffects?.length ?? 0) - (soundEffects?.length ?? 0);
+  if (dropped > 0) logger?.warn({ pageNumber: page.pageNumber, dropped }, 'Dropped lettering with unknown speakers');
+
+  return { ...page, ...(dialogue && { dialogue }), ...(soundEffects && { soundEffects }) };
+};
+
 /**
  * VisualsAgent: Takes a StoryWithProse and produces VisualDirection
  *
@@ -84,7 +107,7 @@ export const visualsAgent = async (story: StoryWithProse, logger?: Logger): Prom
     'Full visual direction generated'
   );
 
-  return visuals;
+  return { ...visuals, illustratedPages: visuals.illustratedPages.map(page => keepKnownSpeakers(page, story, logger)) };
 };
 
 /**
@@ -178,6 +201,8 @@ export interface PageVisualsInput {
   styleGuide: VisualStyleGuide;
   pageNumber: number;
   prosePage: ProsePage;
+  /** Visual direction of the surrounding pages, when re-directing one page of a finished book */
+  neighbourPages?: IllustratedPage[];
   logger?: Logger;
 }
 
@@ -188,6 +213,7 @@ You receive:
 - Visual style guide (established art direction, colors, mood)
 - Page number
 - Prose page (text and imageConcept to illustrate)
+- Neighbour pages, when re-directing one page of a finished book (keep continuity, vary the shot from them)
 
 For this page, create one or more IllustrationBeats:
 - order: Sequence number (1, 2, 3...)
@@ -197,6 +223,8 @@ For this page, create one or more IllustrationBeats:
 - characters: Who appears, their expression, pose, focus level
 - shot: Composition (size, angle, POV, layout, staging)
 
+${LETTERING_GUIDELINES}
+
 ANIMATION PRINCIPLES FOR STATIC ILLUSTRATION:
 1. Squash & Stretch: Show weight through distorted forms—elongate jumping figures, compress on impact
 2. Anticipation: Include the wind-up before action—leaning back before running, eyes widening before surprise
@@ -220,13 +248,15 @@ Shot composition principles:
 // Schema for just the beats (pageNumber is known input, not LLM output)
 const PageBeatsSchema = z.object({
   beats: z.array(IllustrationBeatSchema).min(1).describe('Illustration beats for this page'),
+  dialogue: IllustratedPageSchema.shape.dialogue,
+  soundEffects: IllustratedPageSchema.shape.soundEffects,
 });
 
 /**
  * PageVisualsAgent: Generates illustration beats for a single page
  */
 export const pageVisualsAgent = async (input: PageVisualsInput): Promise<IllustratedPage> => {
-  const { story, styleGuide, pageNumber, prosePage, logger } = input;
+  const { story, styleGuide, pageNumber, prosePage, neighbourPages, logger } = input;
 
   logger?.debug(
     { agent: 'pageVisualsAgent', pageNumber, totalPages: story.pageCount },
@@ -239,6 +269,7 @@ export const pageVisualsAgent = async (input: PageVisualsInput): Promise<Illustr
     pageNumber,
     totalPages: story.pageCount,
     prosePage,
+    neighbourPages,
   };
 
   const { object } = await generateObject({
@@ -257,8 +288,5 @@ export const pageVisualsAgent = async (input: PageVisualsInput): Promise<Illustr
   );
 
   // Construct IllustratedPage with known pageNumber
-  return {
-    pageNumber,
-    beats: object.beats,
-  };
+  return keepKnownSpeakers({ pageNumber, ...object }, story, logger);
 };
@@ -32,3 +32,49 @@ export const getModel = () => {
 export const getFastModel = () => {
   return anthropic(process.env.BOOKBUG_FAST_MODEL_ID ?? FAST_MODEL_ID);
 };
+
+/**
+ * Image Provider Configuration
+ *
+ * - replicate (default): hosted models via REPLICATE_API_TOKEN
+ * - local: Automatic1111-compatible HTTP API (own hardware, offline CI)
+ * - offline: placeholder PNGs generated in-process (no network)
+ */
+
+export type ImageProviderName = 'replicate' | 'local' | 'offline';
+
+const IMAGE_PROVIDERS: ImageProviderName[] = ['replicate', 'local', 'offline'];
+const DEFAULT_LOCAL_IMAGE_URL = 'http://127.0.0.1:7860';
+
+/**
+ * Get the configured image provider (BOOKBUG_IMAGE_PROVIDER)
+ */
+export const getImageProviderName = (): ImageProviderName => {
+  const name = process.env.BOOKBUG_IMAGE_PROVIDER ?? 'replicate';
+  if (!IMAGE_PROVIDERS.includes(name as ImageProviderName)) {
+    throw new Error(`Unknown image provider "${name}". Expected one of: ${IMAGE_PROVIDERS.join(', ')}`);
+  }
+  return name as ImageProviderName;
+};
+
+/**
+ * Get the base URL of the local image server (BOOKBUG_LOCAL_IMAGE_URL)
+ */
+export const getLocalImageUrl = (): string => {
+  return process.env.BOOKBUG_LOCAL_IMAGE_URL ?? DEFAULT_LOCAL_IMAGE_URL;
+};
+
+/**
+ * Response Cache Configuration
+ *
+ * On-disk cache of LLM and image responses (services/cache.ts), shared by all stories.
+ */
+
+const DEFAULT_CACHE_DIR = '.bookbug-cache';
+
+/**
+ * Get the response cache directory (BOOKBUG_CACHE_DIR)
+ */
+export const getCacheDir = (): string => {
+  return process.env.BOOKBUG_CACHE_DIR ?? DEFAULT_CACHE_DIR;
+};
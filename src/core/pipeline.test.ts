@@ -1,6 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
   runPipelineIncremental,
+  runPipelineSteps,
+  runIntakeStage,
+  runImportStage,
+  runManuscriptStage,
+  regeneratePage,
+  UNDO_LAST_ANSWER,
+  INFER_FROM_TEXT,
   generateProse,
   generateVisuals,
   renderBook,
@@ -16,6 +23,7 @@ import type {
   IllustratedPage,
 } from './schemas';
 import type { StoryOutputManager } from '../cli/utils/output';
+import { DEFAULT_STEPS, insertStep, type PipelineStep } from './steps';
 
 vi.mock('./agents', async (importOriginal) => {
   const actual = await importOriginal<typeof import('./agents')>();
@@ -29,9 +37,15 @@ vi.mock('./agents', async (importOriginal) => {
     styleGuideAgent: vi.fn(),
     generateCharacterDesigns: vi.fn(),
     renderPage: vi.fn(),
+    extract: vi.fn(),
+    manuscriptAgent: vi.fn(),
   };
 });
 
+vi.mock('./agents/intake-agent', () => ({ intakeAgent: vi.fn() }));
+
+import { intakeAgent } from './agents/intake-agent';
+
 import {
   proseAgent,
   proseSetupAgent,
@@ -41,6 +55,8 @@ import {
   styleGuideAgent,
   generateCharacterDesigns,
   renderPage,
+  extract,
+  manuscriptAgent,
 } from './agents';
 
 const mockedProseAgent = vi.mocked(proseAgent);
@@ -174,10 +190,14 @@ describe('renderBook', () => {
       saveProse: vi.fn(),
       saveStory: vi.fn(),
       saveBook: vi.fn(),
+      saveIntake: vi.fn(),
+      saveCheckpoint: vi.fn(),
       savePageImage: vi.fn().mockResolvedValue('/test/folder/assets/page-1.png'),
+      saveCompositedPage: vi.fn().mockResolvedValue('assets/composited/page-1.svg'),
       saveCharacterDesign: vi.fn().mockResolvedValue('assets/characters/test.png'),
       saveQualityResult: vi.fn().mockResolvedValue('assets/quality/page-1.json'),
       saveFailedImage: vi.fn().mockResolvedValue('assets/failed/page-1-attempt-1.png'),
+      archivePage: vi.fn(),
     };
 
     await renderBook(mockComposedStory, { outputManager });
@@ -190,6 +210,20 @@ describe('renderBook', () => {
     expect(onStep).toHaveBeenCalledWith('render-1');
     expect(onStep).toHaveBeenCalledWith('render-2');
   });
+
+  it('reuses the previous image of pages with a locked image', async () => {
+    const previousPages = [
+      { pageNumber: 1, url: 'assets/page-1.png' },
+      { pageNumber: 2, url: 'assets/page-2.png' },
+    ];
+    const locks = { pages: [{ pageNumber: 1, stages: ['image' as const], lockedAt: '2024-11-26T14:30:52.000Z' }] };
+
+    const result = await renderBook(mockComposedStory, { locks, previousPages });
+
+    expect(mockedRenderPage).toHaveBeenCalledTimes(1);
+    expect(mockedRenderPage).toHaveBeenCalledWith(mockComposedStory, 2, expect.objectContaining({ heroPageUrl: 'assets/page-1.png' }));
+    expect(result.pages.map(page => page.url)).toEqual(['assets/page-1.png', 'https://example.com/page2.png']);
+  });
 });
 
 describe('runPipelineIncremental', () => {
@@ -253,10 +287,14 @@ describe('runPipelineIncremental', () => {
       saveProse: vi.fn(),
       saveStory: vi.fn(),
       saveBook: vi.fn(),
+      saveIntake: vi.fn(),
+      saveCheckpoint: vi.fn(),
       savePageImage: vi.fn().mockResolvedValue('/test/folder/assets/page-1.png'),
+      saveCompositedPage: vi.fn().mockResolvedValue('assets/composited/page-1.svg'),
       saveCharacterDesign: vi.fn().mockResolvedValue('assets/characters/test.png'),
       saveQualityResult: vi.fn().mockResolvedValue('assets/quality/page-1.json'),
       saveFailedImage: vi.fn().mockResolvedValue('assets/failed/page-1-attempt-1.png'),
+      archivePage: vi.fn(),
     };
 
     await runPipelineIncremental(mockPipelineState, { outputManager });
@@ -278,8 +316,446 @@ describe('runPipelineIncremental', () => {
     expect(mockedProseSetupAgent).not.toHaveBeenCalled();
   });
 
+  it('skips completed steps', async () => {
+    const state: PipelineState = {
+      ...mockPipelineState,
+      styleGuide: mockStyleGuide,
+      proseSetup: mockProseSetup,
+      characterDesigns: [],
+      prosePages: mockProse.pages,
+      illustratedPages: [mockIllustratedPage1, mockIllustratedPage2],
+    };
+
+    await runPipelineIncremental(state);
+    expect(mockedProsePageAgent).not.toHaveBeenCalled();
+    expect(mockedPageVisualsAgent).not.toHaveBeenCalled();
+    expect(mockedRenderPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs custom steps passed via options.steps', async () => {
+    const coverStep: PipelineStep = {
+      name: 'cover',
+      reads: ['renderedPages'],
+      writes: [],
+      isComplete: () => false,
+      run: vi.fn().mockResolvedValue({}),
+    };
+
+    await runPipelineIncremental(mockPipelineState, { steps: insertStep(DEFAULT_STEPS, coverStep) });
+    expect(coverStep.run).toHaveBeenCalledWith(
+      expect.objectContaining({ renderedPages: expect.any(Array) }),
+      expect.objectContaining({ story: mockStory })
+    );
+  });
+
+  it('reruns from the given step', async () => {
+    const state: PipelineState = {
+      ...mockPipelineState,
+      styleGuide: mockStyleGuide,
+      proseSetup: mockProseSetup,
+      characterDesigns: [],
+      prosePages: mockProse.pages,
+      illustratedPages: [mockIllustratedPage1, mockIllustratedPage2],
+    };
+
+    await runPipelineIncremental(state, { from: 'illustratedPages' });
+    expect(mockedProsePageAgent).not.toHaveBeenCalled();
+    expect(mockedPageVisualsAgent).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps locked pages when rerunning their steps', async () => {
+    const lockedProsePage = { summary: 'Approved', text: 'Approved text.', imageConcept: 'Hero' };
+    const renderedPages = [1, 2].map(pageNumber => ({ pageNumber, url: `assets/page-${pageNumber}.png` }));
+    const state: PipelineState = {
+      ...mockPipelineState,
+      styleGuide: mockStyleGuide,
+      proseSetup: mockProseSetup,
+      characterDesigns: [],
+      prosePages: [mockProse.pages[0]!, lockedProsePage],
+      illustratedPages: [mockIllustratedPage1, mockIllustratedPage2],
+      renderedPages,
+      heroPage: renderedPages[0],
+    };
+    const locks = {
+      pages: [
+        { pageNumber: 1, stages: ['image' as const], lockedAt: '2024-11-26T14:30:52.000Z' },
+        { pageNumber: 2, stages: ['prose' as const, 'visuals' as const, 'image' as const], lockedAt: '2024-11-26T14:30:52.000Z' },
+      ],
+    };
+
+    const result = await runPipelineIncremental(state, { from: 'prosePages', locks });
+
+    expect(mockedProsePageAgent).toHaveBeenCalledTimes(1);
+    expect(mockedProsePageAgent).toHaveBeenCalledWith(expect.objectContaining({ pageNumber: 1 }));
+    expect(mockedPageVisualsAgent).toHaveBeenCalledTimes(1);
+    expect(mockedRenderPage).not.toHaveBeenCalled();
+    expect(result.story.prose.pages[1]).toBe(lockedProsePage);
+    expect(result.story.visuals.illustratedPages[1]).toBe(mockIllustratedPage2);
+    expect(result.book.pages).toEqual(renderedPages);
+  });
+
   it('throws when story is missing', async () => {
     const stateWithoutStory: PipelineState = { story: undefined };
     await expect(runPipelineIncremental(stateWithoutStory)).rejects.toThrow('requires story');
   });
 });
+
+describe('runIntakeStage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('seeds intake with a draft and asks only for its missing fields', async () => {
+    const { plotBeats, ...draft } = mockStory;
+    const ui = { progress: vi.fn(), prompt: vi.fn() } as unknown as Parameters<typeof runIntakeStage>[1]['ui'];
+    let seeded: unknown;
+    vi.mocked(intakeAgent).mockImplementation(async (state) => {
+      seeded = { ...state.story };
+      return { story: { ...state.story, plotBeats }, isComplete: true };
+    });
+
+    const state = await runIntakeStage({}, { ui, draft });
+
+    expect(seeded).toEqual(draft);
+    expect(vi.mocked(intakeAgent)).toHaveBeenCalledWith(
+      expect.anything(),
+      [expect.objectContaining({ content: expect.stringContaining('plotBeats') })],
+      expect.objectContaining({ focusFields: ['plotBeats'] })
+    );
+    expect(state.story).toEqual(mockStory);
+  });
+
+  it('saves the transcript after every turn', async () => {
+    const saveIntake = vi.fn();
+    const outputManager = { saveIntake } as unknown as StoryOutputManager;
+    const ui = { progress: vi.fn(), prompt: vi.fn().mockResolvedValue('A fox') } as unknown as Parameters<typeof runIntakeStage>[1]['ui'];
+    vi.mocked(intakeAgent)
+      .mockResolvedValueOnce({ story: { title: 'Test Story' }, question: 'Who is the hero?', options: ['A fox', 'A bear'], isComplete: false })
+      .mockResolvedValueOnce({ story: mockStory, isComplete: true });
+
+    await runIntakeStage({}, { ui, outputManager });
+
+    const saved = saveIntake.mock.calls.map(([transcript]) => transcript);
+    expect(saved.map(t => t.turns[0]?.answer)).toEqual([undefined, undefined, 'A fox', 'A fox']);
+    expect(saved[1].turns[0]).toEqual({ question: 'Who is the hero?', options: ['A fox', 'A bear'], story: { title: 'Test Story' } });
+    expect(saved.at(-1)).toMatchObject({ isComplete: true, story: mockStory });
+  });
+
+  it('undoes the last answer by restoring the previous snapshot and re-asking', async () => {
+    const prompt = vi.fn()
+      .mockResolvedValueOnce('Pip')
+      .mockResolvedValueOnce(UNDO_LAST_ANSWER)
+      .mockResolvedValueOnce('Otto');
+    const ui = { progress: vi.fn(), prompt } as unknown as Parameters<typeof runIntakeStage>[1]['ui'];
+    const seen: unknown[] = [];
+    vi.mocked(intakeAgent).mockImplementation(async (state, history) => {
+      seen.push(structuredClone(state.story));
+      const answer = history.at(-1)?.role === 'user' ? history.at(-1)!.content : undefined;
+      if (answer === 'Otto') return { story: mockStory, isComplete: true };
+      if (answer === 'Pip') {
+        state.story.characters = [{ name: 'Pip', description: 'A mouse', traits: [], notes: [] }];
+        return { story: state.story, question: 'Where does it happen?', options: ['Forest', 'City'], isComplete: false };
+      }
+      state.story.title = 'Test Story';
+      return { story: state.story, question: 'Who is the hero?', options: ['Pip', 'Otto'], isComplete: false };
+    });
+
+    await runIntakeStage({}, { ui });
+
+    expect(prompt).toHaveBeenNthCalledWith(1, { question: 'Who is the hero?', options: ['Pip', 'Otto'] });
+    expect(prompt).toHaveBeenNthCalledWith(2, { question: 'Where does it happen?', options: ['Forest', 'City', UNDO_LAST_ANSWER] });
+    expect(prompt).toHaveBeenNthCalledWith(3, { question: 'Who is the hero?', options: ['Pip', 'Otto'] });
+    // The agent sees the story as it was before "Pip" was applied
+    expect(seen.at(-1)).toEqual({ title: 'Test Story' });
+  });
+
+  it('resumes a transcript by re-asking its unanswered question', async () => {
+    const ui = { progress: vi.fn(), prompt: vi.fn().mockResolvedValue('A bear') } as unknown as Parameters<typeof runIntakeStage>[1]['ui'];
+    vi.mocked(intakeAgent).mockResolvedValueOnce({ story: mockStory, isComplete: true });
+
+    await runIntakeStage({}, {
+      ui,
+      transcript: {
+        opening: 'Let\'s create a children\'s book!',
+        story: { title: 'Test Story' },
+        turns: [
+          { question: 'What is it called?', options: ['Test Story'], answer: 'Test Story', story: {} },
+          { question: 'Who is the hero?', options: ['A fox', 'A bear'], story: { title: 'Test Story' } },
+        ],
+        isComplete: false,
+      },
+    });
+
+    expect(ui.prompt).toHaveBeenCalledOnce();
+    expect(ui.prompt).toHaveBeenCalledWith({ question: 'Who is the hero?', options: ['A fox', 'A bear', UNDO_LAST_ANSWER] });
+    expect(vi.mocked(intakeAgent)).toHaveBeenCalledOnce();
+    expect(vi.mocked(intakeAgent).mock.calls[0]![1]).toEqual([
+      { role: 'assistant', content: 'Let\'s create a children\'s book!' },
+      { role: 'assistant', content: 'What is it called?' },
+      { role: 'user', content: 'Test Story' },
+      { role: 'assistant', content: 'Who is the hero?' },
+      { role: 'user', content: 'A bear' },
+    ]);
+  });
+});
+
+describe('runImportStage', () => {
+  const mockedExtract = vi.mocked(extract);
+  const createUI = (...answers: string[]) => {
+    const prompt = vi.fn();
+    answers.forEach(answer => prompt.mockResolvedValueOnce(answer));
+    return { progress: vi.fn(), prompt } as unknown as Parameters<typeof runImportStage>[1]['ui'];
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the story when the text is complete', async () => {
+    mockedExtract.mockResolvedValueOnce({ status: 'complete', data: mockStory });
+    const ui = createUI();
+
+    const state = await runImportStage('Once upon a time...', { ui });
+
+    expect(state.story).toEqual(mockStory);
+    expect(ui.prompt).not.toHaveBeenCalled();
+  });
+
+  it('asks only about missing fields and re-extracts with the answers', async () => {
+    const { plotBeats: _beats, setting: _setting, ...partial } = mockStory;
+    mockedExtract
+      .mockResolvedValueOnce({ status: 'incomplete', data: partial, missingFields: ['setting', 'plotBeats', 'plotBeats.0.purpose'] })
+      .mockResolvedValueOnce({ status: 'complete', data: mockStory });
+    const ui = createUI('Test land', INFER_FROM_TEXT);
+
+    const state = await runImportStage('Once upon a time...', { ui });
+
+    expect(state.story).toEqual(mockStory);
+    expect(ui.prompt).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(ui.prompt).mock.calls[0]![0].question).toContain('setting');
+    expect(vi.mocked(ui.prompt).mock.calls[1]![0].question).toContain('plotBeats');
+    expect(mockedExtract.mock.calls[1]![0]).toBe(
+      'Once upon a time...\n\nAUTHOR NOTES:\n- setting: Test land\n- plotBeats: not stated - infer it from the text'
+    );
+  });
+
+  it('gives up after repeated incomplete extractions', async () => {
+    mockedExtract.mockResolvedValue({ status: 'incomplete', data: {}, missingFields: ['title'] });
+    const ui = createUI('A', 'B');
+
+    await expect(runImportStage('...', { ui })).rejects.toThrow('Still missing: title');
+    expect(mockedExtract).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('runManuscriptStage', () => {
+  const mockedManuscriptAgent = vi.mocked(manuscriptAgent);
+  const pageTexts = ['Hero woke up.', 'Hero went out.', 'Hero came home.'];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedManuscriptAgent.mockImplementation(async ({ pageTexts: texts }) => ({
+      proseSetup: { logline: mockProse.logline, theme: mockProse.theme },
+      prosePages: texts.map((text, i) => ({ summary: `Page ${i + 1}`, text, imageConcept: 'Hero' })),
+    }));
+    mockedStyleGuideAgent.mockResolvedValue(mockStyleGuide);
+    mockedGenerateCharacterDesigns.mockResolvedValue([]);
+  });
+
+  it('uses the manuscript pages as prose and sets pageCount to match', async () => {
+    const ui = { progress: vi.fn(), prompt: vi.fn() };
+    const state = await runManuscriptStage({ story: mockStory }, pageTexts, { ui });
+
+    expect(state.story?.pageCount).toBe(3);
+    expect(state.prosePages?.map(page => page.text)).toEqual(pageTexts);
+    expect(state.proseSetup?.logline).toBe(mockProse.logline);
+  });
+
+  it('skips prose generation when the pipeline continues', async () => {
+    const ui = { progress: vi.fn(), prompt: vi.fn() };
+    const state = await runManuscriptStage({ story: mockStory }, pageTexts, { ui });
+
+    const result = await runPipelineSteps(state, { stopAfter: 'prosePages' });
+
+    expect(result.prosePages?.map(page => page.text)).toEqual(pageTexts);
+    expect(mockedProseSetupAgent).not.toHaveBeenCalled();
+    expect(mockedProsePageAgent).not.toHaveBeenCalled();
+  });
+
+  it('requires a story', async () => {
+    const ui = { progress: vi.fn(), prompt: vi.fn() };
+    await expect(runManuscriptStage({}, pageTexts, { ui })).rejects.toThrow('requires story');
+  });
+});
+
+describe('regeneratePage', () => {
+  const prosePages = [
+    { summary: 'Page 1', text: 'One.', imageConcept: 'Hero' },
+    { summary: 'Page 2', text: 'Two.', imageConcept: 'Hero' },
+    { summary: 'Page 3', text: 'Three.', imageConcept: 'Hero' },
+    { summary: 'Page 4', text: 'Four.', imageConcept: 'Hero' },
+  ];
+  const illustratedPages = [1, 2, 3, 4].map(pageNumber => ({ ...mockIllustratedPage1, pageNumber }));
+  const renderedPages = [1, 2, 3, 4].map(pageNumber => ({ pageNumber, url: `https://example.com/page${pageNumber}.png` }));
+  const state: PipelineState = {
+    story: { ...mockStory, pageCount: 4 },
+    proseSetup: { logline: mockProse.logline, theme: mockProse.theme },
+    styleGuide: mockStyleGuide,
+    prosePages,
+    illustratedPages,
+    renderedPages,
+    heroPage: renderedPages[0],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('rewrites one page with the pages around it as context', async () => {
+    const page = { summary: 'New', text: 'Three, again.', imageConcept: 'Hero' };
+    mockedProsePageAgent.mockResolvedValue(page);
+
+    const result = await regeneratePage(state, 3, 'prose');
+
+    expect(mockedProsePageAgent).toHaveBeenCalledWith(expect.objectContaining({
+      pageNumber: 3,
+      previousPages: prosePages.slice(0, 2),
+      nextPages: prosePages.slice(3),
+    }));
+    expect(result.previous).toEqual(prosePages[2]);
+    expect(result.state.prosePages?.map(p => p.text)).toEqual(['One.', 'Two.', 'Three, again.', 'Four.']);
+    expect(result.state.illustratedPages).toBe(illustratedPages);
+  });
+
+  it('re-directs one page with its neighbours as context', async () => {
+    const page = { ...mockIllustratedPage2, pageNumber: 2 };
+    mockedPageVisualsAgent.mockResolvedValue(page);
+
+    const result = await regeneratePage(state, 2, 'visuals');
+
+    expect(mockedPageVisualsAgent).toHaveBeenCalledWith(expect.objectContaining({
+      pageNumber: 2,
+      prosePage: prosePages[1],
+      neighbourPages: [illustratedPages[0], illustratedPages[2]],
+    }));
+    expect(result.state.illustratedPages?.[1]).toBe(page);
+    expect(result.previous).toBe(illustratedPages[1]);
+  });
+
+  it('re-renders one page with the hero page as style reference', async () => {
+    mockedRenderPage.mockResolvedValue({ pageNumber: 4, url: 'https://example.com/page4-new.png' });
+
+    const result = await regeneratePage(state, 4, 'image', { heroPageUrl: 'data:image/png;base64,AAAA' });
+
+    expect(mockedRenderPage).toHaveBeenCalledWith(
+      expect.objectContaining({ title: mockStory.title }),
+      4,
+      expect.objectContaining({ heroPageUrl: 'data:image/png;base64,AAAA' })
+    );
+    expect(result.state.renderedPages?.map(p => p.url)[3]).toBe('https://example.com/page4-new.png');
+    expect(result.state.heroPage).toBe(renderedPages[0]);
+  });
+
+  it('replaces the hero page when re-rendering page 1', async () => {
+    mockedRenderPage.mockResolvedValue({ pageNumber: 1, url: 'https://example.com/page1-new.png' });
+
+    const result = await regeneratePage(state, 1, 'image', { heroPageUrl: 'data:image/png;base64,AAAA' });
+
+    expect(mockedRenderPage).toHaveBeenCalledWith(expect.anything(), 1, expect.objectContaining({ heroPageUrl: undefined }));
+    expect(result.state.heroPage?.url).toBe('https://example.com/page1-new.png');
+  });
+
+  it('refuses to regenerate a locked page', async () => {
+    const locks = { pages: [{ pageNumber: 2, stages: ['visuals' as const], lockedAt: '2024-11-26T14:30:52.000Z' }] };
+
+    await expect(regeneratePage(state, 2, 'visuals', { locks })).rejects.toThrow('Page 2 visuals is locked');
+    expect(mockedPageVisualsAgent).not.toHaveBeenCalled();
+  });
+
+  it('rejects pages outside the story and stages that have not run yet', async () => {
+    await expect(regeneratePage(state, 5, 'prose')).rejects.toThrow('Page 5 does not exist');
+    await expect(regeneratePage({ ...state, renderedPages: undefined }, 2, 'image')).rejects.toThrow('has not been rendered yet');
+    await expect(regeneratePage({ story: mockStory }, 1, 'prose')).rejects.toThrow('requires a story with prose');
+  });
+});
+
+describe('runPipelineSteps', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedStyleGuideAgent.mockResolvedValue(mockStyleGuide);
+    mockedProseSetupAgent.mockResolvedValue({ logline: mockProse.logline, theme: mockProse.theme });
+    mockedGenerateCharacterDesigns.mockResolvedValue([]);
+    mockedProsePageAgent.mockImplementation(async ({ pageNumber }) => mockProse.pages[pageNumber - 1]!);
+  });
+
+  it('stops after the given step', async () => {
+    const state = await runPipelineSteps({ story: mockStory }, { stopAfter: 'prosePages' });
+    expect(state.prosePages).toHaveLength(2);
+    expect(state.illustratedPages).toBeUndefined();
+    expect(mockedPageVisualsAgent).not.toHaveBeenCalled();
+    expect(mockedRenderPage).not.toHaveBeenCalled();
+  });
+
+  it('checkpoints state after every step it runs', async () => {
+    const saveCheckpoint = vi.fn();
+    const outputManager = { folder: '/test', saveVisuals: vi.fn(), saveProse: vi.fn(), saveCheckpoint } as unknown as StoryOutputManager;
+
+    await runPipelineSteps({ story: mockStory, styleGuide: mockStyleGuide }, { outputManager, stopAfter: 'characterDesigns' });
+    expect(saveCheckpoint).toHaveBeenCalledTimes(2);
+    expect(saveCheckpoint).toHaveBeenLastCalledWith(expect.objectContaining({ characterDesigns: [] }));
+  });
+
+  it('rejects unknown step names', async () => {
+    await expect(runPipelineSteps({ story: mockStory }, { stopAfter: 'cover' })).rejects.toThrow('Unknown pipeline step "cover"');
+  });
+
+  it('rewrites pages over the prose limits with the lint issues as feedback', async () => {
+    const tooLong = { ...mockProse.pages[0]!, text: 'word '.repeat(45).trim() + '.' };
+    mockedProsePageAgent
+      .mockResolvedValueOnce(tooLong)
+      .mockResolvedValueOnce(mockProse.pages[0]!)
+      .mockResolvedValueOnce(mockProse.pages[1]!);
+
+    const state = await runPipelineSteps({ story: mockStory }, { stopAfter: 'prosePages', proseLint: { enabled: true } });
+
+    expect(state.prosePages).toEqual(mockProse.pages);
+    expect(mockedProsePageAgent).toHaveBeenCalledTimes(3);
+    expect(mockedProsePageAgent.mock.calls[1]![0]).toMatchObject({
+      pageNumber: 1,
+      feedback: expect.arrayContaining([expect.stringContaining('45 words')]),
+    });
+  });
+
+  it('keeps the last rewrite when a page stays over the prose limits', async () => {
+    const tooLong = { ...mockProse.pages[0]!, text: 'word '.repeat(45).trim() + '.' };
+    mockedProsePageAgent.mockImplementation(async ({ pageNumber }) => (pageNumber === 1 ? tooLong : mockProse.pages[1]!));
+
+    const state = await runPipelineSteps({ story: mockStory }, { stopAfter: 'prosePages', proseLint: { enabled: true, maxRetries: 1 } });
+
+    expect(state.prosePages?.[0]).toEqual(tooLong);
+    expect(mockedProsePageAgent).toHaveBeenCalledTimes(3);
+  });
+
+  it('uses mock agents and the offline image provider when offline', async () => {
+    mockedRenderPage.mockImplementation(async (_story, pageNumber) => ({ pageNumber, url: 'data:image/png;base64,' }));
+
+    const state = await runPipelineSteps({ story: mockStory }, { offline: true, qualityCheck: { enabled: true } });
+
+    expect(state.renderedPages).toHaveLength(2);
+    expect(state.prosePages?.[0]?.text).toContain('Hero starts journey');
+    expect(mockedStyleGuideAgent).not.toHaveBeenCalled();
+    expect(mockedProseSetupAgent).not.toHaveBeenCalled();
+    expect(mockedProsePageAgent).not.toHaveBeenCalled();
+    expect(mockedPageVisualsAgent).not.toHaveBeenCalled();
+    expect(mockedGenerateCharacterDesigns).toHaveBeenCalledWith(
+      mockStory.characters,
+      expect.anything(),
+      expect.objectContaining({ provider: expect.objectContaining({ name: 'offline' }) })
+    );
+    expect(mockedRenderPage).toHaveBeenCalledWith(
+      expect.anything(),
+      1,
+      expect.objectContaining({ provider: expect.objectContaining({ name: 'offline' }), qualityCheck: undefined })
+    );
+  });
+});
@@ -2,8 +2,6 @@ import type {
   Story,
   StoryWithProse,
   ComposedStory,
-  Prose,
-  VisualDirection,
   RenderedBook,
   BookFormatKey,
   RenderedPage,
@@ -12,26 +10,49 @@ import type {
   VisualStyleGuide,
   ProseSetup,
   CharacterDesign,
+  IntakeTranscript,
+  PageLocks,
 } from './schemas';
+import { isPageLocked } from './schemas';
 import {
   proseAgent,
-  proseSetupAgent,
-  prosePageAgent,
   visualsAgent,
-  styleGuideAgent,
-  pageVisualsAgent,
-  generateCharacterDesigns,
   renderPage,
   renderPageMock,
   createBook,
+  extract,
+  manuscriptAgent,
+  prosePageAgent,
+  pageVisualsAgent,
+  prosePageMock,
+  pageVisualsMock,
   type StylePreset,
 } from './agents';
 import { intakeAgent, type IntakeMessage } from './agents/intake-agent';
 import { type StoryState } from './schemas/story-tools';
-import { StorySchema } from './schemas/story';
+import { StorySchema, getMissingRequiredFields, getCleanDescription } from './schemas/story';
 import type { StoryOutputManager } from '../cli/utils/output';
 import type { Logger } from './utils/logger';
 import { loadStylePreset, listStyles } from './services/style-loader';
+import type { ImageProvider } from './services/image-provider';
+import type { TextStyle } from './services/text-compositor';
+import { loadTextStyle } from './services/typography';
+import { createOfflineImageProvider } from './services/offline-image-provider';
+import {
+  DEFAULT_STEPS,
+  getStep,
+  isStepComplete,
+  resetFromStep,
+  validateSteps,
+  type PipelineStep,
+  type StepContext,
+} from './steps';
+import {
+  assembleProse,
+  assembleVisuals,
+  assembleStoryWithProse,
+  assembleComposedStory,
+} from './utils/assemble';
 
 // ============================================================================
 // Types
@@ -58,6 +79,13 @@ export interface QualityCheckOptions {
   maxRetries?: number;
 }
 
+export interface ProseLintOptions {
+  /** Rewrite pages that break the age band's limits (default: false) */
+  enabled?: boolean;
+  /** Max rewrites per page (default: 2) */
+  maxRetries?: number;
+}
+
 export interface PipelineOptions {
   ui?: PipelineUI;
   outputManager?: StoryOutputManager;
@@ -66,6 +94,29 @@ export interface PipelineOptions {
   stylePreset?: StylePreset;
   /** Quality checking options for rendered images */
   qualityCheck?: QualityCheckOptions;
+  /** Prose lint gate: rewrite pages over the age band's limits (see utils/prose-lint.ts) */
+  proseLint?: ProseLintOptions;
+  /** Use placeholder images instead of real generation */
+  mock?: boolean;
+  /** Run without network: mock agents for every LLM step, placeholder PNGs for images */
+  offline?: boolean;
+  /** Image backend (default: configured provider, or placeholder PNGs when offline) */
+  imageProvider?: ImageProvider;
+  /** Ordered pipeline steps (default: DEFAULT_STEPS) */
+  steps?: PipelineStep[];
+  /** Rerun from this step: clears its output and the output of every later step */
+  from?: string;
+  /** Approved pages (locks.json): reused as-is, never regenerated */
+  locks?: PageLocks;
+  /** Typeset page text onto clean illustrations (assets/composited) instead of into the image */
+  compositeText?: boolean;
+  /** Text style for compositeText (default: the style preset's typography, sized for the age range) */
+  textStyle?: TextStyle;
+}
+
+export interface RunStepsOptions extends PipelineOptions {
+  /** Stop after this step instead of finishing the book */
+  stopAfter?: string;
 }
 
 export interface StageOptions {
@@ -73,6 +124,15 @@ export interface StageOptions {
   logger?: Logger;
 }
 
+export interface IntakeStageOptions extends StageOptions {
+  /** Partial story (e.g. from a brief file) - intake only asks for its missing required fields */
+  draft?: Partial<Story>;
+  /** Saved intake.json from an interrupted intake - continues from its last turn */
+  transcript?: IntakeTranscript;
+  /** Saves the transcript after every turn */
+  outputManager?: StoryOutputManager;
+}
+
 // Re-export IntakeMessage as Message for backward compatibility
 export type Message = IntakeMessage;
 
@@ -102,6 +162,18 @@ export interface PipelineState {
 // Stage Functions (pure, easy to delete)
 // ============================================================================
 
+/** Option added to intake questions that rolls the story back to before the previous answer */
+export const UNDO_LAST_ANSWER = '↩ Undo last answer';
+
+/** Conversation history for the intake agent: the opening plus every answered turn */
+const buildIntakeHistory = (transcript: IntakeTranscript): IntakeMessage[] => [
+  { role: 'assistant', content: transcript.opening },
+  ...transcript.turns.flatMap((turn): IntakeMessage[] => turn.answer === undefined ? [] : [
+    { role: 'assistant', content: turn.question },
+    { role: 'user', content: turn.answer },
+  ]),
+];
+
 /**
  * Intake stage: Gather story details through single progressive conversation.
  * Pure function: (state, options) → state
@@ -112,61 +184,93 @@ export interface PipelineState {
  */
 export const runIntakeStage = async (
   state: PipelineState,
-  options: StageOptions
+  options: IntakeStageOptions
 ): Promise<PipelineState> => {
   // Skip if already have a complete story
   if (state.story) return state;
 
-  const { ui, logger } = options;
+  const { ui, logger, draft, outputManager } = options;
   const availableStyles = await listStyles();
+  const focusFields = draft ? getMissingRequiredFields(draft) : undefined;
+
+  // Transcript is saved after every change so an interrupted intake can resume
+  let transcript: IntakeTranscript = options.transcript ?? {
+    opening: focusFields
+      ? `Let's finish your story. Still needed: ${focusFields.join(', ')}.`
+      : 'Let\'s create a children\'s book!',
+    focusFields,
+    story: { ...draft },
+    turns: [],
+    isComplete: false,
+  };
+  const saveTranscript = async (update: Partial<IntakeTranscript>) => {
+    transcript = { ...transcript, ...update };
+    await outputManager?.saveIntake(transcript);
+  };
 
   // Initialize story state
   const storyState: StoryState = {
-    story: {},
-    isComplete: false,
+    story: structuredClone(transcript.story),
+    isComplete: transcript.isComplete,
   };
 
-  // Conversation history is local to intake
-  let history: IntakeMessage[] = [
-    { role: 'assistant', content: 'Let\'s create a children\'s book!' },
-  ];
-
-  logger?.info({ stage: 'intake' }, 'Starting intake stage');
+  logger?.info({ stage: 'intake', resumedTurns: transcript.turns.length }, 'Starting intake stage');
+  await saveTranscript({});
 
   while (!storyState.isComplete) {
-    ui.progress('Thinking...');
-    const result = await intakeAgent(storyState, history, {
-      availableStyles,
-      logger,
-    });
+    // A question saved before an interruption (or reopened by undo) is asked again without a new agent turn
+    const lastTurn = transcript.turns[transcript.turns.length - 1];
+    let turn = lastTurn?.answer === undefined ? lastTurn : undefined;
+
+    if (!turn) {
+      ui.progress('Thinking...');
+      const result = await intakeAgent(storyState, buildIntakeHistory(transcript), {
+        availableStyles,
+        focusFields: transcript.focusFields,
+        logger,
+      });
+
+      // Update state from agent
+      storyState.story = result.story;
+      storyState.isComplete = result.isComplete;
+
+      // If complete, break out of loop
+      if (result.isComplete) {
+        logger?.debug({ stage: 'intake' }, 'Agent signaled completion');
+        break;
+      }
 
-    // Update state from agent
-    storyState.story = result.story;
-    storyState.isComplete = result.isComplete;
+      // If no question, something went wrong - break to avoid infinite loop
+      if (!result.question || !result.options) {
+        logger?.warn({ stage: 'intake' }, 'Agent returned no question - forcing completion');
+        break;
+      }
 
-    // If complete, break out of loop
-    if (result.isComplete) {
-      logger?.debug({ stage: 'intake' }, 'Agent signaled completion');
-      break;
+      // Snapshot the story: tools mutate it in place on later turns
+      turn = { question: result.question, options: result.options, story: structuredClone(result.story) };
+      await saveTranscript({ story: turn.story, turns: [...transcript.turns, turn] });
     }
 
-    // If no question, something went wrong - break to avoid infinite loop
-    if (!result.question || !result.options) {
-      logger?.warn({ stage: 'intake' }, 'Agent returned no question - forcing completion');
-      break;
+    // Show question to user and get answer (offering undo once there is an answer to take back)
+    const canUndo = transcript.turns.length > 1;
+    const options = canUndo ? [...turn.options, UNDO_LAST_ANSWER] : turn.options;
+    const answer = await ui.prompt({ question: turn.question, options });
+
+    if (canUndo && answer === UNDO_LAST_ANSWER) {
+      // Drop the current question and reopen the previous one with the story as it was then
+      const turns = transcript.turns.slice(0, -1);
+      const previous = turns[turns.length - 1]!;
+      storyState.story = structuredClone(previous.story);
+      logger?.info({ stage: 'intake', question: previous.question }, 'Undid last answer');
+      await saveTranscript({ story: previous.story, turns: [...turns.slice(0, -1), { ...previous, answer: undefined }] });
+      continue;
     }
 
-    // Show question to user and get answer
-    const answer = await ui.prompt({ question: result.question, options: result.options });
-
-    // Add Q&A to history for next turn
-    history = [
-      ...history,
-      { role: 'assistant', content: result.question },
-      { role: 'user', content: answer },
-    ];
+    await saveTranscript({ turns: [...transcript.turns.slice(0, -1), { ...turn, answer }] });
   }
 
+  await saveTranscript({ story: storyState.story, isComplete: true });
+
   // Parse and validate the completed story
   const story = StorySchema.parse(storyState.story);
 
@@ -178,36 +282,84 @@ export const runIntakeStage = async (
   return { ...state, story };
 };
 
-// ============================================================================
-// Pure assembly functions
-// ============================================================================
+/** Option offered for each missing field during import */
+export const INFER_FROM_TEXT = 'Infer it from the text';
+
+const MAX_IMPORT_ROUNDS = 3;
 
-const assembleProse = (setup: ProseSetup, pages: ProsePage[]): Prose => ({
-  logline: setup.logline,
-  theme: setup.theme,
-  styleNotes: setup.styleNotes,
-  pages,
-});
-
-const assembleVisuals = (style: VisualStyleGuide, pages: IllustratedPage[]): VisualDirection => ({
-  style,
-  illustratedPages: pages,
-});
-
-const assembleStoryWithProse = (story: Story, prose: Prose): StoryWithProse => ({
-  ...story,
-  prose,
-});
-
-const assembleComposedStory = (
-  story: StoryWithProse,
-  visuals: VisualDirection,
-  characterDesigns?: CharacterDesign[]
-): ComposedStory => ({
-  ...story,
-  visuals,
-  characterDesigns,
-});
+const IMPORT_CONTEXT = `The text is a children's story synopsis or manuscript.
+AUTHOR NOTES at the end answer questions about fields the text left out - use them.
+Where a note says to infer a field, infer it from the text instead of leaving it empty.`;
+
+/**
+ * Import stage: Extract a Story from free text (synopsis or manuscript).
+ * When the extraction is incomplete, asks only about the missing fields
+ * and re-extracts with the answers appended as author notes.
+ */
+export const runImportStage = async (
+  text: string,
+  options: StageOptions
+): Promise<PipelineState> => {
+  const { ui, logger } = options;
+  let notes: string[] = [];
+
+  logger?.info({ stage: 'import', textLength: text.length }, 'Starting import stage');
+
+  for (let round = 1; ; round++) {
+    ui.progress('Reading story...');
+    const prompt = notes.length > 0 ? `${text}\n\nAUTHOR NOTES:\n${notes.map(n => `- ${n}`).join('\n')}` : text;
+    const result = await extract(prompt, StorySchema, { context: IMPORT_CONTEXT, logger, maxRetries: 1 });
+
+    if (result.status === 'complete') {
+      logger?.info({ stage: 'import', title: result.data.title, rounds: round }, 'Import stage complete');
+      return { story: result.data };
+    }
+
+    // Nested paths (e.g. characters.0.description) are asked about as their top-level field
+    const fields = [...new Set(result.missingFields.map(field => field.split('.')[0]!))];
+    logger?.info({ stage: 'import', round, missingFields: result.missingFields }, 'Import incomplete');
+    if (round === MAX_IMPORT_ROUNDS) {
+      throw new Error(`Could not import a complete story after ${round} attempts. Still missing: ${fields.join(', ')}`);
+    }
+
+    const answers: string[] = [];
+    for (const [index, field] of fields.entries()) {
+      const fieldSchema = StorySchema.shape[field as keyof typeof StorySchema.shape];
+      const description = getCleanDescription(fieldSchema?.description);
+      const answer = await ui.prompt({
+        question: `Missing from the text (${index + 1}/${fields.length}: ${fields.join(', ')}) - ${field}: ${description}`,
+        options: [INFER_FROM_TEXT],
+      });
+      answers.push(answer === INFER_FROM_TEXT ? `${field}: not stated - infer it from the text` : `${field}: ${answer}`);
+    }
+    notes = [...notes, ...answers];
+  }
+};
+
+/**
+ * Manuscript stage: Use the author's own page texts as the prose.
+ * Fills proseSetup and each page's summary/imageConcept with a light agent and
+ * sets pageCount to the manuscript's length, so the proseSetup and prosePages
+ * steps are already complete and the pipeline continues from visuals.
+ */
+export const runManuscriptStage = async (
+  state: PipelineState,
+  pageTexts: string[],
+  options: StageOptions
+): Promise<PipelineState> => {
+  const { ui, logger } = options;
+  if (!state.story) throw new Error('PipelineState requires story to run manuscript stage');
+  if (pageTexts.length === 0) throw new Error('Manuscript has no pages');
+
+  const story = { ...state.story, pageCount: pageTexts.length };
+  logger?.info({ stage: 'manuscript', pageCount: pageTexts.length }, 'Starting manuscript stage');
+
+  ui.progress(`Reading ${pageTexts.length} manuscript pages...`);
+  const { proseSetup, prosePages } = await manuscriptAgent({ story, pageTexts, logger });
+
+  logger?.info({ stage: 'manuscript', pageCount: prosePages.length }, 'Manuscript stage complete');
+  return { ...state, story, proseSetup, prosePages };
+};
 
 // ============================================================================
 // Composable pipelines
@@ -225,14 +377,30 @@ export const generateVisuals = async (story: StoryWithProse, logger?: Logger): P
 
 export const renderBook = async (
   story: ComposedStory,
-  options: { format?: BookFormatKey; mock?: boolean; onStep?: (step: string) => void; outputManager?: StoryOutputManager } = {}
+  options: {
+    format?: BookFormatKey;
+    mock?: boolean;
+    onStep?: (step: string) => void;
+    outputManager?: StoryOutputManager;
+    /** Approved pages whose image is reused from previousPages instead of rendered */
+    locks?: PageLocks;
+    /** Pages of the book being re-rendered */
+    previousPages?: RenderedPage[];
+  } = {}
 ): Promise<RenderedBook> => {
-  const { format = 'square-large', mock = false, onStep, outputManager } = options;
+  const { format = 'square-large', mock = false, onStep, outputManager, locks, previousPages = [] } = options;
   const pages: RenderedPage[] = [];
   let heroPage: RenderedPage | undefined;
 
   for (const illustratedPage of story.visuals.illustratedPages) {
     const pageNumber = illustratedPage.pageNumber;
+    const locked = isPageLocked(locks, pageNumber, 'image') ? previousPages.find(page => page.pageNumber === pageNumber) : undefined;
+    if (locked) {
+      onStep?.(`locked-${pageNumber}`);
+      pages.push(locked);
+      heroPage ??= locked;
+      continue;
+    }
     onStep?.(`render-${pageNumber}`);
 
     const page = mock
@@ -248,164 +416,193 @@ export const renderBook = async (
 };
 
 // ============================================================================
-// Incremental pipeline (fill-in-the-nulls)
+// Incremental pipeline (fill-in-the-nulls, driven by the step registry)
 // ============================================================================
 
+/**
+ * Run the registered pipeline steps in order, skipping any whose output is already in state.
+ * Steps default to DEFAULT_STEPS; pass options.steps to add or reorder steps.
+ * The state is checkpointed after every step, so a stopped or failed run can resume.
+ */
+export const runPipelineSteps = async (
+  state: PipelineState,
+  options: RunStepsOptions = {}
+): Promise<PipelineState> => {
+  const { ui, outputManager, format = 'square-large', stylePreset: optionsPreset, logger, mock, offline, steps = DEFAULT_STEPS, from, stopAfter, locks, compositeText } = options;
+
+  if (!state.story) throw new Error('PipelineState requires story to run pipeline');
+
+  validateSteps(steps);
+  if (stopAfter) getStep(steps, stopAfter);
+
+  const story = state.story;
+  const stylePreset = optionsPreset ?? (story.stylePreset ? await loadStylePreset(story.stylePreset) : undefined);
+  // Offline: quality checks need a vision model, so they're skipped
+  const qualityCheck = offline ? undefined : options.qualityCheck;
+  const imageProvider = options.imageProvider ?? (offline ? createOfflineImageProvider() : undefined);
+  const textStyle = compositeText ? options.textStyle ?? (await loadTextStyle(story)) : undefined;
+  const context: StepContext = { story, format, ui, outputManager, logger, stylePreset, qualityCheck, mock, offline, imageProvider, locks, startState: state, textStyle, proseLint: options.proseLint };
+
+  let current = from ? resetFromStep(steps, state, from) : state;
+  for (const step of steps) {
+    if (isStepComplete(step, current)) {
+      logger?.debug({ step: step.name }, 'Step already complete, skipping');
+    } else {
+      logger?.info({ step: step.name }, 'Running step');
+      current = { ...current, ...(await step.run(current, context)) };
+      await outputManager?.saveCheckpoint(current);
+    }
+
+    if (step.name === stopAfter) {
+      logger?.info({ step: step.name }, 'Stopping after step');
+      break;
+    }
+  }
+
+  return current;
+};
+
+/**
+ * Run every pipeline step and assemble the finished story and book.
+ */
 export const runPipelineIncremental = async (
   state: PipelineState,
   options: PipelineOptions = {}
 ): Promise<{ story: ComposedStory; book: RenderedBook }> => {
-  const { ui, outputManager, format = 'square-large', stylePreset: optionsPreset, qualityCheck, logger } = options;
+  const { outputManager, format = 'square-large', logger } = options;
 
   if (!state.story) throw new Error('PipelineState requires story to run pipeline');
-
   const story = state.story;
-  const stylePreset = optionsPreset ?? (story.stylePreset ? await loadStylePreset(story.stylePreset) : undefined);
 
   logger?.info({ stage: 'incremental', title: story.title, pageCount: story.pageCount }, 'Starting incremental pipeline');
+  const current = await runPipelineSteps(state, options);
 
-  // Setup phase
-  ui?.progress('Creating style guide...');
-  const styleGuide = state.styleGuide ?? await styleGuideAgent(story, stylePreset, logger);
-
-  // Save initial visuals (style guide only, no pages yet)
-  if (outputManager && !state.styleGuide) {
-    await outputManager.saveVisuals({ style: styleGuide, illustratedPages: [] });
+  // Assemble final outputs
+  const { styleGuide, proseSetup, prosePages, illustratedPages, renderedPages, characterDesigns } = current;
+  if (!styleGuide || !proseSetup || !prosePages || !illustratedPages || !renderedPages) {
+    throw new Error('Pipeline steps finished without producing a complete book');
   }
 
-  ui?.progress('Setting up prose...');
-  const proseSetup = state.proseSetup ?? await proseSetupAgent(story, logger);
+  const prose = assembleProse(proseSetup, prosePages);
+  const visuals = assembleVisuals(styleGuide, illustratedPages);
+  const finalStory = assembleComposedStory(assembleStoryWithProse(story, prose), visuals, characterDesigns);
+  const book = createBook(finalStory, renderedPages, format);
 
-  ui?.progress('Generating character designs...');
-  const characters = story.characters;
-  const characterDesigns = state.characterDesigns ?? await generateCharacterDesigns(characters, styleGuide, options);
-  if (outputManager && !state.characterDesigns) {
-    for (const design of characterDesigns) await outputManager.saveCharacterDesign(design);
-  }
+  await outputManager?.saveProse({ ...story, prose });
+  await outputManager?.saveStory(finalStory);
+  await outputManager?.saveBook(book);
 
-  // ============================================================================
-  // Phase 1: Prose (sequential - needs previousPages context)
-  // ============================================================================
-  const prosePages = [...(state.prosePages ?? [])];
-  const startPage = prosePages.length + 1;
-
-  for (let pageNumber = startPage; pageNumber <= story.pageCount; pageNumber++) {
-    ui?.progress(`Writing page ${pageNumber} of ${story.pageCount}...`);
-    logger?.debug({ pageNumber, totalPages: story.pageCount }, 'Generating prose');
-    const prosePage = await prosePageAgent({ story, proseSetup, pageNumber, previousPages: prosePages, logger });
-    prosePages.push(prosePage);
-  }
+  logger?.info({ stage: 'incremental', pageCount: renderedPages.length }, 'Incremental pipeline complete');
+  return { story: finalStory, book };
+};
 
-  // Save prose after all pages generated
-  if (outputManager) {
-    await outputManager.saveProse({ ...story, prose: assembleProse(proseSetup, prosePages) });
-  }
+// ============================================================================
+// Single-page regeneration
+// ============================================================================
 
-  // ============================================================================
-  // Phase 2: Visuals (parallel - each page independent)
-  // ============================================================================
-  const existingIllustratedPages = state.illustratedPages ?? [];
-  const pagesToIllustrate = prosePages.slice(existingIllustratedPages.length);
+export type RegenStage = 'prose' | 'visuals' | 'image';
 
-  ui?.progress(`Directing ${pagesToIllustrate.length} pages in parallel...`);
-  logger?.info({ count: pagesToIllustrate.length }, 'Starting parallel visual generation');
+export const REGEN_STAGES: RegenStage[] = ['prose', 'visuals', 'image'];
 
-  const newIllustratedPages = await Promise.all(
-    pagesToIllustrate.map((prosePage, i) => {
-      const pageNumber = existingIllustratedPages.length + i + 1;
-      return pageVisualsAgent({ story, styleGuide, pageNumber, prosePage, logger });
-    })
-  );
+export interface RegenerateOptions extends Pick<PipelineOptions, 'ui' | 'format' | 'logger' | 'qualityCheck' | 'mock' | 'offline' | 'imageProvider' | 'locks' | 'compositeText'> {
+  /** Style reference for the image stage (default: the state's hero page) */
+  heroPageUrl?: string;
+}
 
-  const illustratedPages = [...existingIllustratedPages, ...newIllustratedPages];
+/** The regenerated page, the version it replaced, and the updated state */
+export type RegenResult =
+  | { stage: 'prose'; state: PipelineState; previous: ProsePage; page: ProsePage }
+  | { stage: 'visuals'; state: PipelineState; previous: IllustratedPage; page: IllustratedPage }
+  | { stage: 'image'; state: PipelineState; previous: RenderedPage; page: Awaited<ReturnType<typeof renderPage>> };
 
-  // Save visuals after all pages illustrated
-  if (outputManager) {
-    await outputManager.saveVisuals({ style: styleGuide, illustratedPages });
+/**
+ * Regenerate one page's prose, visual direction or image, with the neighbouring
+ * pages as context. Only that page changes - later stages of the same page are
+ * left as they were, so regenerate them too if they should follow the change.
+ * Throws for a locked page.
+ */
+export const regeneratePage = async (
+  state: PipelineState,
+  pageNumber: number,
+  stage: RegenStage,
+  options: RegenerateOptions = {}
+): Promise<RegenResult> => {
+  const { ui, logger, format = 'square-large', qualityCheck, mock, offline } = options;
+  const { story, proseSetup, prosePages } = state;
+  if (!story || !proseSetup || !prosePages) throw new Error('Regenerating a page requires a story with prose');
+  if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > prosePages.length) {
+    throw new Error(`Page ${pageNumber} does not exist - the story has ${prosePages.length} pages`);
+  }
+  if (isPageLocked(options.locks, pageNumber, stage)) {
+    throw new Error(`Page ${pageNumber} ${stage} is locked - unlock it to regenerate`);
   }
 
-  // ============================================================================
-  // Phase 3: Render (parallel - heroPage first for consistency)
-  // ============================================================================
-  const existingRenderedPages = state.renderedPages ?? [];
-  const renderedPages: RenderedPage[] = [...existingRenderedPages];
-  let heroPage = state.heroPage ?? existingRenderedPages[0];
+  const index = pageNumber - 1;
+  const replaceAt = <T>(pages: T[], page: T): T[] => pages.map((existing, i) => (i === index ? page : existing));
+  logger?.info({ stage: 'regen', regenStage: stage, pageNumber }, 'Regenerating page');
+
+  if (stage === 'prose') {
+    ui?.progress(`Rewriting page ${pageNumber}...`);
+    const writePage = offline ? prosePageMock : prosePageAgent;
+    const page = await writePage({
+      story,
+      proseSetup,
+      pageNumber,
+      previousPages: prosePages.slice(0, index),
+      nextPages: prosePages.slice(index + 1, index + 3),
+      logger,
+    });
+    return { stage, previous: prosePages[index]!, page, state: { ...state, prosePages: replaceAt(prosePages, page) } };
+  }
 
-  // Build composed story for rendering
+  const { styleGuide, illustratedPages } = state;
+  if (!styleGuide || !illustratedPages?.[index]) {
+    throw new Error(`Page ${pageNumber} has no visual direction yet - run the pipeline first`);
+  }
+
+  if (stage === 'visuals') {
+    ui?.progress(`Directing page ${pageNumber}...`);
+    const directPage = offline ? pageVisualsMock : pageVisualsAgent;
+    const neighbourPages = illustratedPages.filter(page => Math.abs(page.pageNumber - pageNumber) === 1);
+    const page = await directPage({ story, styleGuide, pageNumber, prosePage: prosePages[index]!, neighbourPages, logger });
+    return { stage, previous: illustratedPages[index]!, page, state: { ...state, illustratedPages: replaceAt(illustratedPages, page) } };
+  }
+
+  const renderedPages = state.renderedPages ?? [];
+  const previous = renderedPages.find(page => page.pageNumber === pageNumber);
+  if (!previous) throw new Error(`Page ${pageNumber} has not been rendered yet - run the pipeline first`);
+
+  ui?.progress(`Rendering page ${pageNumber}...`);
   const composedStory: ComposedStory = {
     ...story,
     prose: assembleProse(proseSetup, prosePages),
     visuals: assembleVisuals(styleGuide, illustratedPages),
-    characterDesigns,
+    characterDesigns: state.characterDesigns,
   };
+  // Page 1 is the style reference for the others, so it renders without one
+  const heroPageUrl = pageNumber === 1 ? undefined : options.heroPageUrl ?? state.heroPage?.url;
+  const page = mock
+    ? renderPageMock(pageNumber)
+    : await renderPage(composedStory, pageNumber, {
+      format,
+      logger,
+      heroPageUrl,
+      compositeText: options.compositeText,
+      provider: options.imageProvider ?? (offline ? createOfflineImageProvider() : undefined),
+      // Offline: quality checks need a vision model, so they're skipped
+      qualityCheck: qualityCheck?.enabled && !offline ? { threshold: qualityCheck.threshold, maxRetries: qualityCheck.maxRetries } : undefined,
+    });
 
-  const renderOptions = {
-    format,
-    logger,
-    qualityCheck: qualityCheck?.enabled ? { threshold: qualityCheck.threshold, maxRetries: qualityCheck.maxRetries } : undefined,
+  return {
+    stage,
+    previous,
+    page,
+    state: {
+      ...state,
+      renderedPages: renderedPages.map(existing => (existing.pageNumber === pageNumber ? page : existing)),
+      heroPage: pageNumber === 1 ? page : state.heroPage,
+    },
   };
-
-  // Determine which pages still need rendering
-  const startRenderPage = existingRenderedPages.length + 1;
-
-  if (startRenderPage <= story.pageCount) {
-    // Render heroPage first (page 1) if not already rendered
-    if (!heroPage) {
-      ui?.progress('Rendering hero page...');
-      heroPage = await renderPage(composedStory, 1, renderOptions);
-      renderedPages.push(heroPage);
-      if (outputManager) await outputManager.savePageImage(heroPage);
-    }
-
-    // Render remaining pages in parallel
-    const remainingPageNumbers = Array.from(
-      { length: story.pageCount - renderedPages.length },
-      (_, i) => renderedPages.length + i + 1
-    );
-
-    if (remainingPageNumbers.length > 0) {
-      ui?.progress(`Rendering ${remainingPageNumbers.length} pages in parallel...`);
-      logger?.info({ count: remainingPageNumbers.length }, 'Starting parallel render');
-
-      const newRenderedPages = await Promise.all(
-        remainingPageNumbers.map(pageNumber =>
-          renderPage(composedStory, pageNumber, { ...renderOptions, heroPageUrl: heroPage?.url })
-        )
-      );
-
-      // Sort by page number and add to list
-      newRenderedPages.sort((a, b) => a.pageNumber - b.pageNumber);
-      renderedPages.push(...newRenderedPages);
-
-      // Save rendered pages
-      if (outputManager) {
-        for (const page of newRenderedPages) {
-          await outputManager.savePageImage(page);
-          if (page.quality) await outputManager.saveQualityResult(page.pageNumber, page.quality);
-          if (page.failedAttempts) {
-            for (let i = 0; i < page.failedAttempts.length; i++) {
-              const failed = page.failedAttempts[i]!;
-              await outputManager.saveFailedImage(page.pageNumber, i + 1, failed.url);
-              await outputManager.saveQualityResult(page.pageNumber, failed.quality, i + 1);
-            }
-          }
-        }
-      }
-    }
-  }
-
-  // Assemble final outputs
-  const prose = assembleProse(proseSetup, prosePages);
-  const visuals = assembleVisuals(styleGuide, illustratedPages);
-  const finalStory = assembleComposedStory(assembleStoryWithProse(story, prose), visuals, characterDesigns);
-  const book = createBook(finalStory, renderedPages, format);
-
-  await outputManager?.saveProse({ ...story, prose });
-  await outputManager?.saveStory(finalStory);
-  await outputManager?.saveBook(book);
-
-  logger?.info({ stage: 'incremental', pageCount: renderedPages.length }, 'Incremental pipeline complete');
-  return { story: finalStory, book };
 };
 
 // ============================================================================
@@ -415,34 +612,45 @@ export const runPipelineIncremental = async (
 /** Options for runPipeline - requires ui for interactive stages */
 export interface RunPipelineOptions extends PipelineOptions {
   ui: PipelineUI;
+  /** Start from an existing story instead of running intake */
+  story?: Story;
+  /** Start from a partial story: intake asks only for its missing required fields */
+  draft?: Partial<Story>;
+  /** Continue an interrupted intake from its saved intake.json */
+  transcript?: IntakeTranscript;
 }
 
 /**
- * Run the complete pipeline from scratch.
- * User provides story details during intake conversation.
- *
- * @param options - Pipeline options including ui for user interaction
+ * Start a new pipeline: run intake (skipped when options.story is given, shortened
+ * to the missing fields when options.draft is given) and checkpoint the story.
+ * Continue with runPipelineIncremental (full book) or runPipelineSteps (partial run).
  */
-export const runPipeline = async (
-  options: RunPipelineOptions
-): Promise<{ story: ComposedStory; book: RenderedBook }> => {
-  const { ui, outputManager, format = 'square-large', logger, stylePreset: optionsPreset } = options;
+export const startPipeline = async (options: RunPipelineOptions): Promise<PipelineState> => {
+  const { ui, outputManager, logger, story, draft, transcript } = options;
 
-  let state: PipelineState = {};
-
-  // Run intake stage (gathers story through single conversation)
-  state = await runIntakeStage(state, { ui, logger });
+  // Run intake stage (gathers story through single conversation, saved to intake.json per turn)
+  const state = await runIntakeStage({ story }, { ui, logger, draft, transcript, outputManager });
 
   // Save story after intake (intermediate checkpoint)
   if (state.story) {
     await outputManager?.saveStory(state.story as ComposedStory);
+    await outputManager?.saveCheckpoint(state);
   }
 
-  const stylePreset = optionsPreset ?? (state.story?.stylePreset ? await loadStylePreset(state.story.stylePreset) : undefined);
-
-  return runPipelineIncremental(state, { ui, outputManager, format, logger, stylePreset });
+  return state;
 };
 
+/**
+ * Run the complete pipeline from scratch.
+ * User provides story details during intake conversation.
+ *
+ * @param options - Pipeline options including ui for user interaction
+ */
+export const runPipeline = async (
+  options: RunPipelineOptions
+): Promise<{ story: ComposedStory; book: RenderedBook }> =>
+  runPipelineIncremental(await startPipeline(options), options);
+
 // ============================================================================
 // Re-exports for CLI convenience
 // ============================================================================
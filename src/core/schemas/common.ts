@@ -16,6 +16,25 @@ export const AgeRangeSchema = z
 
 export type AgeRange = z.infer<typeof AgeRangeSchema>;
 
+/** Reader age bands, as used by the prose guidelines and typography */
+export const AGE_BANDS = ['2-4', '4-6', '6-8', '8+'] as const;
+
+export type AgeBand = (typeof AGE_BANDS)[number];
+
+/** Picture books are mostly read to 4-6 year olds */
+const DEFAULT_AGE_BAND: AgeBand = '4-6';
+
+/**
+ * Age band for a story, by its youngest reader
+ */
+export const ageBandFor = (ageRange?: AgeRange): AgeBand => {
+  if (!ageRange) return DEFAULT_AGE_BAND;
+  if (ageRange.min < 4) return '2-4';
+  if (ageRange.min < 6) return '4-6';
+  if (ageRange.min < 8) return '6-8';
+  return '8+';
+};
+
 export const StoryCharacterSchema = z.object({
   name: z.string().min(1).describe('Character name'),
   description: z.string().min(1).describe('REQUIRED: Brief physical and personality description of the character'),
@@ -59,7 +59,7 @@ export const BookFormatKeySchema = z.enum([
 /**
  * Standard aspect ratios supported by image generation models
  */
-const ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4', '3:2', '2:3'] as const;
+export const ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4', '3:2', '2:3'] as const;
 export type AspectRatio = typeof ASPECT_RATIOS[number];
 
 /**
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   AgeRangeSchema,
+  ageBandFor,
   StoryCharacterSchema,
   StoryBriefSchema,
   ProsePageSchema,
@@ -38,6 +39,19 @@ describe('AgeRangeSchema', () => {
   });
 });
 
+describe('ageBandFor', () => {
+  it('uses the youngest reader', () => {
+    expect(ageBandFor({ min: 2, max: 4 })).toBe('2-4');
+    expect(ageBandFor({ min: 4, max: 8 })).toBe('4-6');
+    expect(ageBandFor({ min: 6, max: 8 })).toBe('6-8');
+    expect(ageBandFor({ min: 8, max: 10 })).toBe('8+');
+  });
+
+  it('defaults to 4-6 without an age range', () => {
+    expect(ageBandFor()).toBe('4-6');
+  });
+});
+
 describe('StoryCharacterSchema', () => {
   it('accepts valid character with all fields', () => {
     const result = StoryCharacterSchema.safeParse({
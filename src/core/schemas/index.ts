@@ -9,7 +9,10 @@ export {
   AgeRangeSchema,
   StoryCharacterSchema,
   BeatPurposeSchema,
+  AGE_BANDS,
+  ageBandFor,
   type AgeRange,
+  type AgeBand,
   type StoryCharacter,
   type BeatPurpose,
 } from './common';
@@ -44,11 +47,51 @@ export {
   getRequiredFields,
   getMissingRequiredFields,
   hasAllRequiredFields,
+  parseStoryDraft,
   type Story,
   type PlotBeat,
   type FieldPolicy,
+  type StoryDraftResult,
 } from './story';
 
+// Intake transcript (intake.json)
+export {
+  IntakeTurnSchema,
+  IntakeTranscriptSchema,
+  parseIntakeTranscript,
+  type IntakeTurn,
+  type IntakeTranscript,
+} from './intake';
+
+// Page locks (locks.json)
+export {
+  PageLockStageSchema,
+  PageLockSchema,
+  PageLocksSchema,
+  PAGE_LOCK_STAGES,
+  PAGE_LOCK_SCOPES,
+  EMPTY_PAGE_LOCKS,
+  isPageLocked,
+  lockPage,
+  unlockPage,
+  type PageLockStage,
+  type PageLockScope,
+  type PageLock,
+  type PageLocks,
+} from './locks';
+
+// Artifact versioning (schemaVersion + migrations)
+export {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  getArtifactKind,
+  migrateArtifact,
+  withSchemaVersion,
+  type ArtifactKind,
+  type Migration,
+  type MigrationResult,
+} from './migrations';
+
 // Story tools (auto-generated from schema)
 export {
   createStoryTools,
@@ -89,6 +132,8 @@ export {
   BeatCharacterSchema,
   IllustrationBeatSchema,
   VisualStyleGuideSchema,
+  DialogueSchema,
+  SoundEffectSchema,
   IllustratedPageSchema,
   VisualDirectionSchema,
   CharacterDesignSchema,
@@ -104,6 +149,8 @@ export {
   type BeatCharacter,
   type IllustrationBeat,
   type VisualStyleGuide,
+  type Dialogue,
+  type SoundEffect,
   type IllustratedPage,
   type VisualDirection,
   type CharacterDesign,
@@ -139,6 +186,7 @@ export {
   BOOK_FORMATS,
   BookFormatKeySchema,
   getAspectRatio,
+  ASPECT_RATIOS,
   type BookFormat,
   type BookFormatKey,
   type AspectRatio,
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import type { Story } from './story';
+
+/**
+ * Intake transcript (intake.json): every intake turn saved as it happens,
+ * so a conversation interrupted mid-way can be resumed from its last turn.
+ */
+
+export const IntakeTurnSchema = z.object({
+  question: z.string().min(1).describe('Question the agent asked (promptUser)'),
+  options: z.array(z.string()).describe('Options offered with the question'),
+  answer: z.string().optional().describe('User answer - missing while the question is still waiting'),
+  story: z.record(z.unknown()).describe('Partial story after this turn\'s tool calls'),
+});
+
+export type IntakeTurn = z.infer<typeof IntakeTurnSchema>;
+
+export const IntakeTranscriptSchema = z.object({
+  opening: z.string().describe('Assistant message that opens the conversation'),
+  focusFields: z.array(z.string()).optional().describe('Fields a shortened intake asks about (create --from)'),
+  story: z.record(z.unknown()).describe('Latest partial story'),
+  turns: z.array(IntakeTurnSchema),
+  isComplete: z.boolean(),
+});
+
+/** Partial stories aren't validated until intake completes, so they're typed here */
+export type IntakeTranscript = Omit<z.infer<typeof IntakeTranscriptSchema>, 'story' | 'turns'> & {
+  story: Partial<Story>;
+  turns: Array<Omit<IntakeTurn, 'story'> & { story: Partial<Story> }>;
+};
+
+export const parseIntakeTranscript = (data: unknown): IntakeTranscript =>
+  IntakeTranscriptSchema.parse(data) as IntakeTranscript;
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_PAGE_LOCKS, PageLocksSchema, isPageLocked, lockPage, unlockPage } from './locks';
+
+const now = new Date('2024-11-26T14:30:52.000Z');
+
+describe('page locks', () => {
+  it('locks every stage with "all"', () => {
+    const locks = lockPage(EMPTY_PAGE_LOCKS, 3, 'all', now);
+    expect(locks).toEqual({ pages: [{ pageNumber: 3, stages: ['prose', 'visuals', 'image'], lockedAt: now.toISOString() }] });
+    expect(isPageLocked(locks, 3, 'image')).toBe(true);
+    expect(isPageLocked(locks, 4, 'image')).toBe(false);
+  });
+
+  it('adds stages to an existing lock and keeps pages sorted', () => {
+    let locks = lockPage(EMPTY_PAGE_LOCKS, 5, 'image', now);
+    locks = lockPage(locks, 2, 'prose', now);
+    locks = lockPage(locks, 5, 'prose', now);
+
+    expect(locks.pages.map(lock => [lock.pageNumber, lock.stages])).toEqual([
+      [2, ['prose']],
+      [5, ['prose', 'image']],
+    ]);
+  });
+
+  it('unlocks single stages and drops pages with none left', () => {
+    const locks = lockPage(lockPage(EMPTY_PAGE_LOCKS, 1, 'all', now), 2, 'image', now);
+
+    const partly = unlockPage(locks, 1, 'visuals');
+    expect(partly.pages[0]?.stages).toEqual(['prose', 'image']);
+    expect(unlockPage(partly, 2, 'all').pages.map(lock => lock.pageNumber)).toEqual([1]);
+  });
+
+  it('treats missing locks as unlocked', () => {
+    expect(isPageLocked(undefined, 1, 'prose')).toBe(false);
+    expect(PageLocksSchema.parse({})).toEqual(EMPTY_PAGE_LOCKS);
+  });
+});
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+/**
+ * Page locks (locks.json): pages an editor has approved. The pipeline, renderBook
+ * and single-page regeneration reuse a locked page as-is instead of regenerating it.
+ */
+
+export const PageLockStageSchema = z.enum(['prose', 'visuals', 'image']);
+
+export type PageLockStage = z.infer<typeof PageLockStageSchema>;
+
+export const PAGE_LOCK_STAGES = PageLockStageSchema.options;
+
+/** What a lock command targets: one stage, or every stage of the page */
+export type PageLockScope = PageLockStage | 'all';
+
+export const PAGE_LOCK_SCOPES: PageLockScope[] = [...PAGE_LOCK_STAGES, 'all'];
+
+export const PageLockSchema = z.object({
+  pageNumber: z.number().int().min(1),
+  stages: z.array(PageLockStageSchema).min(1).describe('Locked stages of the page'),
+  lockedAt: z.string().describe('When the page was last locked (ISO timestamp)'),
+});
+
+export type PageLock = z.infer<typeof PageLockSchema>;
+
+export const PageLocksSchema = z.object({
+  pages: z.array(PageLockSchema).default([]),
+});
+
+export type PageLocks = z.infer<typeof PageLocksSchema>;
+
+export const EMPTY_PAGE_LOCKS: PageLocks = { pages: [] };
+
+const scopeStages = (scope: PageLockScope): PageLockStage[] => (scope === 'all' ? PAGE_LOCK_STAGES : [scope]);
+
+export const isPageLocked = (locks: PageLocks | undefined, pageNumber: number, stage: PageLockStage): boolean =>
+  locks?.pages.some(lock => lock.pageNumber === pageNumber && lock.stages.includes(stage)) ?? false;
+
+/**
+ * Lock a page stage (or all stages). Returns new locks, sorted by page.
+ */
+export const lockPage = (locks: PageLocks, pageNumber: number, scope: PageLockScope, now = new Date()): PageLocks => {
+  const existing = locks.pages.find(lock => lock.pageNumber === pageNumber);
+  const stages = PAGE_LOCK_STAGES.filter(stage => existing?.stages.includes(stage) || scopeStages(scope).includes(stage));
+  const others = locks.pages.filter(lock => lock.pageNumber !== pageNumber);
+  return {
+    pages: [...others, { pageNumber, stages, lockedAt: now.toISOString() }].sort((a, b) => a.pageNumber - b.pageNumber),
+  };
+};
+
+/**
+ * Unlock a page stage (or all stages). Pages left with no locked stage are removed.
+ */
+export const unlockPage = (locks: PageLocks, pageNumber: number, scope: PageLockScope): PageLocks => ({
+  pages: locks.pages
+    .map(lock => (lock.pageNumber === pageNumber ? { ...lock, stages: lock.stages.filter(stage => !scopeStages(scope).includes(stage)) } : lock))
+    .filter(lock => lock.stages.length > 0),
+});
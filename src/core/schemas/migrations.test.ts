@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MIGRATIONS,
+  getArtifactKind,
+  migrateArtifact,
+  withSchemaVersion,
+} from './migrations';
+import { StorySchema, parseStoryDraft } from './story';
+import { parseIntakeTranscript } from './intake';
+
+/** StoryWithPlot = StoryBrief & { plot: PlotStructure }, as saved before the unified Story schema */
+const legacyStoryWithPlot = {
+  title: 'Otto and the Lost Kite',
+  storyArc: 'Otto learns to ask for help',
+  setting: 'A windy hilltop town',
+  ageRange: { min: 3, max: 6 },
+  pageCount: 12,
+  characters: [{ name: 'Otto', description: 'A small grey otter', traits: [], notes: [] }],
+  interests: ['kites'],
+  customInstructions: ['Keep it gentle', 'No villains'],
+  plot: {
+    storyArcSummary: 'Otto loses his kite and finds friends',
+    allowCreativeLiberty: false,
+    plotBeats: [
+      { purpose: 'setup', description: 'Otto flies his kite' },
+      { purpose: 'conflict', description: 'The kite blows away' },
+      { purpose: 'rising_action', description: 'Otto searches alone' },
+      { purpose: 'climax', description: 'Otto asks for help' },
+      { purpose: 'resolution', description: 'Friends find the kite together' },
+    ],
+  },
+};
+
+describe('migrateArtifact', () => {
+  it('upgrades an unversioned StoryWithPlot into a valid Story', () => {
+    const { data, fromVersion, applied } = migrateArtifact(legacyStoryWithPlot, 'plot');
+
+    expect(fromVersion).toBe(0);
+    expect(applied).toHaveLength(CURRENT_SCHEMA_VERSION);
+    const story = StorySchema.parse(data);
+    expect(story.plotBeats.map(beat => beat.purpose)).toEqual(['setup', 'conflict', 'build', 'climax', 'payoff']);
+    expect(story.allowCreativeLiberty).toBe(false);
+    expect(story.customInstructions).toBe('Keep it gentle\nNo villains');
+    expect(data).not.toHaveProperty('plot');
+  });
+
+  it('turns a legacy StoryBrief into a draft missing only its plot beats', () => {
+    const { plot: _plot, ...brief } = legacyStoryWithPlot;
+    const result = parseStoryDraft(migrateArtifact(brief, 'brief').data);
+
+    expect(result.status).toBe('incomplete');
+    if (result.status === 'incomplete') expect(result.missingFields).toEqual(['plotBeats']);
+  });
+
+  it('migrates the story inside a checkpoint', () => {
+    const { data } = migrateArtifact({ story: legacyStoryWithPlot, prosePages: [] }, 'checkpoint');
+    expect(StorySchema.parse((data as { story: unknown }).story).plotBeats).toHaveLength(5);
+  });
+
+  it('migrates the draft and every turn snapshot in an intake transcript', () => {
+    const legacyBeats = [{ purpose: 'resolution', description: 'The end' }];
+    const { data } = migrateArtifact({
+      opening: 'Hi',
+      story: { plotBeats: legacyBeats },
+      turns: [{ question: 'Q?', options: [], story: { plotBeats: legacyBeats } }],
+      isComplete: false,
+    }, 'intake');
+
+    const transcript = parseIntakeTranscript(data);
+    expect(transcript.story.plotBeats?.[0]?.purpose).toBe('payoff');
+    expect(transcript.turns[0]?.story.plotBeats?.[0]?.purpose).toBe('payoff');
+  });
+
+  it('only runs migrations newer than the saved schemaVersion', () => {
+    const saved = { schemaVersion: 2, title: 'T', customInstructions: ['a'], plot: { plotBeats: [] } };
+    const { data, applied } = migrateArtifact(saved, 'story');
+
+    expect(applied).toEqual([MIGRATIONS[2]!.description]);
+    expect(data).toEqual({ title: 'T', customInstructions: 'a', plot: { plotBeats: [] } });
+  });
+
+  it('leaves current artifacts unchanged apart from dropping schemaVersion', () => {
+    const saved = { schemaVersion: CURRENT_SCHEMA_VERSION, storyTitle: 'T', pages: [] };
+    expect(migrateArtifact(saved, 'book')).toEqual({ data: { storyTitle: 'T', pages: [] }, fromVersion: CURRENT_SCHEMA_VERSION, applied: [] });
+  });
+
+  it('does not mutate its input', () => {
+    const input = structuredClone(legacyStoryWithPlot);
+    migrateArtifact(input, 'plot');
+    expect(input).toEqual(legacyStoryWithPlot);
+  });
+
+  it('rejects artifacts from a newer version', () => {
+    expect(() => migrateArtifact({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }, 'story')).toThrow('newer than this version');
+  });
+});
+
+describe('MIGRATIONS', () => {
+  it('has one migration per version up to CURRENT_SCHEMA_VERSION', () => {
+    expect(MIGRATIONS.map(m => m.from)).toEqual(Array.from({ length: CURRENT_SCHEMA_VERSION }, (_, i) => i));
+  });
+});
+
+describe('getArtifactKind', () => {
+  it('maps story folder file names to artifact kinds', () => {
+    expect(getArtifactKind('output/otto/checkpoint.json')).toBe('checkpoint');
+    expect(getArtifactKind('brief.json')).toBe('brief');
+    expect(getArtifactKind('examples/otto-story.json')).toBeUndefined();
+  });
+});
+
+describe('withSchemaVersion', () => {
+  it('stamps objects with the current version first', () => {
+    expect(Object.keys(withSchemaVersion({ title: 'T' }) as object)).toEqual(['schemaVersion', 'title']);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Artifact migrations
+ *
+ * Every JSON artifact in a story folder is saved with a schemaVersion.
+ * Files without one predate versioning and are version 0. On load, the
+ * registered migrations upgrade a file step by step (0 → 1 → 2 ...) to
+ * CURRENT_SCHEMA_VERSION before it is parsed with the current schemas,
+ * so old story folders keep loading after schema changes.
+ *
+ * To change a saved shape: add a migration from the current version,
+ * then bump CURRENT_SCHEMA_VERSION.
+ */
+
+/** Artifact files that can be migrated, named after their file (brief.json → brief) */
+export type ArtifactKind = 'brief' | 'plot' | 'prose' | 'story' | 'checkpoint' | 'intake' | 'visuals' | 'book' | 'locks';
+
+const ARTIFACT_KINDS: ArtifactKind[] = ['brief', 'plot', 'prose', 'story', 'checkpoint', 'intake', 'visuals', 'book', 'locks'];
+
+type JsonObject = Record<string, unknown>;
+
+export interface Migration {
+  /** Version this migration upgrades from (to is from + 1) */
+  from: number;
+  description: string;
+  /** Upgrade an artifact in place */
+  migrate: (data: JsonObject, kind: ArtifactKind) => void;
+}
+
+export interface MigrationResult {
+  /** The upgraded artifact, without its schemaVersion */
+  data: unknown;
+  /** Version the file was saved with */
+  fromVersion: number;
+  /** Descriptions of the migrations that ran, in order */
+  applied: string[];
+}
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * The story-shaped objects inside an artifact: the file itself for brief/plot/prose/story,
+ * checkpoint.story, and intake.json's draft story plus each turn's snapshot.
+ */
+const storiesIn = (data: JsonObject, kind: ArtifactKind): JsonObject[] => {
+  switch (kind) {
+    case 'brief':
+    case 'plot':
+    case 'prose':
+    case 'story':
+      return [data];
+    case 'checkpoint':
+      return isObject(data.story) ? [data.story] : [];
+    case 'intake': {
+      const turns = Array.isArray(data.turns) ? data.turns.filter(isObject) : [];
+      return [data.story, ...turns.map(turn => turn.story)].filter(isObject);
+    }
+    case 'visuals':
+    case 'book':
+    case 'locks':
+      return [];
+  }
+};
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/** Beat purposes from the original plot agent (setup|conflict|rising_action|climax|resolution) */
+const LEGACY_BEAT_PURPOSES: Record<string, string> = {
+  rising_action: 'build',
+  resolution: 'payoff',
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    description: 'Flatten StoryWithPlot: move plot.plotBeats, plot.characters and plot.allowCreativeLiberty onto the story',
+    migrate: (data, kind) => {
+      for (const story of storiesIn(data, kind)) {
+        const { plot } = story;
+        if (!isObject(plot)) continue;
+        story.plotBeats ??= plot.plotBeats;
+        story.allowCreativeLiberty ??= plot.allowCreativeLiberty;
+        if (Array.isArray(plot.characters) && plot.characters.length > 0) story.characters = plot.characters;
+        story.storyArc ??= plot.storyArcSummary;
+        delete story.plot;
+      }
+    },
+  },
+  {
+    from: 1,
+    description: 'Rename legacy beat purposes: rising_action → build, resolution → payoff',
+    migrate: (data, kind) => {
+      for (const story of storiesIn(data, kind)) {
+        if (!Array.isArray(story.plotBeats)) continue;
+        for (const beat of story.plotBeats.filter(isObject)) {
+          const purpose = LEGACY_BEAT_PURPOSES[beat.purpose as string];
+          if (purpose) beat.purpose = purpose;
+        }
+      }
+    },
+  },
+  {
+    from: 2,
+    description: 'Join StoryBrief customInstructions arrays into a single string',
+    migrate: (data, kind) => {
+      for (const story of storiesIn(data, kind)) {
+        if (Array.isArray(story.customInstructions)) {
+          story.customInstructions = story.customInstructions.length > 0 ? story.customInstructions.join('\n') : undefined;
+        }
+      }
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// ============================================================================
+// Loading and saving
+// ============================================================================
+
+/**
+ * Artifact kind for a story folder file name (e.g. "output/otto/plot.json" → "plot")
+ */
+export const getArtifactKind = (fileName: string): ArtifactKind | undefined => {
+  const name = fileName.split(/[\\/]/).pop()?.replace(/\.json$/, '');
+  return ARTIFACT_KINDS.find(kind => kind === name);
+};
+
+/**
+ * Upgrade a loaded artifact to CURRENT_SCHEMA_VERSION.
+ * Does not mutate the input. Throws for files saved by a newer version of bookbug.
+ */
+export const migrateArtifact = (input: unknown, kind: ArtifactKind): MigrationResult => {
+  if (!isObject(input)) return { data: input, fromVersion: CURRENT_SCHEMA_VERSION, applied: [] };
+
+  const { schemaVersion, ...rest } = structuredClone(input);
+  const fromVersion = typeof schemaVersion === 'number' ? schemaVersion : 0;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `${kind}.json has schemaVersion ${fromVersion}, newer than this version of bookbug supports (${CURRENT_SCHEMA_VERSION}). Upgrade bookbug to load it.`
+    );
+  }
+
+  const applied: string[] = [];
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) throw new Error(`No migration registered from schemaVersion ${version}`);
+    migration.migrate(rest, kind);
+    applied.push(migration.description);
+  }
+
+  return { data: rest, fromVersion, applied };
+};
+
+/**
+ * Stamp an artifact with the current schemaVersion before saving
+ */
+export const withSchemaVersion = (data: unknown): unknown =>
+  isObject(data) ? { schemaVersion: CURRENT_SCHEMA_VERSION, ...data } : data;
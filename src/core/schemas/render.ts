@@ -1,6 +1,6 @@
 import { z } from 'zod';
 import { AgeRangeSchema } from './common';
-import { VisualStyleGuideSchema, IllustrationBeatSchema, CharacterDesignSchema } from './visuals';
+import { VisualStyleGuideSchema, IllustrationBeatSchema, CharacterDesignSchema, IllustratedPageSchema } from './visuals';
 import { BookFormatKeySchema } from './formats';
 
 /**
@@ -35,6 +35,9 @@ export const PageRenderContextSchema = z.object({
     pageNumber: z.number().int().describe('Page number (1+)'),
     text: z.string().optional(),
     beats: z.array(IllustrationBeatSchema).optional(),
+    dialogue: IllustratedPageSchema.shape.dialogue,
+    soundEffects: IllustratedPageSchema.shape.soundEffects,
+    textComposited: z.boolean().optional().describe('Text is typeset onto the finished illustration - draw no lettering'),
   }),
 });
 
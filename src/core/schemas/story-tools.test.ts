@@ -197,6 +197,66 @@ describe('createStoryTools', () => {
     });
   });
 
+  describe('auto-generated remove, updateAt and move tools', () => {
+    const beats = () => [
+      { purpose: 'setup' as const, description: 'First' },
+      { purpose: 'conflict' as const, description: 'Second' },
+      { purpose: 'climax' as const, description: 'Third' },
+    ];
+
+    it('removePlotBeat deletes a beat by index', async () => {
+      const state: StoryState = { story: { plotBeats: beats() }, isComplete: false };
+      const tools = createStoryTools(state);
+
+      const result = await tools.removePlotBeat.execute({ index: 1 });
+
+      expect(result.success).toBe(true);
+      expect(state.story.plotBeats?.map(b => b.description)).toEqual(['First', 'Third']);
+    });
+
+    it('removeInterest clears an interest', async () => {
+      const state: StoryState = { story: { interests: ['dinosaurs', 'trains'] }, isComplete: false };
+      const tools = createStoryTools(state);
+
+      await tools.removeInterest.execute({ index: 0 });
+
+      expect(state.story.interests).toEqual(['trains']);
+    });
+
+    it('updateCharacterAt replaces a character', async () => {
+      const state: StoryState = {
+        story: { characters: [{ name: 'Pip', description: 'A mouse', traits: [], notes: [] }] },
+        isComplete: false,
+      };
+      const tools = createStoryTools(state);
+      const otto = { name: 'Otto', description: 'An otter', traits: [], notes: [] };
+
+      const result = await tools.updateCharacterAt.execute({ index: 0, value: otto });
+
+      expect(result.success).toBe(true);
+      expect(state.story.characters).toEqual([otto]);
+    });
+
+    it('movePlotBeat reorders beats', async () => {
+      const state: StoryState = { story: { plotBeats: beats() }, isComplete: false };
+      const tools = createStoryTools(state);
+
+      await tools.movePlotBeat.execute({ from: 2, to: 0 });
+
+      expect(state.story.plotBeats?.map(b => b.description)).toEqual(['Third', 'First', 'Second']);
+    });
+
+    it('returns errors for out-of-range indexes', async () => {
+      const state: StoryState = { story: { plotBeats: beats() }, isComplete: false };
+      const tools = createStoryTools(state);
+
+      expect((await tools.removePlotBeat.execute({ index: 3 })).success).toBe(false);
+      expect((await tools.removeCharacter.execute({ index: 0 })).success).toBe(false);
+      expect((await tools.movePlotBeat.execute({ from: 0, to: 5 })).success).toBe(false);
+      expect(state.story.plotBeats).toHaveLength(3);
+    });
+  });
+
   describe('conversation tools', () => {
     it('promptUser returns success with question details', async () => {
       const state = createState();
@@ -246,6 +306,13 @@ describe('createStoryTools', () => {
       expect(tools.addPlotBeat).toBeDefined();
       expect(tools.addInterest).toBeDefined();
 
+      // Removers, replacers and movers for array fields
+      for (const singular of ['Character', 'PlotBeat', 'Interest']) {
+        expect(tools[`remove${singular}`]).toBeDefined();
+        expect(tools[`update${singular}At`]).toBeDefined();
+        expect(tools[`move${singular}`]).toBeDefined();
+      }
+
       // Conversation tools
       expect(tools.promptUser).toBeDefined();
       expect(tools.finishIntake).toBeDefined();
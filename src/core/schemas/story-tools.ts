@@ -96,6 +96,89 @@ const createAdderTool = (
   });
 };
 
+/** Read an array field, or a failure result naming the missing index */
+const getArrayAt = (
+  state: StoryState,
+  fieldName: string,
+  index: number
+): unknown[] | ToolResult => {
+  const arr = (state.story as Record<string, unknown[] | undefined>)[fieldName];
+  if (!arr || index < 0 || index >= arr.length) {
+    return { success: false, message: `No ${fieldName.replace(/s$/, '')} at index ${index}` };
+  }
+  return arr;
+};
+
+/**
+ * Create a remover tool for an array field (by 0-based index)
+ */
+const createRemoverTool = (fieldName: string, state: StoryState) => {
+  const singularName = fieldName.replace(/s$/, '');
+
+  return tool({
+    description: `Remove a ${singularName} from the story by index`,
+    inputSchema: z.object({
+      index: z.number().int().describe(`Index of the ${singularName} (0-based)`),
+    }),
+    execute: async ({ index }): Promise<ToolResult> => {
+      const arr = getArrayAt(state, fieldName, index);
+      if (!Array.isArray(arr)) return arr;
+      arr.splice(index, 1);
+      return { success: true, message: `Removed ${singularName} ${index}` };
+    },
+  });
+};
+
+/**
+ * Create a replace-at-index tool for an array field
+ */
+const createUpdateAtTool = (
+  fieldName: string,
+  elementSchema: z.ZodTypeAny,
+  state: StoryState
+) => {
+  const singularName = fieldName.replace(/s$/, '');
+
+  return tool({
+    description: `Replace the ${singularName} at an index`,
+    inputSchema: z.object({
+      index: z.number().int().describe(`Index of the ${singularName} (0-based)`),
+      value: elementSchema,
+    }),
+    execute: async ({ index, value }): Promise<ToolResult> => {
+      const arr = getArrayAt(state, fieldName, index);
+      if (!Array.isArray(arr)) return arr;
+      arr[index] = value;
+      return { success: true, message: `Replaced ${singularName} ${index}` };
+    },
+  });
+};
+
+/**
+ * Create a reorder tool for an array field
+ */
+const createMoverTool = (fieldName: string, state: StoryState) => {
+  const singularName = fieldName.replace(/s$/, '');
+
+  return tool({
+    description: `Move a ${singularName} to a new position`,
+    inputSchema: z.object({
+      from: z.number().int().describe(`Current index of the ${singularName} (0-based)`),
+      to: z.number().int().describe('Index it should end up at (0-based)'),
+    }),
+    execute: async ({ from, to }): Promise<ToolResult> => {
+      const arr = getArrayAt(state, fieldName, from);
+      if (!Array.isArray(arr)) return arr;
+      if (to < 0 || to >= arr.length) {
+        return { success: false, message: `No ${singularName} at index ${to}` };
+      }
+      const [item] = arr.splice(from, 1);
+      arr.splice(to, 0, item);
+      return { success: true, message: `Moved ${singularName} ${from} to ${to}` };
+    },
+  });
+};
+
 // ============================================================================
 // Main Tool Factory
 // ============================================================================
@@ -105,7 +188,7 @@ const createAdderTool = (
  *
  * Generates tools automatically from schema introspection:
  * - Scalar fields -> setX tools
- * - Array fields -> addX tools
+ * - Array fields -> addX, removeX, updateXAt, moveX tools
  * - Plus conversation tools (promptUser, finishIntake)
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -125,13 +208,13 @@ export const createStoryTools = (state: StoryState): Record<string, any> => {
     const innerTypeName = innerSchema._def.typeName;
 
     if (innerTypeName === 'ZodArray') {
-      // Array field -> addX tool
+      // Array field -> addX, removeX, updateXAt, moveX tools
       const elementSchema = innerSchema._def.type;
-      tools[`add${capitalize(fieldName.replace(/s$/, ''))}`] = createAdderTool(
-        fieldName,
-        elementSchema,
-        state
-      );
+      const singular = capitalize(fieldName.replace(/s$/, ''));
+      tools[`add${singular}`] = createAdderTool(fieldName, elementSchema, state);
+      tools[`remove${singular}`] = createRemoverTool(fieldName, state);
+      tools[`update${singular}At`] = createUpdateAtTool(fieldName, elementSchema, state);
+      tools[`move${singular}`] = createMoverTool(fieldName, state);
     } else {
       // Scalar field -> setX tool
       tools[`set${capitalize(fieldName)}`] = createSetterTool(fieldName, innerSchema, state);
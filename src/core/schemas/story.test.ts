@@ -11,6 +11,7 @@ import {
   getRequiredFields,
   getMissingRequiredFields,
   hasAllRequiredFields,
+  parseStoryDraft,
   type Story,
   type FieldPolicy,
 } from './story';
@@ -214,3 +215,46 @@ describe('hasAllRequiredFields', () => {
     expect(hasAllRequiredFields(draft)).toBe(true);
   });
 });
+
+describe('parseStoryDraft', () => {
+  const brief = {
+    title: 'Otto and the City of Lights',
+    storyArc: 'Finding courage in new places',
+    setting: 'a shimmering nighttime city',
+    characters: [{ name: 'Otto', description: 'A small, thoughtful kid' }],
+  };
+  const plotBeats = [
+    { purpose: 'setup', description: 'Otto arrives in the city' },
+    { purpose: 'conflict', description: 'Otto gets lost' },
+    { purpose: 'climax', description: 'Otto follows the lights home' },
+  ];
+
+  it('returns a complete story with defaults applied', () => {
+    const result = parseStoryDraft({ ...brief, plotBeats });
+    expect(result.status).toBe('complete');
+    if (result.status === 'complete') expect(result.data.pageCount).toBe(24);
+  });
+
+  it('reports missing required fields without failing', () => {
+    const result = parseStoryDraft({ ...brief, plotBeats: [] });
+    expect(result).toEqual({
+      status: 'incomplete',
+      data: expect.objectContaining({ title: brief.title }),
+      missingFields: ['plotBeats'],
+    });
+  });
+
+  it('rejects present fields that are invalid', () => {
+    const result = parseStoryDraft({ ...brief, customInstructions: ['soft watercolor'] });
+    expect(result.status).toBe('invalid');
+    if (result.status === 'invalid') expect(result.issues[0]).toMatch(/^customInstructions: /);
+  });
+
+  it('rejects too few plot beats rather than treating them as missing', () => {
+    expect(parseStoryDraft({ ...brief, plotBeats: plotBeats.slice(0, 1) }).status).toBe('invalid');
+  });
+
+  it('rejects non-objects', () => {
+    expect(parseStoryDraft([brief])).toEqual({ status: 'invalid', issues: ['(root): Expected a JSON object'] });
+  });
+});
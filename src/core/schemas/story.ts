@@ -120,3 +120,41 @@ export const getMissingRequiredFields = (
 export const hasAllRequiredFields = (story: Partial<Story>): boolean => {
   return getMissingRequiredFields(story).length === 0;
 };
+
+// ============================================================================
+// Story files (non-interactive create)
+// ============================================================================
+
+export type StoryDraftResult =
+  | { status: 'complete'; data: Story }
+  | { status: 'incomplete'; data: Partial<Story>; missingFields: string[] }
+  | { status: 'invalid'; issues: string[] };
+
+/**
+ * Validate a story loaded from a file (e.g. a brief written by a script).
+ * Missing required fields are reported rather than rejected, so the caller can
+ * fail or ask for just those fields; fields that are present must be valid.
+ */
+export const parseStoryDraft = (data: unknown): StoryDraftResult => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { status: 'invalid', issues: ['(root): Expected a JSON object'] };
+  }
+
+  const missingFields = getMissingRequiredFields(data as Partial<Story>);
+  // Empty required arrays count as missing, not invalid
+  const present = Object.fromEntries(Object.entries(data).filter(([key]) => !missingFields.includes(key)));
+
+  const result = missingFields.length === 0
+    ? StorySchema.safeParse(present)
+    : StorySchema.partial().safeParse(present);
+  if (!result.success) {
+    return {
+      status: 'invalid',
+      issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+  }
+
+  return missingFields.length === 0
+    ? { status: 'complete', data: result.data as Story }
+    : { status: 'incomplete', data: result.data, missingFields };
+};
@@ -186,10 +186,31 @@ export const VisualStyleGuideSchema = z.object({
 
 export type VisualStyleGuide = z.infer<typeof VisualStyleGuideSchema>;
 
+// Dialogue: a speech or thought bubble lettered over the illustration
+export const DialogueSchema = z.object({
+  speaker: z.string().min(1).describe('Character ID from Story.characters'),
+  text: z.string().min(1).describe('What the character says - a few words, never the page text'),
+  grid: z.string().min(1).describe('Bubble position on the composition grid, as in staging.anchors (e.g., "top-left third")'),
+  kind: z.enum(['speech', 'thought']).optional().describe('Bubble shape (default: speech)'),
+});
+
+export type Dialogue = z.infer<typeof DialogueSchema>;
+
+// SoundEffect: onomatopoeia lettered over the illustration
+export const SoundEffectSchema = z.object({
+  text: z.string().min(1).describe('Onomatopoeia (e.g., "SPLASH!", "creak")'),
+  grid: z.string().min(1).describe('Position on the composition grid, as in staging.anchors (e.g., "bottom-right third")'),
+  speaker: z.string().min(1).optional().describe('Character ID from Story.characters making the sound, if a character makes it'),
+});
+
+export type SoundEffect = z.infer<typeof SoundEffectSchema>;
+
 // IllustratedPage: a single page with visual beats
 export const IllustratedPageSchema = z.object({
   pageNumber: z.number().int().describe('Page number (1+)'),
   beats: z.array(IllustrationBeatSchema).min(1),
+  dialogue: z.array(DialogueSchema).optional().describe('Speech bubbles, only where a character speaks aloud'),
+  soundEffects: z.array(SoundEffectSchema).optional().describe('Onomatopoeia, only for a sound the moment is about'),
 });
 
 export type IllustratedPage = z.infer<typeof IllustratedPageSchema>;
@@ -1,8 +1,9 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { z } from 'zod';
 
-// Mock the ai module
-vi.mock('ai', () => ({
+// Mock the ai module (schemas still convert to JSON Schema for request keys)
+vi.mock('ai', async (importOriginal) => ({
+  asSchema: (await importOriginal<typeof import('ai')>()).asSchema,
   generateObject: vi.fn(),
   streamObject: vi.fn(),
   NoObjectGeneratedError: {
@@ -31,6 +32,7 @@ import { streamObject, generateObject as aiGenerateObject } from 'ai';
 import { streamObjectWithProgress, generateObject, type RepairFunction } from './ai';
 import { sleep } from '../utils/retry';
 import { logRateLimit, logApiSuccess } from '../utils/logger';
+import { setActiveCassette, type Cassette } from './cassette';
 
 const TestSchema = z.object({
   name: z.string(),
@@ -122,6 +124,57 @@ describe('generateObject', () => {
   });
 });
 
+describe('generateObject with a cassette', () => {
+  const model = 'mock-model' as unknown as Parameters<typeof aiGenerateObject>[0]['model'];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    setActiveCassette(undefined);
+  });
+
+  it('records the object from a live call', async () => {
+    const record = vi.fn();
+    setActiveCassette({ mode: 'record', file: 'cassette.json', replay: vi.fn(), record } as Cassette);
+    (aiGenerateObject as ReturnType<typeof vi.fn>).mockResolvedValue({ object: { name: 'live', value: 1 } });
+
+    await generateObject({ model, schema: TestSchema, system: 'sys', prompt: 'test prompt' }, undefined, 'testAgent');
+
+    expect(record).toHaveBeenCalledWith(
+      'generateObject',
+      { model: 'mock-model', system: 'sys', prompt: 'test prompt', messages: undefined, schema: 'testAgent', schemaHash: expect.stringMatching(/^[0-9a-f]{64}$/) },
+      { name: 'live', value: 1 }
+    );
+  });
+
+  it('keys requests by the JSON Schema, so a schema change misses old recordings', async () => {
+    const replay = vi.fn().mockReturnValue({ name: 'replayed', value: 2 });
+    setActiveCassette({ mode: 'replay', file: 'cassette.json', replay, record: vi.fn() } as Cassette);
+
+    const described = TestSchema.extend({ value: z.number().describe('How many') });
+    const extended = TestSchema.extend({ note: z.string().optional() });
+    for (const schema of [TestSchema, TestSchema, described, extended]) {
+      await generateObject({ model, schema, prompt: 'test prompt' }, undefined, 'testAgent');
+    }
+
+    const hashes = replay.mock.calls.map(([, request]) => request.schemaHash);
+    expect(hashes[0]).toBe(hashes[1]);
+    expect(new Set(hashes).size).toBe(3);
+  });
+
+  it('replays without calling the API and validates the replayed object', async () => {
+    const replay = vi.fn().mockReturnValueOnce({ name: 'replayed', value: 2 }).mockReturnValueOnce({ name: 'bad' });
+    setActiveCassette({ mode: 'replay', file: 'cassette.json', replay, record: vi.fn() } as Cassette);
+
+    const result = await generateObject({ model, schema: TestSchema, prompt: 'test prompt' });
+    expect(result.object).toEqual({ name: 'replayed', value: 2 });
+    await expect(generateObject({ model, schema: TestSchema, prompt: 'test prompt' })).rejects.toThrow();
+    expect(aiGenerateObject).not.toHaveBeenCalled();
+  });
+});
+
 describe('streamObjectWithProgress', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -4,19 +4,27 @@
  * Drop-in replacement for generateObject that respects retry-after headers.
  * When a provider returns retry-after, we wait that exact duration.
  * Otherwise, we let the AI SDK handle retries with exponential backoff.
+ * Every call goes through the active record/replay cassette (cassette.ts) and
+ * response cache (cache.ts), when set.
  */
+import { createHash } from 'crypto';
 import {
+  asSchema,
   generateObject as aiGenerateObject,
   generateText as aiGenerateText,
   streamObject as aiStreamObject,
   NoObjectGeneratedError,
+  type FlexibleSchema,
   type GenerateObjectResult,
+  type LanguageModel,
   APICallError,
 } from 'ai';
 import type { JSONParseError, TypeValidationError } from '@ai-sdk/provider';
 import { z, type ZodRawShape, type ZodObject } from 'zod';
 import { sleep } from '../utils/retry';
 import { type Logger, logApiSuccess, logApiError, logRateLimit } from '../utils/logger';
+import { normalizeRequest, type CassetteRequest } from './cassette';
+import { cachedCall } from './cache';
 
 // ============================================================================
 // Composable Options Response Pattern
@@ -66,12 +74,47 @@ const getRetryAfterSeconds = (error: unknown): number | null => {
   return isNaN(seconds) ? null : seconds;
 };
 
+/** sha256 of the JSON Schema sent to the model, so a changed schema or .describe() is a new request */
+const hashSchema = async (schema: unknown): Promise<string> =>
+  createHash('sha256').update(JSON.stringify(normalizeRequest(await asSchema(schema as FlexibleSchema<unknown>).jsonSchema))).digest('hex');
+
+/** The parts of a call that identify it in a cassette */
+const toCassetteRequest = async (
+  options: { model: LanguageModel; system?: unknown; prompt?: unknown; messages?: unknown; schema?: unknown },
+  agent?: string
+): Promise<CassetteRequest> => ({
+  model: typeof options.model === 'string' ? options.model : options.model.modelId,
+  system: options.system,
+  prompt: options.prompt,
+  messages: options.messages,
+  schema: agent,
+  schemaHash: options.schema === undefined ? undefined : await hashSchema(options.schema),
+});
+
+/** Replayed and cached objects are re-validated against the schema */
 export async function generateObject<T>(
   options: GenerateObjectParams & { schema: { parse: (data: unknown) => T } },
   logger?: Logger,
   agentName?: string
 ): Promise<GenerateObjectResult<T>> {
   const agent = agentName ?? 'generateObject';
+  return cachedCall(
+    'generateObject',
+    await toCassetteRequest(options, agent),
+    () => callGenerateObject(options, agent, logger),
+    {
+      toRecord: result => result.object,
+      fromReplay: object => ({ object: options.schema.parse(object) }) as GenerateObjectResult<T>,
+      logger,
+    }
+  );
+}
+
+async function callGenerateObject<T>(
+  options: GenerateObjectParams & { schema: { parse: (data: unknown) => T } },
+  agent: string,
+  logger?: Logger
+): Promise<GenerateObjectResult<T>> {
 
   logger?.debug({ agent, promptLength: options.prompt?.length ?? 0 }, 'API call starting');
 
@@ -123,6 +166,14 @@ export async function generateText(
   agentName?: string
 ): Promise<string> {
   const agent = agentName ?? 'generateText';
+  return cachedCall('generateText', await toCassetteRequest(options), () => callGenerateText(options, agent, logger), { logger });
+}
+
+async function callGenerateText(
+  options: GenerateTextParams,
+  agent: string,
+  logger?: Logger
+): Promise<string> {
 
   logger?.debug({ agent, promptLength: options.prompt?.length ?? 0 }, 'Text generation starting');
 
@@ -169,6 +220,20 @@ export async function streamObjectWithProgress<T>(
   agentName?: string
 ): Promise<T> {
   const agent = agentName ?? 'streamObject';
+  return cachedCall(
+    'streamObject',
+    await toCassetteRequest(options, agent),
+    () => callStreamObject(options, agent, repair, logger),
+    { fromReplay: object => options.schema.parse(object), logger }
+  );
+}
+
+async function callStreamObject<T>(
+  options: StreamObjectParams & { schema: { parse: (data: unknown) => T } },
+  agent: string,
+  repair?: RepairFunction,
+  logger?: Logger
+): Promise<T> {
 
   logger?.debug({ agent, promptLength: options.prompt?.length ?? 0 }, 'Stream starting');
 
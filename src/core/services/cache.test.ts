@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createResponseCache, setActiveCache, withCache, cachedCall } from './cache';
+import { openCassette, setActiveCassette, CASSETTE_FILE } from './cassette';
+
+const request = { model: 'claude', system: 'Be brief', prompt: 'Describe the style', schema: 'styleGuide' };
+
+describe('response cache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+  });
+
+  afterEach(async () => {
+    setActiveCache(undefined);
+    setActiveCassette(undefined);
+    vi.useRealTimers();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('calls live when no cache is active', async () => {
+    const live = vi.fn().mockResolvedValue('live');
+    expect(await withCache('generateText', request, live)).toBe('live');
+    expect(live).toHaveBeenCalledOnce();
+  });
+
+  it('serves a later run from disk and counts hits and misses', async () => {
+    const first = createResponseCache(dir);
+    setActiveCache(first);
+    await withCache('generateText', request, async () => 'watercolor');
+    expect(first.stats).toEqual({ hits: 0, misses: 1 });
+
+    const second = createResponseCache(dir);
+    setActiveCache(second);
+    const live = vi.fn();
+    expect(await withCache('generateText', request, live)).toBe('watercolor');
+    expect(live).not.toHaveBeenCalled();
+    expect(second.stats).toEqual({ hits: 1, misses: 0 });
+  });
+
+  it('misses when any part of the request changes', async () => {
+    setActiveCache(createResponseCache(dir));
+    await withCache('generateText', request, async () => 'watercolor');
+
+    setActiveCache(createResponseCache(dir));
+    const live = vi.fn().mockResolvedValue('gouache');
+    expect(await withCache('generateText', { ...request, system: 'Be verbose' }, live)).toBe('gouache');
+    expect(live).toHaveBeenCalledOnce();
+  });
+
+  it('caches repeats of a request within a run separately', async () => {
+    const replicate = { model: 'flux', input: { prompt: 'page 1' } };
+    setActiveCache(createResponseCache(dir));
+    await withCache('replicate', replicate, async () => ['https://first.png']);
+    await withCache('replicate', replicate, async () => ['https://retry.png']);
+
+    setActiveCache(createResponseCache(dir));
+    expect(await withCache('replicate', replicate, vi.fn())).toEqual(['https://first.png']);
+    expect(await withCache('replicate', replicate, vi.fn())).toEqual(['https://retry.png']);
+  });
+
+  it('expires Replicate URLs after a day', async () => {
+    const replicate = { model: 'flux', input: { prompt: 'page 1' } };
+    setActiveCache(createResponseCache(dir));
+    await withCache('replicate', replicate, async () => ['https://old.png']);
+
+    vi.useFakeTimers({ now: Date.now() + 24 * 60 * 60 * 1000, toFake: ['Date'] });
+    setActiveCache(createResponseCache(dir));
+    expect(await withCache('replicate', replicate, async () => ['https://new.png'])).toEqual(['https://new.png']);
+  });
+
+  it('clears every entry', async () => {
+    const cache = createResponseCache(dir);
+    setActiveCache(cache);
+    await withCache('generateText', request, async () => 'watercolor');
+    await cache.clear();
+
+    setActiveCache(createResponseCache(dir));
+    const live = vi.fn().mockResolvedValue('fresh');
+    expect(await withCache('generateText', request, live)).toBe('fresh');
+  });
+
+  it('lets a replaying cassette take precedence over the cache', async () => {
+    const cassetteFile = path.join(dir, CASSETTE_FILE);
+    setActiveCassette(await openCassette(cassetteFile, 'record'));
+    setActiveCache(createResponseCache(path.join(dir, 'cache')));
+    await cachedCall('generateText', request, async () => 'recorded');
+
+    setActiveCassette(await openCassette(cassetteFile, 'replay'));
+    await createResponseCache(path.join(dir, 'cache')).clear();
+    const live = vi.fn();
+    expect(await cachedCall('generateText', request, live)).toBe('recorded');
+    expect(live).not.toHaveBeenCalled();
+  });
+});
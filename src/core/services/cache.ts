@@ -0,0 +1,139 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getCacheDir } from '../config';
+import { loadJson, saveJson } from '../../utils';
+import { type Logger, logCacheLookup } from '../utils/logger';
+import { hashRequest, withCassette, type CassetteKind, type CassetteRequest, type WithCassetteOptions } from './cassette';
+
+/**
+ * Response Cache
+ *
+ * Content-addressed on-disk cache for LLM and image calls, so resuming or
+ * re-running a story doesn't pay again for identical style guides and sprites.
+ * Entries are keyed by the same request hash as cassettes: model, system prompt,
+ * prompt/messages and the JSON Schema of the response for LLM calls; model plus input
+ * for Replicate runs.
+ *
+ * Repeats of the same request within a run get their own entries (occurrence 0, 1, ...),
+ * so quality-check retries still produce fresh images instead of the cached failure.
+ */
+
+/** Replicate delivery URLs expire after ~24h - older cached runs are misses */
+const MAX_AGE_MS: Partial<Record<CassetteKind, number>> = {
+  replicate: 23 * 60 * 60 * 1000,
+};
+
+interface CacheEntry {
+  kind: CassetteKind;
+  createdAt: string;
+  response: unknown;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+export type CacheLookup =
+  | { hit: true; response: unknown }
+  | { hit: false; store: (response: unknown) => Promise<void> };
+
+export interface ResponseCache {
+  dir: string;
+  stats: CacheStats;
+  /** Look up the request's next occurrence; a miss returns how to store the live response */
+  lookup(kind: CassetteKind, request: CassetteRequest, logger?: Logger): Promise<CacheLookup>;
+  /** Delete every cached entry */
+  clear(): Promise<void>;
+}
+
+export const createResponseCache = (dir: string = getCacheDir()): ResponseCache => {
+  const stats: CacheStats = { hits: 0, misses: 0 };
+  // How many times each request hash has been looked up in this run
+  const occurrences = new Map<string, number>();
+
+  const isFresh = (entry: CacheEntry): boolean => {
+    const maxAge = MAX_AGE_MS[entry.kind];
+    return maxAge === undefined || Date.now() - new Date(entry.createdAt).getTime() < maxAge;
+  };
+
+  return {
+    dir,
+    stats,
+    lookup: async (kind, request, logger) => {
+      const hash = hashRequest(kind, request);
+      const occurrence = occurrences.get(hash) ?? 0;
+      occurrences.set(hash, occurrence + 1);
+      const file = path.join(dir, hash.slice(0, 2), `${hash}-${occurrence}.json`);
+
+      const entry = await loadJson<CacheEntry>(file).catch(() => undefined);
+      if (entry && isFresh(entry)) {
+        stats.hits++;
+        logCacheLookup(logger, kind, 'hit', stats);
+        return { hit: true, response: entry.response };
+      }
+
+      stats.misses++;
+      logCacheLookup(logger, kind, 'miss', stats);
+      return {
+        hit: false,
+        store: async (response) => {
+          await fs.mkdir(path.dirname(file), { recursive: true });
+          await saveJson(file, { kind, createdAt: new Date().toISOString(), response } satisfies CacheEntry);
+        },
+      };
+    },
+    clear: async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    },
+  };
+};
+
+// ============================================================================
+// Active cache
+// ============================================================================
+
+let activeCache: ResponseCache | undefined;
+
+/**
+ * Set the cache used by every AI and Replicate call (undefined = no caching).
+ * The CLI enables it unless --no-cache is passed.
+ */
+export const setActiveCache = (cache: ResponseCache | undefined): void => {
+  activeCache = cache;
+};
+
+export const getActiveCache = (): ResponseCache | undefined => activeCache;
+
+/**
+ * Serve a call from the active cache, or call live and cache the response.
+ * Takes the same toRecord/fromReplay conversions as withCassette.
+ */
+export const withCache = async <T>(
+  kind: CassetteKind,
+  request: CassetteRequest,
+  live: () => Promise<T>,
+  options: WithCassetteOptions<T> & { logger?: Logger } = {}
+): Promise<T> => {
+  const { toRecord = (result: T) => result, fromReplay = (response: unknown) => response as T, logger } = options;
+  const cache = activeCache;
+  if (!cache) return live();
+
+  const cached = await cache.lookup(kind, request, logger);
+  if (cached.hit) return fromReplay(cached.response);
+
+  const result = await live();
+  await cached.store(toRecord(result));
+  return result;
+};
+
+/**
+ * Route a call through the active cassette (record/replay), then the cache, then the live API.
+ * Used by services/ai.ts and runWithRateLimit.
+ */
+export const cachedCall = <T>(
+  kind: CassetteKind,
+  request: CassetteRequest,
+  live: () => Promise<T>,
+  options: WithCassetteOptions<T> & { logger?: Logger } = {}
+): Promise<T> => withCassette(kind, request, () => withCache(kind, request, live, options), options);
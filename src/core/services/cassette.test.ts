@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  openCassette,
+  setActiveCassette,
+  withCassette,
+  cassetteKey,
+  CassetteMissError,
+  CASSETTE_FILE,
+} from './cassette';
+
+const request = { model: 'claude', system: 'Be brief', prompt: 'Name a kite', schema: 'kite' };
+
+describe('cassette', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    file = path.join(dir, CASSETTE_FILE);
+  });
+
+  afterEach(async () => {
+    setActiveCassette(undefined);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('calls live when no cassette is active', async () => {
+    const live = vi.fn().mockResolvedValue('live');
+    expect(await withCassette('generateText', request, live)).toBe('live');
+    expect(live).toHaveBeenCalledOnce();
+  });
+
+  it('replays recorded responses in order without calling live', async () => {
+    setActiveCassette(await openCassette(file, 'record'));
+    await withCassette('generateText', request, async () => 'first');
+    await withCassette('generateText', request, async () => 'second');
+
+    setActiveCassette(await openCassette(file, 'replay'));
+    const live = vi.fn();
+    expect(await withCassette('generateText', request, live)).toBe('first');
+    expect(await withCassette('generateText', request, live)).toBe('second');
+    expect(live).not.toHaveBeenCalled();
+  });
+
+  it('records what toRecord picks and rebuilds it with fromReplay', async () => {
+    setActiveCassette(await openCassette(file, 'record'));
+    await withCassette('generateObject', request, async () => ({ object: { name: 'Kite' }, usage: 12 }), {
+      toRecord: result => result.object,
+    });
+
+    const saved = JSON.parse(await fs.readFile(file, 'utf-8'));
+    expect(saved.entries[0].response).toEqual({ name: 'Kite' });
+
+    setActiveCassette(await openCassette(file, 'replay'));
+    const replayed = await withCassette('generateObject', request, vi.fn(), {
+      fromReplay: object => ({ object, usage: 0 }),
+    });
+    expect(replayed).toEqual({ object: { name: 'Kite' }, usage: 0 });
+  });
+
+  it('fails loudly on a request that was not recorded', async () => {
+    setActiveCassette(await openCassette(file, 'record'));
+    await withCassette('generateText', request, async () => 'recorded');
+
+    setActiveCassette(await openCassette(file, 'replay'));
+    const live = vi.fn();
+    await expect(withCassette('generateText', { ...request, prompt: 'Name a boat' }, live))
+      .rejects.toBeInstanceOf(CassetteMissError);
+    await expect(withCassette('generateText', { ...request, prompt: 'Name a boat' }, live))
+      .rejects.toThrow('Name a boat');
+    expect(live).not.toHaveBeenCalled();
+  });
+
+  it('requires the cassette file to exist for replay', async () => {
+    await expect(openCassette(file, 'replay')).rejects.toThrow('Cassette not found');
+  });
+
+  it('appends to an existing cassette when recording again', async () => {
+    const first = await openCassette(file, 'record');
+    await first.record('replicate', { model: 'flux', input: { prompt: 'a' } }, ['https://a.png']);
+    const second = await openCassette(file, 'record');
+    await second.record('replicate', { model: 'flux', input: { prompt: 'b' } }, ['https://b.png']);
+
+    const saved = JSON.parse(await fs.readFile(file, 'utf-8'));
+    expect(saved.entries).toHaveLength(2);
+  });
+});
+
+describe('cassetteKey', () => {
+  it('ignores key order and undefined fields', () => {
+    expect(cassetteKey('generateText', { model: 'm', prompt: 'p', system: undefined }))
+      .toBe(cassetteKey('generateText', { prompt: 'p', model: 'm' }));
+  });
+
+  it('hashes binary content', () => {
+    const a = cassetteKey('generateObject', { model: 'm', messages: [{ image: Buffer.from('one') }] });
+    const b = cassetteKey('generateObject', { model: 'm', messages: [{ image: Buffer.from('two') }] });
+    expect(a).not.toBe(b);
+  });
+
+  it('distinguishes kinds', () => {
+    expect(cassetteKey('generateText', request)).not.toBe(cassetteKey('streamObject', request));
+  });
+});
@@ -0,0 +1,183 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { loadJson, saveJson } from '../../utils';
+
+/**
+ * Record/replay cassettes for API calls
+ *
+ * Record mode calls the live API and appends each request + response to a
+ * cassette file (cassette.json in the story folder). Replay mode serves those
+ * responses back in order without touching the network, and throws on any
+ * request the cassette doesn't contain - so a prompt change shows up as a
+ * CassetteMissError instead of a silent live call.
+ *
+ * Covered: generateObject, generateText and streamObjectWithProgress (services/ai.ts)
+ * and Replicate runs (runWithRateLimit). The intake conversation calls the AI SDK
+ * directly with tools and is not recorded.
+ */
+
+export const CASSETTE_FILE = 'cassette.json';
+
+export type CassetteMode = 'record' | 'replay';
+
+export type CassetteKind = 'generateObject' | 'generateText' | 'streamObject' | 'replicate';
+
+/** What identifies a call: model plus whatever the prompt is made of */
+export interface CassetteRequest {
+  model: string;
+  system?: unknown;
+  prompt?: unknown;
+  messages?: unknown;
+  /** Agent name, for messages */
+  schema?: string;
+  /** Hash of the JSON Schema the response must match (see ai.ts) */
+  schemaHash?: string;
+  input?: unknown;
+}
+
+export interface CassetteEntry {
+  kind: CassetteKind;
+  key: string;
+  request: CassetteRequest;
+  response: unknown;
+}
+
+export interface Cassette {
+  mode: CassetteMode;
+  file: string;
+  /** Next recorded response for this request; throws CassetteMissError if there is none */
+  replay(kind: CassetteKind, request: CassetteRequest): unknown;
+  /** Append a live response and save the cassette */
+  record(kind: CassetteKind, request: CassetteRequest, response: unknown): Promise<void>;
+}
+
+export class CassetteMissError extends Error {
+  constructor(
+    public kind: CassetteKind,
+    public request: CassetteRequest,
+    public file: string
+  ) {
+    const prompt = JSON.stringify(request.prompt ?? request.messages ?? request.input ?? '').slice(0, 120);
+    super(
+      `No ${kind} entry in cassette ${file} for model ${request.model}` +
+      `${request.schema ? ` (${request.schema})` : ''}. Prompt: ${prompt}... ` +
+      'The request changed since recording - re-record with --record.'
+    );
+  }
+}
+
+// ============================================================================
+// Request keys
+// ============================================================================
+
+/**
+ * JSON-safe copy of a request: binary data (image Buffers) becomes a content hash,
+ * URLs become strings, and object keys are sorted so the key is stable.
+ */
+export const normalizeRequest = (value: unknown): unknown => {
+  if (value instanceof Uint8Array) {
+    return `sha256:${createHash('sha256').update(value).digest('hex')}`;
+  }
+  if (value instanceof URL) return value.toString();
+  if (Array.isArray(value)) return value.map(normalizeRequest);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, normalizeRequest(v)])
+    );
+  }
+  return value;
+};
+
+/** Full sha256 of a normalized request (also the response cache's content address) */
+export const hashRequest = (kind: CassetteKind, request: CassetteRequest): string =>
+  createHash('sha256').update(JSON.stringify([kind, normalizeRequest(request)])).digest('hex');
+
+export const cassetteKey = (kind: CassetteKind, request: CassetteRequest): string =>
+  hashRequest(kind, request).slice(0, 16);
+
+// ============================================================================
+// Cassette files
+// ============================================================================
+
+/**
+ * Open a cassette file. Replay requires the file to exist; record appends to
+ * an existing cassette (e.g. when resuming) or starts a new one.
+ */
+export const openCassette = async (file: string, mode: CassetteMode): Promise<Cassette> => {
+  const exists = await fs.access(file).then(() => true, () => false);
+  if (mode === 'replay' && !exists) {
+    throw new Error(`Cassette not found: ${file}. Record one first with --record.`);
+  }
+
+  const entries = exists ? (await loadJson<{ entries: CassetteEntry[] }>(file)).entries : [];
+  const used = new Set<CassetteEntry>();
+  let saving = Promise.resolve();
+
+  return {
+    mode,
+    file,
+    replay: (kind, request) => {
+      const key = cassetteKey(kind, request);
+      const entry = entries.find(e => e.key === key && e.kind === kind && !used.has(e));
+      if (!entry) throw new CassetteMissError(kind, request, file);
+      used.add(entry);
+      return entry.response;
+    },
+    record: async (kind, request, response) => {
+      entries.push({ kind, key: cassetteKey(kind, request), request: normalizeRequest(request) as CassetteRequest, response });
+      // Pages render in parallel - serialize writes so none are lost
+      saving = saving.then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await saveJson(file, { entries });
+      });
+      await saving;
+    },
+  };
+};
+
+// ============================================================================
+// Active cassette
+// ============================================================================
+
+let activeCassette: Cassette | undefined;
+
+/**
+ * Set the cassette used by every AI and Replicate call (undefined = live calls).
+ * Set once per CLI run, after the story folder is known.
+ */
+export const setActiveCassette = (cassette: Cassette | undefined): void => {
+  activeCassette = cassette;
+};
+
+export const getActiveCassette = (): Cassette | undefined => activeCassette;
+
+export interface WithCassetteOptions<T> {
+  /** What to save from a live result (default: the result itself) */
+  toRecord?: (result: T) => unknown;
+  /** Rebuild a result from a recorded response (default: the response itself) */
+  fromReplay?: (response: unknown) => T;
+}
+
+/**
+ * Run a call through the active cassette: replay its recorded response,
+ * or call live and record the response. Calls live when no cassette is set.
+ */
+export const withCassette = async <T>(
+  kind: CassetteKind,
+  request: CassetteRequest,
+  live: () => Promise<T>,
+  options: WithCassetteOptions<T> = {}
+): Promise<T> => {
+  const { toRecord = (result: T) => result, fromReplay = (response: unknown) => response as T } = options;
+  const cassette = activeCassette;
+  if (cassette?.mode === 'replay') {
+    return fromReplay(cassette.replay(kind, request));
+  }
+  const result = await live();
+  await cassette?.record(kind, request, toRecord(result));
+  return result;
+};
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import { buildEpub, buildEpubPages, buildPageXhtml, getEpubViewport } from './epub-export';
+import type { ComposedStory, RenderedBook } from '../schemas';
+import { DEFAULT_TEXT_STYLE } from './text-compositor';
+
+const mockStory: ComposedStory = {
+  title: 'Otto & the Moon',
+  storyArc: 'A test adventure',
+  setting: 'Test land',
+  ageRange: { min: 3, max: 6 },
+  pageCount: 2,
+  characters: [{ name: 'Otto', description: 'A small otter', traits: [], notes: [] }],
+  interests: [],
+  plotBeats: [
+    { purpose: 'setup', description: 'Otto looks up' },
+    { purpose: 'conflict', description: 'The moon is gone' },
+    { purpose: 'payoff', description: 'The moon returns' },
+  ],
+  allowCreativeLiberty: true,
+  prose: {
+    logline: 'An otter searches for the moon',
+    theme: 'Patience',
+    pages: [
+      { summary: 'Start', text: 'Otto looked up.\n\nWhere was the <moon>?', imageConcept: 'Otto on a rock' },
+      { summary: 'End', text: 'There it was!', imageConcept: 'Moon rising over the river' },
+    ],
+  },
+  visuals: {
+    style: {
+      art_style: { genre: [], medium: [], technique: [] },
+      setting: { landmarks: [], diegetic_lights: [] },
+    },
+    illustratedPages: [
+      {
+        pageNumber: 1,
+        beats: [
+          { order: 1, purpose: 'setup', summary: 'Otto sits on a rock.', emotion: 'curious', characters: [], shot: { size: 'wide', angle: 'eye_level' } },
+          { order: 2, purpose: 'build', summary: 'He squints at the "empty" sky.', emotion: 'puzzled', characters: [], shot: { size: 'close_up', angle: 'low_angle_hero' } },
+        ],
+      },
+    ],
+  },
+};
+
+const mockBook: RenderedBook = {
+  storyTitle: 'Otto & the Moon',
+  ageRange: { min: 3, max: 6 },
+  format: 'landscape',
+  pages: [
+    { pageNumber: 1, url: 'assets/page-1.png' },
+    { pageNumber: 2, url: 'assets/page-2.png' },
+  ],
+  createdAt: '2024-11-26T14:30:52.000Z',
+};
+
+const images = [
+  { pageNumber: 2, data: new Uint8Array([2]) },
+  { pageNumber: 1, data: new Uint8Array([1]) },
+];
+
+describe('buildEpubPages', () => {
+  it('uses beat summaries as alt text', () => {
+    const [page1] = buildEpubPages(mockStory, [1]);
+    expect(page1?.alt).toBe('Otto sits on a rock. He squints at the "empty" sky.');
+    expect(page1?.text).toBe('Otto looked up.\n\nWhere was the <moon>?');
+  });
+
+  it('falls back to imageConcept when a page has no beats', () => {
+    const [page2] = buildEpubPages(mockStory, [2]);
+    expect(page2?.alt).toBe('Moon rising over the river');
+  });
+});
+
+describe('getEpubViewport', () => {
+  it('uses the trim size of the format', () => {
+    expect(getEpubViewport('landscape')).toEqual({ width: 2700, height: 2100 });
+  });
+});
+
+describe('buildPageXhtml', () => {
+  it('renders escaped text paragraphs over the illustration', () => {
+    const [page] = buildEpubPages(mockStory, [1]);
+    const xhtml = buildPageXhtml(page!, { width: 2700, height: 2100 }, 'en');
+
+    expect(xhtml).toContain('<meta name="viewport" content="width=2700, height=2100"/>');
+    expect(xhtml).toContain('<p>Otto looked up.</p>');
+    expect(xhtml).toContain('<p>Where was the &lt;moon&gt;?</p>');
+    expect(xhtml).toContain('alt="Otto sits on a rock. He squints at the &quot;empty&quot; sky."');
+  });
+});
+
+describe('buildEpub', () => {
+  const files = unzipSync(buildEpub({ story: mockStory, book: mockBook, images, identifier: 'urn:uuid:test' }));
+
+  it('writes the mimetype entry first', () => {
+    expect(Object.keys(files)[0]).toBe('mimetype');
+    expect(strFromU8(files['mimetype']!)).toBe('application/epub+zip');
+  });
+
+  it('includes container, package, nav, pages and images', () => {
+    expect(Object.keys(files)).toEqual(expect.arrayContaining([
+      'META-INF/container.xml',
+      'OEBPS/content.opf',
+      'OEBPS/nav.xhtml',
+      'OEBPS/style.css',
+      'OEBPS/pages/page-1.xhtml',
+      'OEBPS/pages/page-2.xhtml',
+      'OEBPS/images/page-1.png',
+      'OEBPS/images/page-2.png',
+    ]));
+  });
+
+  it('declares fixed-layout metadata from story title and age range', () => {
+    const opf = strFromU8(files['OEBPS/content.opf']!);
+    expect(opf).toContain('<dc:title>Otto &amp; the Moon</dc:title>');
+    expect(opf).toContain('<dc:identifier id="book-id">urn:uuid:test</dc:identifier>');
+    expect(opf).toContain('<meta property="schema:typicalAgeRange">3-6</meta>');
+    expect(opf).toContain('<meta property="rendition:layout">pre-paginated</meta>');
+    expect(opf).toMatch(/<meta property="dcterms:modified">\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z<\/meta>/);
+  });
+
+  it('pairs pages into spreads starting on the right', () => {
+    const opf = strFromU8(files['OEBPS/content.opf']!);
+    expect(opf).toContain('<itemref idref="page-1" properties="page-spread-right"/>');
+    expect(opf).toContain('<itemref idref="page-2" properties="page-spread-left"/>');
+  });
+
+  it('escapes the language in attributes and metadata', () => {
+    const escaped = unzipSync(buildEpub({ story: mockStory, book: mockBook, images, identifier: 'urn:uuid:test', language: 'en"<x' }));
+    expect(strFromU8(escaped['OEBPS/content.opf']!)).toContain('<dc:language>en&quot;&lt;x</dc:language>');
+    expect(strFromU8(escaped['OEBPS/pages/page-1.xhtml']!)).toContain('xml:lang="en&quot;&lt;x"');
+  });
+
+  it('letters speech bubbles and sound effects as inline SVG when given a lettering style', () => {
+    const story: ComposedStory = {
+      ...mockStory,
+      visuals: {
+        ...mockStory.visuals,
+        illustratedPages: [{ ...mockStory.visuals.illustratedPages[0]!, dialogue: [{ speaker: 'Otto', text: 'Moon?', grid: 'top' }], soundEffects: [{ text: 'SPLASH', grid: 'bottom' }] }],
+      },
+    };
+    const lettered = unzipSync(buildEpub({ story, book: mockBook, images, identifier: 'urn:uuid:test', letteringStyle: DEFAULT_TEXT_STYLE }));
+    const page1 = strFromU8(lettered['OEBPS/pages/page-1.xhtml']!);
+    const opf = strFromU8(lettered['OEBPS/content.opf']!);
+
+    expect(page1).toContain('<svg xmlns="http://www.w3.org/2000/svg" class="lettering"');
+    expect(page1).toContain('Moon?');
+    expect(page1).toContain('SPLASH');
+    expect(strFromU8(lettered['OEBPS/pages/page-2.xhtml']!)).not.toContain('<svg');
+    // Pages with inline SVG must say so in the manifest
+    expect(opf).toContain('<item id="page-1" href="pages/page-1.xhtml" media-type="application/xhtml+xml" properties="svg"/>');
+    expect(opf).toContain('<item id="page-2" href="pages/page-2.xhtml" media-type="application/xhtml+xml"/>');
+    // Without a lettering style (books with text in the art), nothing is added
+    expect(strFromU8(files['OEBPS/pages/page-1.xhtml']!)).not.toContain('<svg');
+  });
+});
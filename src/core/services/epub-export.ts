@@ -0,0 +1,247 @@
+import { randomUUID } from 'crypto';
+import { zipSync, strToU8, type Zippable } from 'fflate';
+import { BOOK_FORMATS, type BookFormatKey, type ComposedStory, type RenderedBook } from '../schemas';
+import { storyLetteringSvg, type TextStyle } from './text-compositor';
+
+/**
+ * Fixed-layout EPUB 3 export.
+ *
+ * Each book page becomes one pre-paginated XHTML document: the illustration
+ * fills the viewport and the prose sits on top as real, selectable text.
+ * Beat summaries become the image alt text for screen readers. For text-free
+ * (composited) illustrations, speech bubbles and sound effects are inline SVG.
+ */
+
+export interface EpubPageImage {
+  pageNumber: number;
+  /** PNG file contents */
+  data: Uint8Array;
+}
+
+export interface EpubInput {
+  story: ComposedStory;
+  book: RenderedBook;
+  images: EpubPageImage[];
+  /** Override the book's format (drives the viewport size) */
+  format?: BookFormatKey;
+  /** BCP 47 language tag (default: en) */
+  language?: string;
+  /** Stable identifier; a random urn:uuid is generated if omitted */
+  identifier?: string;
+  /** Letter dialogue and sound effects over the art in this style (for composited books) */
+  letteringStyle?: TextStyle;
+}
+
+export interface EpubPage {
+  pageNumber: number;
+  text: string;
+  alt: string;
+  /** Inline SVG with the page's speech bubbles and sound effects */
+  lettering?: string;
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const pageFile = (pageNumber: number): string => `page-${pageNumber}.xhtml`;
+const imageFile = (pageNumber: number): string => `page-${pageNumber}.png`;
+
+/**
+ * Collect per-page text and alt text from the composed story.
+ * Alt text comes from beat summaries, falling back to the prose imageConcept.
+ */
+export const buildEpubPages = (story: ComposedStory, pageNumbers: number[]): EpubPage[] =>
+  pageNumbers.map((pageNumber) => {
+    const prosePage = story.prose.pages[pageNumber - 1];
+    const illustratedPage = story.visuals.illustratedPages.find(p => p.pageNumber === pageNumber);
+    const beatSummaries = illustratedPage?.beats.map(b => b.summary).join(' ');
+
+    return {
+      pageNumber,
+      text: prosePage?.text ?? '',
+      alt: beatSummaries || prosePage?.imageConcept || `Illustration for page ${pageNumber}`,
+    };
+  });
+
+/** Viewport in CSS pixels - trim size of the format (no bleed on screen) */
+export const getEpubViewport = (format: BookFormatKey): { width: number; height: number } => ({
+  width: BOOK_FORMATS[format].trimWidth,
+  height: BOOK_FORMATS[format].trimHeight,
+});
+
+export const buildPageXhtml = (
+  page: EpubPage,
+  viewport: { width: number; height: number },
+  language: string
+): string => {
+  const paragraphs = page.text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .map(p => `      <p>${escapeXml(p).replace(/\n/g, '<br/>')}</p>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+  <head>
+    <meta charset="UTF-8"/>
+    <meta name="viewport" content="width=${viewport.width}, height=${viewport.height}"/>
+    <title>Page ${page.pageNumber}</title>
+    <link rel="stylesheet" type="text/css" href="../style.css"/>
+  </head>
+  <body>
+    <div class="page">
+      <img class="illustration" src="../images/${imageFile(page.pageNumber)}" alt="${escapeXml(page.alt)}"/>
+${page.lettering ? `      ${page.lettering}\n` : ''}      <div class="text">
+${paragraphs}
+      </div>
+    </div>
+  </body>
+</html>
+`;
+};
+
+const buildStylesheet = (viewport: { width: number; height: number }): string => `@page { margin: 0; }
+html, body { margin: 0; padding: 0; width: ${viewport.width}px; height: ${viewport.height}px; }
+.page { position: relative; width: ${viewport.width}px; height: ${viewport.height}px; overflow: hidden; }
+.illustration, .lettering { position: absolute; top: 0; left: 0; width: 100%; height: 100%; }
+.illustration { object-fit: cover; }
+.text {
+  position: absolute;
+  left: 6%;
+  right: 6%;
+  bottom: 5%;
+  padding: 2% 3%;
+  background: rgba(255, 255, 255, 0.8);
+  border-radius: 24px;
+  font-family: serif;
+  font-size: ${Math.round(viewport.height / 28)}px;
+  line-height: 1.4;
+  color: #222;
+}
+.text p { margin: 0 0 0.4em 0; }
+`;
+
+const buildContainerXml = (): string => `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+const buildNavXhtml = (title: string, pages: EpubPage[], language: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+  <head>
+    <meta charset="UTF-8"/>
+    <title>${escapeXml(title)}</title>
+  </head>
+  <body>
+    <nav epub:type="toc" id="toc">
+      <h1>${escapeXml(title)}</h1>
+      <ol>
+${pages.map(p => `        <li><a href="pages/${pageFile(p.pageNumber)}">Page ${p.pageNumber}</a></li>`).join('\n')}
+      </ol>
+    </nav>
+    <nav epub:type="page-list" hidden="">
+      <ol>
+${pages.map(p => `        <li><a href="pages/${pageFile(p.pageNumber)}">${p.pageNumber}</a></li>`).join('\n')}
+      </ol>
+    </nav>
+  </body>
+</html>
+`;
+
+export interface PackageMetadata {
+  identifier: string;
+  title: string;
+  language: string;
+  ageRange: { min: number; max: number };
+  description?: string;
+  modified: string;
+}
+
+export const buildPackageOpf = (metadata: PackageMetadata, pages: EpubPage[]): string => {
+  const manifestPages = pages.map(p => [
+    `    <item id="page-${p.pageNumber}" href="pages/${pageFile(p.pageNumber)}" media-type="application/xhtml+xml"${p.lettering ? ' properties="svg"' : ''}/>`,
+    `    <item id="img-${p.pageNumber}" href="images/${imageFile(p.pageNumber)}" media-type="image/png"${p === pages[0] ? ' properties="cover-image"' : ''}/>`,
+  ].join('\n')).join('\n');
+
+  // Alternate left/right so two-page spreads pair correctly (page 1 is a right-hand page)
+  const spine = pages
+    .map((p, i) => `    <itemref idref="page-${p.pageNumber}" properties="page-spread-${i % 2 === 0 ? 'right' : 'left'}"/>`)
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(metadata.language)}" prefix="rendition: http://www.idpf.org/vocab/rendition/# schema: http://schema.org/">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(metadata.identifier)}</dc:identifier>
+    <dc:title>${escapeXml(metadata.title)}</dc:title>
+    <dc:language>${escapeXml(metadata.language)}</dc:language>
+${metadata.description ? `    <dc:description>${escapeXml(metadata.description)}</dc:description>\n` : ''}    <meta property="dcterms:modified">${metadata.modified}</meta>
+    <meta property="schema:typicalAgeRange">${metadata.ageRange.min}-${metadata.ageRange.max}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">auto</meta>
+    <meta property="rendition:spread">landscape</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${manifestPages}
+  </manifest>
+  <spine>
+${spine}
+  </spine>
+</package>
+`;
+};
+
+/**
+ * Build a fixed-layout EPUB 3 archive.
+ * The mimetype entry is written first and uncompressed, as the spec requires.
+ */
+export const buildEpub = (input: EpubInput): Uint8Array => {
+  const { story, book, images, language = 'en', letteringStyle } = input;
+  const format = input.format ?? book.format;
+  const viewport = getEpubViewport(format);
+
+  const sortedImages = [...images].sort((a, b) => a.pageNumber - b.pageNumber);
+  const pages = buildEpubPages(story, sortedImages.map(i => i.pageNumber)).map((page): EpubPage => ({
+    ...page,
+    lettering: letteringStyle && storyLetteringSvg(story, page.pageNumber, format, letteringStyle),
+  }));
+
+  const metadata: PackageMetadata = {
+    identifier: input.identifier ?? `urn:uuid:${randomUUID()}`,
+    title: book.storyTitle,
+    language,
+    ageRange: book.ageRange,
+    description: story.prose.logline,
+    // dcterms:modified must be CCYY-MM-DDThh:mm:ssZ (no milliseconds)
+    modified: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+  };
+
+  const files: Zippable = {
+    mimetype: [strToU8('application/epub+zip'), { level: 0 }],
+    'META-INF/container.xml': strToU8(buildContainerXml()),
+    'OEBPS/content.opf': strToU8(buildPackageOpf(metadata, pages)),
+    'OEBPS/nav.xhtml': strToU8(buildNavXhtml(book.storyTitle, pages, language)),
+    'OEBPS/style.css': strToU8(buildStylesheet(viewport)),
+  };
+
+  for (const page of pages) {
+    files[`OEBPS/pages/${pageFile(page.pageNumber)}`] = strToU8(buildPageXhtml(page, viewport, language));
+  }
+  for (const image of sortedImages) {
+    // PNGs are already compressed
+    files[`OEBPS/images/${imageFile(image.pageNumber)}`] = [image.data, { level: 0 }];
+  }
+
+  return zipSync(files);
+};
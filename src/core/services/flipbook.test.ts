@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { buildFlipbookHtml, groupIntoSpreads } from './flipbook';
+import type { ComposedStory, RenderedBook } from '../schemas';
+import { DEFAULT_TEXT_STYLE } from './text-compositor';
+
+const mockStory: ComposedStory = {
+  title: 'Test Story',
+  storyArc: 'A test adventure',
+  setting: 'Test land',
+  ageRange: { min: 4, max: 8 },
+  pageCount: 3,
+  characters: [{ name: 'Hero', description: 'The main character', traits: [], notes: [] }],
+  interests: [],
+  plotBeats: [
+    { purpose: 'setup', description: 'Hero starts journey' },
+    { purpose: 'conflict', description: 'Hero faces challenge' },
+    { purpose: 'payoff', description: 'Hero succeeds' },
+  ],
+  allowCreativeLiberty: true,
+  prose: {
+    logline: 'A hero saves the day',
+    theme: 'Courage',
+    pages: [
+      { summary: 'Page 1', text: 'Once upon a <time>...', imageConcept: 'Hero standing' },
+      { summary: 'Page 2', text: 'Trouble came.', imageConcept: 'Storm' },
+      { summary: 'Page 3', text: 'The end.', imageConcept: 'Hero celebrating' },
+    ],
+  },
+  visuals: {
+    style: {
+      art_style: { genre: [], medium: [], technique: [] },
+      setting: { landmarks: [], diegetic_lights: [] },
+    },
+    illustratedPages: [
+      {
+        pageNumber: 1,
+        beats: [{
+          order: 1,
+          purpose: 'setup',
+          summary: 'Hero stands on a hill',
+          emotion: 'determined',
+          characters: [{ id: 'Hero', expression: 'smiling', pose: 'hands on hips', focus: 'primary' }],
+          shot: { size: 'wide', angle: 'low_angle_hero', layout: 'full_bleed_single' },
+        }],
+      },
+    ],
+  },
+};
+
+const mockBook: RenderedBook = {
+  storyTitle: 'Test Story',
+  ageRange: { min: 4, max: 8 },
+  format: 'square-large',
+  pages: [
+    { pageNumber: 1, url: 'https://example.com/page1.png' },
+    { pageNumber: 2, url: 'https://example.com/page2.png' },
+    { pageNumber: 3, url: 'https://example.com/page3.png' },
+  ],
+  createdAt: '2024-11-26T14:30:52.000Z',
+};
+
+describe('groupIntoSpreads', () => {
+  it('puts page 1 alone on the right', () => {
+    expect(groupIntoSpreads([1, 2, 3, 4])).toEqual([[null, 1], [2, 3], [4, null]]);
+  });
+
+  it('handles empty input', () => {
+    expect(groupIntoSpreads([])).toEqual([]);
+  });
+});
+
+describe('buildFlipbookHtml', () => {
+  const html = buildFlipbookHtml({
+    story: mockStory,
+    book: mockBook,
+    imageSources: { 1: 'assets/page-1.png', 2: 'https://example.com/page2.png' },
+  });
+
+  it('renders one section per spread', () => {
+    expect(html.match(/<section class="spread">/g)).toHaveLength(2);
+  });
+
+  it('includes escaped prose beside each image', () => {
+    expect(html).toContain('<p>Once upon a &lt;time&gt;...</p>');
+    expect(html).toContain('<img src="assets/page-1.png"');
+  });
+
+  it('marks pages without an image source', () => {
+    expect(html).toContain('Not rendered');
+  });
+
+  it('includes beats and shot composition for the direction overlay', () => {
+    expect(html).toContain('Hero stands on a hill');
+    expect(html).toContain('wide · low_angle_hero · full_bleed_single');
+    expect(html).toContain('Hero (primary): smiling, hands on hips');
+  });
+
+  it('is self-contained with inline styles and script', () => {
+    expect(html).toContain('<style>');
+    expect(html).toContain('<script>');
+    expect(html).not.toMatch(/<link|<script src/);
+  });
+
+  it('overlays speech bubbles and sound effects on the art when given a lettering style', () => {
+    const story: ComposedStory = {
+      ...mockStory,
+      visuals: {
+        ...mockStory.visuals,
+        illustratedPages: [{ ...mockStory.visuals.illustratedPages[0]!, dialogue: [{ speaker: 'Hero', text: 'Onward!', grid: 'top' }] }],
+      },
+    };
+    const imageSources = { 1: 'assets/page-1.png', 2: 'https://example.com/page2.png' };
+    const lettered = buildFlipbookHtml({ story, book: mockBook, imageSources, letteringStyle: DEFAULT_TEXT_STYLE });
+
+    expect(lettered).toMatch(/<img src="assets\/page-1.png"[^>]*><svg xmlns="http:\/\/www.w3.org\/2000\/svg" class="lettering"/);
+    expect(lettered).toContain('Onward!');
+    expect(buildFlipbookHtml({ story, book: mockBook, imageSources })).not.toContain('Onward!');
+  });
+});
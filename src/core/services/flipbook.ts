@@ -0,0 +1,203 @@
+import type { ComposedStory, RenderedBook, IllustrationBeat } from '../schemas';
+import { storyLetteringSvg, type TextStyle } from './text-compositor';
+
+/**
+ * Offline HTML flipbook viewer.
+ *
+ * Produces a single index.html with inline CSS and JS (no network access needed).
+ * Pages are shown as two-page spreads with the prose beside each illustration.
+ * Arrow keys / space turn pages; "d" toggles the art-direction overlay showing
+ * each page's beats and shot composition. Text-free (composited) illustrations get
+ * their speech bubbles and sound effects as an SVG overlay.
+ */
+
+export interface FlipbookInput {
+  story: ComposedStory;
+  book: RenderedBook;
+  /** Image src per page number (relative path, URL or data URI) */
+  imageSources: Record<number, string>;
+  /** Letter dialogue and sound effects over the art in this style (for composited books) */
+  letteringStyle?: TextStyle;
+}
+
+interface FlipbookPage {
+  pageNumber: number;
+  text: string;
+  imageSrc?: string;
+  beats: IllustrationBeat[];
+  /** Inline SVG with the page's speech bubbles and sound effects */
+  lettering?: string;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Group page numbers into spreads. Page 1 sits alone on the right,
+ * like the first page of a printed book.
+ */
+export const groupIntoSpreads = (pageNumbers: number[]): Array<[number | null, number | null]> => {
+  const sorted = [...pageNumbers].sort((a, b) => a - b);
+  const spreads: Array<[number | null, number | null]> = [];
+  if (sorted.length === 0) return spreads;
+
+  spreads.push([null, sorted[0]!]);
+  for (let i = 1; i < sorted.length; i += 2) {
+    spreads.push([sorted[i]!, sorted[i + 1] ?? null]);
+  }
+  return spreads;
+};
+
+const renderBeat = (beat: IllustrationBeat): string => {
+  const { size, angle, layout } = beat.shot;
+  const shot = [size, angle, layout].filter(Boolean).join(' · ');
+  const characters = beat.characters.length > 0
+    ? `<div class="beat-characters">${beat.characters.map(c => `${escapeHtml(c.id)} (${escapeHtml(c.focus)}): ${escapeHtml(c.expression)}, ${escapeHtml(c.pose)}`).join('<br>')}</div>`
+    : '';
+
+  return `<li>
+          <div class="beat-head">${beat.order}. ${escapeHtml(beat.purpose)} — <em>${escapeHtml(beat.emotion)}</em></div>
+          <div>${escapeHtml(beat.summary)}</div>
+          <div class="beat-shot">${escapeHtml(shot)}</div>
+          ${characters}
+        </li>`;
+};
+
+const renderPage = (page: FlipbookPage | undefined, side: 'left' | 'right'): string => {
+  if (!page) return `<div class="page page-${side} page-empty"></div>`;
+
+  const paragraphs = page.text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+  const image = page.imageSrc
+    ? `<img src="${escapeHtml(page.imageSrc)}" alt="${escapeHtml(page.beats.map(b => b.summary).join(' '))}">`
+    : '<div class="missing-image">Not rendered</div>';
+
+  return `<div class="page page-${side}">
+      <div class="illustration">${image}${page.imageSrc && page.lettering ? page.lettering : ''}<span class="page-number">${page.pageNumber}</span></div>
+      <div class="prose">${paragraphs}</div>
+      <div class="direction">
+        <h3>Page ${page.pageNumber} direction</h3>
+        <ol>
+        ${page.beats.map(renderBeat).join('\n        ')}
+        </ol>
+      </div>
+    </div>`;
+};
+
+const STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; font-family: Georgia, serif; background: #2b2b30; color: #222; }
+header { display: flex; justify-content: space-between; align-items: center; padding: 12px 24px; color: #eee; font-family: system-ui, sans-serif; }
+header h1 { font-size: 18px; margin: 0; }
+header button { margin-left: 8px; padding: 6px 12px; border: 0; border-radius: 4px; background: #555; color: #fff; cursor: pointer; }
+header button.active { background: #c58b2a; }
+.spread { display: none; justify-content: center; gap: 0; padding: 16px; }
+.spread.current { display: flex; }
+.page { display: flex; flex: 1; max-width: 48vw; background: #fffdf7; gap: 16px; padding: 16px; }
+.page-left { flex-direction: row-reverse; }
+.page-empty { background: transparent; }
+.illustration { position: relative; flex: 3; }
+.illustration img { width: 100%; display: block; }
+.illustration .lettering { position: absolute; top: 0; left: 0; width: 100%; height: 100%; pointer-events: none; }
+.page-number { position: absolute; bottom: 6px; right: 8px; font-size: 12px; background: rgba(255,255,255,.8); padding: 2px 6px; border-radius: 3px; }
+.missing-image { aspect-ratio: 1; display: flex; align-items: center; justify-content: center; background: #ddd; color: #777; }
+.prose { flex: 2; font-size: 18px; line-height: 1.5; align-self: center; }
+.direction { display: none; flex: 2; font-family: system-ui, sans-serif; font-size: 12px; background: #f1ede3; padding: 8px; overflow-y: auto; max-height: 80vh; }
+.direction h3 { margin: 0 0 6px; font-size: 13px; }
+.direction ol { padding-left: 16px; margin: 0; }
+.direction li { margin-bottom: 8px; }
+.beat-head { font-weight: bold; }
+.beat-shot { color: #8a5a00; font-family: monospace; }
+.beat-characters { color: #555; }
+body.show-direction .direction { display: block; }
+body.show-direction .prose { display: none; }
+footer { text-align: center; color: #aaa; font-family: system-ui, sans-serif; font-size: 13px; padding-bottom: 16px; }
+`;
+
+const SCRIPT = `
+(function () {
+  var spreads = document.querySelectorAll('.spread');
+  var indicator = document.getElementById('indicator');
+  var toggle = document.getElementById('toggle-direction');
+  var current = 0;
+  function show(index) {
+    current = Math.max(0, Math.min(spreads.length - 1, index));
+    spreads.forEach(function (s, i) { s.classList.toggle('current', i === current); });
+    indicator.textContent = 'Spread ' + (current + 1) + ' of ' + spreads.length;
+  }
+  function toggleDirection() {
+    var on = document.body.classList.toggle('show-direction');
+    toggle.classList.toggle('active', on);
+  }
+  document.getElementById('prev').addEventListener('click', function () { show(current - 1); });
+  document.getElementById('next').addEventListener('click', function () { show(current + 1); });
+  toggle.addEventListener('click', toggleDirection);
+  document.addEventListener('keydown', function (e) {
+    if (e.key === 'ArrowRight' || e.key === ' ' || e.key === 'PageDown') { e.preventDefault(); show(current + 1); }
+    else if (e.key === 'ArrowLeft' || e.key === 'PageUp') { e.preventDefault(); show(current - 1); }
+    else if (e.key === 'Home') show(0);
+    else if (e.key === 'End') show(spreads.length - 1);
+    else if (e.key === 'd') toggleDirection();
+  });
+  show(0);
+})();
+`;
+
+/**
+ * Build the flipbook index.html
+ */
+export const buildFlipbookHtml = (input: FlipbookInput): string => {
+  const { story, book, imageSources, letteringStyle } = input;
+
+  const pages = new Map<number, FlipbookPage>(
+    book.pages.map(({ pageNumber }) => [pageNumber, {
+      pageNumber,
+      text: story.prose.pages[pageNumber - 1]?.text ?? '',
+      imageSrc: imageSources[pageNumber],
+      beats: story.visuals.illustratedPages.find(p => p.pageNumber === pageNumber)?.beats ?? [],
+      lettering: letteringStyle && storyLetteringSvg(story, pageNumber, book.format, letteringStyle),
+    }])
+  );
+
+  const spreads = groupIntoSpreads([...pages.keys()])
+    .map(([left, right]) => `  <section class="spread">
+    ${renderPage(left === null ? undefined : pages.get(left), 'left')}
+    ${renderPage(right === null ? undefined : pages.get(right), 'right')}
+  </section>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(book.storyTitle)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(book.storyTitle)} <small>(ages ${book.ageRange.min}-${book.ageRange.max}, ${escapeHtml(book.format)})</small></h1>
+  <div>
+    <span id="indicator"></span>
+    <button id="prev">◀</button>
+    <button id="next">▶</button>
+    <button id="toggle-direction" title="Toggle art direction (d)">Art direction</button>
+  </div>
+</header>
+<main>
+${spreads}
+</main>
+<footer>← → to turn pages · d to toggle beats and shot composition</footer>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+};
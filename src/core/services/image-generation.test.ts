@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { generatePageImage, createReplicateClient } from './image-generation';
+import { generatePageImage, createReplicateClient, createReplicateProvider } from './image-generation';
+import { createImageProvider } from './image-provider';
 import { BOOK_FORMATS } from '../schemas';
 import type { PageRenderContext } from '../schemas';
 import type Replicate from 'replicate';
@@ -152,6 +153,33 @@ describe('generatePageImage', () => {
     expect(prompt).toContain('"text":"Luna found an old garden gate."');
   });
 
+  it('asks for no lettering when the text is composited afterwards', async () => {
+    const mockRun = vi.fn().mockResolvedValue(['https://example.com/image.png']);
+    const mockClient = createMockClient(mockRun);
+    const context = { ...minimalContext, page: { ...minimalContext.page, textComposited: true } };
+
+    await generatePageImage(context, BOOK_FORMATS['square-large'], { client: mockClient });
+
+    const prompt = (mockRun.mock.calls[0]?.[1] as { input: { prompt: string } }).input.prompt;
+    expect(prompt).toContain('Do NOT render any text');
+    expect(prompt).not.toContain('Render the page text directly on the image');
+  });
+
+  it('limits lettered bubbles and onomatopoeia to the page\'s dialogue and sound effects', async () => {
+    const mockRun = vi.fn().mockResolvedValue(['https://example.com/image.png']);
+    const mockClient = createMockClient(mockRun);
+    const context = {
+      ...minimalContext,
+      page: { ...minimalContext.page, soundEffects: [{ text: 'CREAK!', grid: 'middle right' }] },
+    };
+
+    await generatePageImage(context, BOOK_FORMATS['square-large'], { client: mockClient });
+
+    const prompt = (mockRun.mock.calls[0]?.[1] as { input: { prompt: string } }).input.prompt;
+    expect(prompt).toContain('only as listed in the page\'s dialogue and soundEffects');
+    expect(prompt).toContain('"text":"CREAK!"');
+  });
+
   it('uses correct aspect ratio for square format', async () => {
     const mockRun = vi.fn().mockResolvedValue(['https://example.com/image.png']);
     const mockClient = createMockClient(mockRun);
@@ -239,3 +267,49 @@ describe('generatePageImage', () => {
     ).rejects.toThrow('Network connection failed');
   });
 });
+
+describe('createReplicateProvider', () => {
+  const createMockClient = (mockRun: ReturnType<typeof vi.fn>) =>
+    ({ run: mockRun }) as unknown as Replicate;
+
+  it('limits reference images per model', () => {
+    expect(createReplicateProvider({ model: 'flux2-dev' }).maxReferenceImages).toBe(4);
+    expect(createReplicateProvider().maxReferenceImages).toBe(14);
+  });
+
+  it('generates sprite sheets with flux2-dev', async () => {
+    const mockRun = vi.fn().mockResolvedValue(['https://example.com/sprite.png']);
+    const provider = createReplicateProvider({ client: createMockClient(mockRun) });
+
+    const result = await provider.generateSpriteSheet('Luna sprite sheet');
+
+    expect(result.url).toBe('https://example.com/sprite.png');
+    expect(mockRun).toHaveBeenCalledWith('black-forest-labs/flux-2-dev', {
+      input: expect.objectContaining({ prompt: 'Luna sprite sheet', aspect_ratio: '16:9' }),
+    });
+  });
+});
+
+describe('createImageProvider', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('defaults to replicate', () => {
+    process.env = { ...originalEnv };
+    delete process.env.BOOKBUG_IMAGE_PROVIDER;
+    expect(createImageProvider().name).toBe('replicate');
+  });
+
+  it('selects the provider from BOOKBUG_IMAGE_PROVIDER', () => {
+    process.env = { ...originalEnv, BOOKBUG_IMAGE_PROVIDER: 'local' };
+    expect(createImageProvider().name).toBe('local');
+  });
+
+  it('rejects unknown providers', () => {
+    process.env = { ...originalEnv, BOOKBUG_IMAGE_PROVIDER: 'dall-e' };
+    expect(() => createImageProvider()).toThrow('Unknown image provider "dall-e"');
+  });
+});
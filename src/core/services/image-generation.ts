@@ -1,12 +1,14 @@
 import Replicate, { type FileOutput } from 'replicate';
 import type { PageRenderContext, BookFormat } from '../schemas';
-import { getAspectRatio } from '../schemas';
+import { getAspectRatio, ASPECT_RATIOS } from '../schemas';
 import { retryWithBackoff } from '../utils/retry';
 import { type Logger, logApiSuccess, logApiError } from '../utils/logger';
 import { promptCondenserAgent } from '../agents/prompt-condenser';
+import { cachedCall } from './cache';
+import type { ImageProvider } from './image-provider';
 
 /**
- * Image generation service using Replicate API.
+ * Image generation service using Replicate API (the default ImageProvider).
  *
  * Supports multiple models:
  * - nano-banana: Google Nano Banana Pro (default)
@@ -20,11 +22,18 @@ const MODEL_IDS: Record<ImageModel, string> = {
   'flux2-dev': 'black-forest-labs/flux-2-dev',
 };
 
+/** Max reference images (image_input / input_images) each model accepts */
+const MODEL_MAX_REFERENCE_IMAGES: Record<ImageModel, number> = {
+  'nano-banana': 14,
+  'flux2-dev': 4,
+};
+
 const DEFAULT_MODEL: ImageModel = 'nano-banana';
+const SPRITE_MODEL: ImageModel = 'flux2-dev';
 const DEFAULT_RESOLUTION = '2K'; // Options: '1K', '2K', '4K' (nano-banana only)
 
 export interface GeneratedPage {
-  /** Temporary URL from Replicate (expires after ~24h) */
+  /** Image URL: temporary Replicate URL (expires after ~24h) or data URI from the local provider */
   url: string;
 }
 
@@ -135,7 +144,7 @@ export const runWithRateLimit = async (
   logger?: Logger
 ): Promise<unknown> => {
   const modelId = MODEL_IDS[model];
-  return retryWithBackoff(
+  const run = () => retryWithBackoff(
     () => client.run(modelId as `${string}/${string}`, { input }),
     {
       maxRetries: 5,
@@ -144,8 +153,19 @@ export const runWithRateLimit = async (
       logger,
     }
   );
+  // FileOutput streams can't be serialized - cassettes and the cache keep the image URL
+  // (temporary Replicate URLs expire after ~24h, so replayed downloads need a fresh recording)
+  return cachedCall('replicate', { model: modelId, input }, run, {
+    toRecord: output => [extractImageUrl(output)],
+    logger,
+  });
 };
 
+const TEXT_ON_IMAGE = 'Render the page text directly on the image. Choose a font that befits the scene. Letter speech bubbles and comic book onomatopoeia only as listed in the page\'s dialogue and soundEffects, at their grid positions - add no others. Position text in a clear area that doesn\'t obscure key visual elements.';
+
+/** The page text, dialogue and sound effects are composited afterwards (text-compositor.ts) */
+const TEXT_COMPOSITED = 'Do NOT render any text, letters, captions, speech bubbles or lettering. The page text, dialogue and sound effects are added to the illustration afterwards: keep the negative space described in the shot staging clear and uncluttered for them.';
+
 /** Build the full prompt with rendering instructions - style at top for emphasis */
 const buildPrompt = (context: PageRenderContext): string => {
   const { art_style } = context.style;
@@ -160,7 +180,7 @@ Technique: ${technique}
 
 Generate this page illustration in the EXACT style above.
 
-Render the page text directly on the image. Choose a font that befits the scene. You may make comic book onomatopoeia where appropriate. Position text in a clear area that doesn't obscure key visual elements.
+${context.page.textComposited ? TEXT_COMPOSITED : TEXT_ON_IMAGE}
 
 MUST render in ${medium} style with ${technique}.
 
@@ -205,12 +225,11 @@ const buildModelInput = (
       output_format: 'png',
       go_fast: true, // Slightly lower quality but faster/cheaper
     };
-    // Flux 2 supports up to 4 reference images
     // Skip expired Replicate delivery URLs (they 404 after ~24h)
     // TODO: Regenerate expired character images instead of skipping (#90)
     const validImages = referenceImages.filter(url => !url.includes('replicate.delivery'));
     if (validImages.length > 0) {
-      input.input_images = validImages.slice(0, 4);
+      input.input_images = validImages.slice(0, MODEL_MAX_REFERENCE_IMAGES['flux2-dev']);
     }
     return input;
   }
@@ -223,7 +242,7 @@ const buildModelInput = (
     output_format: 'png',
   };
   if (referenceImages.length > 0) {
-    input.image_input = referenceImages;
+    input.image_input = referenceImages.slice(0, MODEL_MAX_REFERENCE_IMAGES['nano-banana']);
   }
   return input;
 };
@@ -269,3 +288,32 @@ export const generatePageImage = async (
     throw error;
   }
 };
+
+/**
+ * Replicate ImageProvider. The client is created on first use so selecting
+ * the provider doesn't require REPLICATE_API_TOKEN until an image is generated.
+ */
+export const createReplicateProvider = (
+  options: { client?: Replicate; model?: ImageModel } = {}
+): ImageProvider => {
+  const { model = DEFAULT_MODEL } = options;
+  let client = options.client;
+  const getClient = (): Replicate => (client ??= createReplicateClient());
+
+  return {
+    name: 'replicate',
+    supportedAspectRatios: ASPECT_RATIOS,
+    maxReferenceImages: MODEL_MAX_REFERENCE_IMAGES[model],
+    generatePage: (context, format, { heroPageUrl, logger } = {}) =>
+      generatePageImage(context, format, { heroPageUrl, logger, model, client: getClient() }),
+    generateSpriteSheet: async (prompt, { aspectRatio = '16:9', logger } = {}) => {
+      const output = await runWithRateLimit(
+        getClient(),
+        SPRITE_MODEL,
+        { prompt, aspect_ratio: aspectRatio, output_format: 'png', go_fast: true },
+        logger
+      );
+      return { url: extractImageUrl(output) };
+    },
+  };
+};
@@ -0,0 +1,77 @@
+import type { PageRenderContext, BookFormat, AspectRatio } from '../schemas';
+import { getAspectRatio } from '../schemas';
+import { getImageProviderName, type ImageProviderName } from '../config';
+import type { Logger } from '../utils/logger';
+import { createReplicateProvider, type GeneratedPage, type ImageModel } from './image-generation';
+import { createLocalImageProvider } from './local-image-provider';
+import { createOfflineImageProvider } from './offline-image-provider';
+
+/**
+ * Image Provider
+ *
+ * Backend-agnostic image generation used by renderPage and characterDesignAgent.
+ * Implementations:
+ * - replicate: hosted Nano Banana / Flux models (image-generation.ts)
+ * - local: Automatic1111-compatible HTTP API (local-image-provider.ts)
+ * - offline: in-process placeholder PNGs (offline-image-provider.ts)
+ */
+
+export interface GeneratePageOptions {
+  /** Page 1 image, passed as a style reference when the provider accepts references */
+  heroPageUrl?: string;
+  logger?: Logger;
+}
+
+export interface GenerateSpriteSheetOptions {
+  /** Sprite sheets are a horizontal strip (default: 16:9) */
+  aspectRatio?: AspectRatio;
+  logger?: Logger;
+}
+
+export interface ImageProvider {
+  name: ImageProviderName;
+  /** Aspect ratios the backend can generate */
+  supportedAspectRatios: readonly AspectRatio[];
+  /** Max reference images (hero page + sprite sheets) sent per page; 0 = none */
+  maxReferenceImages: number;
+  /** Generate a page illustration from its render context */
+  generatePage(context: PageRenderContext, format: BookFormat, options?: GeneratePageOptions): Promise<GeneratedPage>;
+  /** Generate a character sprite sheet from a prompt */
+  generateSpriteSheet(prompt: string, options?: GenerateSpriteSheetOptions): Promise<GeneratedPage>;
+}
+
+export interface CreateImageProviderOptions {
+  /** Provider name (default: BOOKBUG_IMAGE_PROVIDER, else replicate) */
+  name?: ImageProviderName;
+  /** Replicate model for pages (ignored by the local provider) */
+  model?: ImageModel;
+}
+
+/**
+ * Create the configured image provider
+ */
+export const createImageProvider = (options: CreateImageProviderOptions = {}): ImageProvider => {
+  const { name = getImageProviderName(), model } = options;
+  switch (name) {
+    case 'local':
+      return createLocalImageProvider();
+    case 'offline':
+      return createOfflineImageProvider();
+    case 'replicate':
+      return createReplicateProvider({ model });
+  }
+};
+
+/**
+ * Get the aspect ratio for a format, throwing if the provider can't generate it
+ */
+export const resolveAspectRatio = (provider: ImageProvider, format: BookFormat): AspectRatio => {
+  const aspectRatio = getAspectRatio(format);
+  if (!provider.supportedAspectRatios.includes(aspectRatio)) {
+    throw new Error(
+      `Image provider "${provider.name}" does not support aspect ratio ${aspectRatio} (${format.name}). ` +
+      `Supported: ${provider.supportedAspectRatios.join(', ')}`
+    );
+  }
+  return aspectRatio;
+};
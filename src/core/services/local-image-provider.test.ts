@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createLocalImageProvider, getLocalDimensions, buildLocalPagePrompt } from './local-image-provider';
+import { BOOK_FORMATS } from '../schemas';
+import type { PageRenderContext } from '../schemas';
+
+vi.mock('../utils/retry', () => ({
+  retryWithBackoff: <T>(fn: () => Promise<T>) => fn(),
+}));
+
+const context: PageRenderContext = {
+  storyTitle: 'The Magic Garden',
+  style: {
+    art_style: { genre: ['whimsical'], medium: ['watercolor'], technique: ['soft edges'] },
+    setting: { landmarks: [], diegetic_lights: [] },
+  },
+  characterDesigns: [],
+  page: {
+    pageNumber: 1,
+    text: 'Luna found an old garden gate.',
+    beats: [{
+      order: 1,
+      purpose: 'setup',
+      summary: 'Luna peers through a mossy gate',
+      emotion: 'curious',
+      characters: [],
+      shot: { size: 'wide', angle: 'eye_level' },
+    }],
+  },
+};
+
+describe('getLocalDimensions', () => {
+  it('keeps square images square', () => {
+    expect(getLocalDimensions('1:1')).toEqual({ width: 1024, height: 1024 });
+  });
+
+  it('snaps both sides to multiples of 64', () => {
+    expect(getLocalDimensions('4:3')).toEqual({ width: 1024, height: 768 });
+    expect(getLocalDimensions('16:9')).toEqual({ width: 1024, height: 576 });
+    expect(getLocalDimensions('2:3', 768)).toEqual({ width: 512, height: 768 });
+  });
+});
+
+describe('buildLocalPagePrompt', () => {
+  it('leads with style and uses beat summaries for the scene', () => {
+    const prompt = buildLocalPagePrompt(context);
+    expect(prompt.startsWith('whimsical, watercolor, soft edges')).toBe(true);
+    expect(prompt).toContain('Luna peers through a mossy gate');
+    expect(prompt).not.toContain('{');
+  });
+
+  it('falls back to page text without beats', () => {
+    const prompt = buildLocalPagePrompt({ ...context, page: { pageNumber: 1, text: 'Luna found a gate.' } });
+    expect(prompt).toContain('Luna found a gate.');
+  });
+});
+
+describe('createLocalImageProvider', () => {
+  const originalFetch = global.fetch;
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    global.fetch = mockFetch as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('posts to the txt2img endpoint and returns a data URI', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ images: ['iVBORw0KGgo='] }) });
+    const provider = createLocalImageProvider({ baseUrl: 'http://gpu-box:7860' });
+
+    const result = await provider.generatePage(context, BOOK_FORMATS['landscape']);
+
+    expect(result.url).toBe('data:image/png;base64,iVBORw0KGgo=');
+    const [url, init] = mockFetch.mock.calls[0] as [string, { body: string }];
+    expect(url).toBe('http://gpu-box:7860/sdapi/v1/txt2img');
+    expect(JSON.parse(init.body)).toMatchObject({ width: 1024, height: 768, batch_size: 1 });
+  });
+
+  it('generates sprite sheets from the given prompt', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ images: ['abc'] }) });
+    const provider = createLocalImageProvider({ baseUrl: 'http://gpu-box:7860' });
+
+    await provider.generateSpriteSheet('Luna sprite sheet');
+
+    const [, init] = mockFetch.mock.calls[0] as [string, { body: string }];
+    expect(JSON.parse(init.body)).toMatchObject({ prompt: 'Luna sprite sheet', width: 1024, height: 576 });
+  });
+
+  it('does not accept reference images', () => {
+    expect(createLocalImageProvider().maxReferenceImages).toBe(0);
+  });
+
+  it('throws on HTTP errors', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 500 });
+    const provider = createLocalImageProvider({ baseUrl: 'http://gpu-box:7860' });
+
+    await expect(provider.generatePage(context, BOOK_FORMATS['square-large'])).rejects.toThrow('HTTP 500');
+  });
+
+  it('throws when no images are returned', async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ images: [] }) });
+    const provider = createLocalImageProvider({ baseUrl: 'http://gpu-box:7860' });
+
+    await expect(provider.generatePage(context, BOOK_FORMATS['square-large'])).rejects.toThrow('no images returned');
+  });
+});
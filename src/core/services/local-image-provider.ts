@@ -0,0 +1,108 @@
+import type { PageRenderContext, AspectRatio } from '../schemas';
+import { ASPECT_RATIOS } from '../schemas';
+import { getLocalImageUrl } from '../config';
+import { retryWithBackoff } from '../utils/retry';
+import { type Logger, logApiSuccess, logApiError } from '../utils/logger';
+import type { ImageProvider } from './image-provider';
+import { resolveAspectRatio } from './image-provider';
+
+/**
+ * Local image generation via an Automatic1111-compatible HTTP API
+ * (POST /sdapi/v1/txt2img, served by A1111, Forge, SD.Next and ComfyUI bridges).
+ *
+ * Text-to-image only: reference images are not sent, and images come back
+ * as base64 PNGs that are returned as data URIs.
+ */
+
+const TXT2IMG_PATH = '/sdapi/v1/txt2img';
+const DEFAULT_LONG_SIDE = 1024;
+const DEFAULT_STEPS = 30;
+const NEGATIVE_PROMPT = 'text, letters, watermark, signature, blurry, deformed hands, extra limbs, photorealistic';
+
+export interface LocalImageProviderOptions {
+  /** Server base URL (default: BOOKBUG_LOCAL_IMAGE_URL, else http://127.0.0.1:7860) */
+  baseUrl?: string;
+  /** Sampling steps per image */
+  steps?: number;
+  /** Pixel length of the longer image side */
+  longSide?: number;
+}
+
+interface Txt2ImgResponse {
+  images?: string[];
+}
+
+/**
+ * Pixel dimensions for an aspect ratio, long side fixed, both sides multiples of 64
+ */
+export const getLocalDimensions = (
+  aspectRatio: AspectRatio,
+  longSide: number = DEFAULT_LONG_SIDE
+): { width: number; height: number } => {
+  const [w = 1, h = 1] = aspectRatio.split(':').map(Number);
+  const scale = longSide / Math.max(w, h);
+  const snap = (n: number) => Math.max(64, Math.round((n * scale) / 64) * 64);
+  return { width: snap(w), height: snap(h) };
+};
+
+/** Short plain-text prompt (Stable Diffusion models weight early tokens, and can't parse JSON) */
+export const buildLocalPagePrompt = (context: PageRenderContext): string => {
+  const { art_style } = context.style;
+  const style = [...(art_style.genre ?? []), ...(art_style.medium ?? []), ...(art_style.technique ?? [])];
+  const scene = (context.page.beats ?? []).map(beat => beat.summary).join('. ') || context.page.text;
+
+  return [
+    style.length > 0 ? style.join(', ') : 'childrens-illustration, digital illustration',
+    "children's picture book illustration",
+    scene,
+  ].filter(Boolean).join('. ');
+};
+
+/** Connection failures and 5xx responses are worth retrying (model still loading, server busy) */
+const isRetryableError = (error: unknown): boolean =>
+  error instanceof Error && (error.message.includes('fetch failed') || /HTTP 5\d\d/.test(error.message));
+
+export const createLocalImageProvider = (options: LocalImageProviderOptions = {}): ImageProvider => {
+  const { baseUrl = getLocalImageUrl(), steps = DEFAULT_STEPS, longSide = DEFAULT_LONG_SIDE } = options;
+
+  const txt2img = async (prompt: string, aspectRatio: AspectRatio, logger?: Logger): Promise<{ url: string }> => {
+    const { width, height } = getLocalDimensions(aspectRatio, longSide);
+
+    try {
+      const body = await retryWithBackoff(async () => {
+        const response = await fetch(`${baseUrl}${TXT2IMG_PATH}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ prompt, negative_prompt: NEGATIVE_PROMPT, width, height, steps, batch_size: 1 }),
+        });
+        if (!response.ok) throw new Error(`Local image server returned HTTP ${response.status}`);
+        return response.json() as Promise<Txt2ImgResponse>;
+      }, { shouldRetry: isRetryableError, logger });
+
+      const image = body.images?.[0];
+      if (!image) {
+        throw new Error(`Unexpected output format from local image server at ${baseUrl}: no images returned`);
+      }
+
+      logApiSuccess(logger, 'imageGen');
+      return { url: `data:image/png;base64,${image}` };
+    } catch (error) {
+      logApiError(logger, 'imageGen', error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  };
+
+  const provider: ImageProvider = {
+    name: 'local',
+    supportedAspectRatios: ASPECT_RATIOS,
+    maxReferenceImages: 0,
+    generatePage: (context, format, { logger } = {}) => {
+      const prompt = buildLocalPagePrompt(context);
+      logger?.debug({ pageNumber: context.page.pageNumber, prompt, baseUrl }, 'Preparing local image generation');
+      return txt2img(prompt, resolveAspectRatio(provider, format), logger);
+    },
+    generateSpriteSheet: (prompt, { aspectRatio = '16:9', logger } = {}) => txt2img(prompt, aspectRatio, logger),
+  };
+
+  return provider;
+};
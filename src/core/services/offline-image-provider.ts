@@ -0,0 +1,31 @@
+import { ASPECT_RATIOS } from '../schemas';
+import type { ImageProvider } from './image-provider';
+import { createPlaceholderPng, toPngDataUri } from './placeholder-image';
+
+/**
+ * Offline ImageProvider: placeholder PNGs generated in-process (no network).
+ * Pages match the book format's exact bleed proportions; sprite sheets match
+ * the requested aspect ratio. Returned as data URIs, so they save like real images.
+ */
+
+const LONG_SIDE = 600;
+
+/** Scale a width:height pair so the longer side is LONG_SIDE pixels */
+const scaleToLongSide = (width: number, height: number): { width: number; height: number } => {
+  const scale = LONG_SIDE / Math.max(width, height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+export const createOfflineImageProvider = (): ImageProvider => ({
+  name: 'offline',
+  supportedAspectRatios: ASPECT_RATIOS,
+  maxReferenceImages: 0,
+  generatePage: async (context, format) => {
+    const size = scaleToLongSide(format.bleedWidth, format.bleedHeight);
+    return { url: toPngDataUri(createPlaceholderPng({ ...size, seed: `page-${context.page.pageNumber}` })) };
+  },
+  generateSpriteSheet: async (prompt, { aspectRatio = '16:9' } = {}) => {
+    const [w = 1, h = 1] = aspectRatio.split(':').map(Number);
+    return { url: toPngDataUri(createPlaceholderPng({ ...scaleToLongSide(w, h), seed: prompt })) };
+  },
+});
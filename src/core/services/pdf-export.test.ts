@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { deflateSync } from 'zlib';
+import { PDFDocument, PDFPage, degrees } from 'pdf-lib';
+import {
+  buildInteriorPdf,
+  buildCoverPdf,
+  calculateSpineWidth,
+  checkPageResolution,
+  getCoverDimensions,
+  getPrintDimensions,
+} from './pdf-export';
+import { BOOK_FORMATS } from '../schemas';
+import { DEFAULT_TEXT_STYLE, layoutLettering, layoutText, resolveTextRegion } from './text-compositor';
+
+const crc32 = (buf: Buffer): number => {
+  let crc = ~0;
+  for (const byte of buf) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return ~crc >>> 0;
+};
+
+const chunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+/** Minimal grayscale PNG of the given size */
+const createPng = (width: number, height: number): Buffer => {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 0; // grayscale
+  const rows = Buffer.alloc((width + 1) * height, 0x80);
+  for (let y = 0; y < height; y++) rows[y * (width + 1)] = 0; // filter byte
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', deflateSync(rows)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+describe('getPrintDimensions', () => {
+  it('converts 300dpi pixels to points with 0.125" bleed', () => {
+    const dims = getPrintDimensions(BOOK_FORMATS['square-large']);
+    expect(dims.trimWidth).toBeCloseTo(612); // 8.5"
+    expect(dims.trimHeight).toBeCloseTo(612);
+    expect(dims.bleed).toBeCloseTo(9); // 0.125"
+  });
+});
+
+describe('calculateSpineWidth', () => {
+  it('grows with page count', () => {
+    expect(calculateSpineWidth(100, 'white-60')).toBeGreaterThan(calculateSpineWidth(32, 'white-60'));
+  });
+
+  it('is thicker on coated paper', () => {
+    expect(calculateSpineWidth(48, 'white-80-coated')).toBeGreaterThan(calculateSpineWidth(48, 'white-60'));
+  });
+
+  it('uses pages per inch plus cover allowance', () => {
+    expect(calculateSpineWidth(444, 'white-60')).toBeCloseTo(1.06);
+  });
+});
+
+describe('getCoverDimensions', () => {
+  it('lays out bleed + back + spine + front + bleed', () => {
+    const dims = getCoverDimensions(BOOK_FORMATS['landscape'], 32, 'white-80-coated');
+    expect(dims.width).toBeCloseTo(9 * 2 + 648 * 2 + dims.spineWidth);
+    expect(dims.height).toBeCloseTo(9 * 2 + 504);
+    expect(dims.spineWidth).toBeCloseTo((32 / 370 + 0.06) * 72);
+  });
+});
+
+describe('checkPageResolution', () => {
+  const format = BOOK_FORMATS['square-small'];
+
+  it('returns null when the image covers the bleed area', () => {
+    expect(checkPageResolution(1, { width: 2325, height: 2325 }, format)).toBeNull();
+  });
+
+  it('flags undersized images with effective dpi', () => {
+    const issue = checkPageResolution(3, { width: 2048, height: 2048 }, format);
+    expect(issue).toMatchObject({ pageNumber: 3, requiredWidth: 2325, requiredHeight: 2325 });
+    expect(issue!.effectiveDpi).toBe(264);
+  });
+
+  it('uses the tighter dimension when aspect ratios differ', () => {
+    const issue = checkPageResolution(1, { width: 4000, height: 2000 }, format);
+    expect(issue?.effectiveDpi).toBe(258);
+  });
+});
+
+describe('buildInteriorPdf', () => {
+  it('creates one bleed-sized page per image', async () => {
+    const images = [
+      { pageNumber: 2, data: createPng(8, 8) },
+      { pageNumber: 1, data: createPng(8, 8) },
+    ];
+    const result = await buildInteriorPdf(images, 'square-large', 'Test Book');
+    const doc = await PDFDocument.load(result.pdf);
+
+    expect(doc.getPageCount()).toBe(2);
+    expect(result.pageCount).toBe(2);
+    const size = doc.getPage(0).getSize();
+    expect(size.width).toBeCloseTo(630);
+    expect(size.height).toBeCloseTo(630);
+    expect(doc.getPage(0).getTrimBox().x).toBeCloseTo(9);
+  });
+
+  it('pads odd page counts with a blank page', async () => {
+    const result = await buildInteriorPdf([{ pageNumber: 1, data: createPng(4, 4) }], 'square-small');
+    expect(result.pageCount).toBe(2);
+    expect(result.warnings).toContain('Added a blank final page to make the page count even');
+  });
+
+  it('flags low resolution pages', async () => {
+    const result = await buildInteriorPdf([
+      { pageNumber: 1, data: createPng(4, 4) },
+      { pageNumber: 2, data: createPng(4, 4) },
+    ], 'square-small');
+    expect(result.resolutionIssues.map(i => i.pageNumber)).toEqual([1, 2]);
+  });
+
+  describe('with composited text', () => {
+    const format = BOOK_FORMATS['square-large'];
+    const pageText = (text: string, style = DEFAULT_TEXT_STYLE) => ({ layout: layoutText(text, resolveTextRegion(), format, style), style });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('typesets the page text over the illustration, in points', async () => {
+      const drawText = vi.spyOn(PDFPage.prototype, 'drawText');
+      const text = pageText('Otto found a box.');
+      const result = await buildInteriorPdf([{ pageNumber: 1, data: createPng(8, 8), text }, { pageNumber: 2, data: createPng(8, 8) }], 'square-large');
+
+      expect(result.warnings).toEqual(expect.not.arrayContaining([expect.stringContaining('text')]));
+      expect(drawText).toHaveBeenCalledTimes(1);
+      const [line, options] = drawText.mock.calls[0]!;
+      expect(line).toBe('Otto found a box.');
+      // 300dpi page pixels to 72pt: a 72px font is about 17pt, low on the page (PDF y grows upwards)
+      expect(options?.size).toBeCloseTo(72 * 72 / 300);
+      expect(options?.y).toBeLessThan(630 * 0.32);
+    });
+
+    it('draws the drop cap and a contrast ring for outlined text', async () => {
+      const drawText = vi.spyOn(PDFPage.prototype, 'drawText');
+      const style = { ...DEFAULT_TEXT_STYLE, box: false as const, outline: { color: '#000', width: 4 }, dropCap: { lines: 2 } };
+      const text = pageText('Once upon a time there was a very small dragon who loved to read books about knights and castles.', style);
+      await buildInteriorPdf([{ pageNumber: 1, data: createPng(8, 8), text }], 'square-large');
+
+      const drawn = drawText.mock.calls.map(([value]) => value);
+      expect(drawn.filter(value => value === 'O')).toHaveLength(9);
+      expect(drawn).toContain(text.layout.lines[0]);
+    });
+
+    it('letters speech bubbles and sound effects under the page text', async () => {
+      const drawText = vi.spyOn(PDFPage.prototype, 'drawText');
+      const drawSvgPath = vi.spyOn(PDFPage.prototype, 'drawSvgPath');
+      const lettering = layoutLettering({
+        format,
+        dialogue: [{ speaker: 'Otto', text: 'Hello!', grid: 'top left' }, { speaker: 'Otto', text: 'Hmm', grid: 'top right', kind: 'thought' }],
+        soundEffects: [{ text: 'SPLASH!', grid: 'middle' }],
+      });
+      const result = await buildInteriorPdf([{ pageNumber: 1, data: createPng(8, 8), text: { ...pageText('Otto jumped.'), lettering } }], 'square-large');
+
+      expect(result.warnings).toEqual(expect.not.arrayContaining([expect.stringContaining('lettering')]));
+      const drawn = drawText.mock.calls.map(([value]) => value);
+      // Sound effect with its outline ring, then the bubbles, then the page text on top
+      expect(drawn).toEqual([...Array<string>(9).fill('SPLASH!'), 'Hello!', 'Hmm', 'Otto jumped.']);
+      expect(drawText.mock.calls[0]![1]?.rotate).toEqual(degrees(8));
+      // Speech: outlined tail, bubble, tail fill. Thought: bubble and 3 circles. Then the text panel
+      expect(drawSvgPath).toHaveBeenCalledTimes(3 + 4 + 1);
+      // A bubble top left stays on the upper left of the page
+      const hello = drawText.mock.calls[9]![1]!;
+      expect(hello.x).toBeLessThan(630 / 2);
+      expect(hello.y).toBeGreaterThan(630 / 2);
+    });
+
+    it('leaves off lettering the PDF font cannot draw, with a warning', async () => {
+      const lettering = layoutLettering({ format, dialogue: [{ speaker: 'Otto', text: 'こんにちは', grid: 'top' }], soundEffects: [{ text: 'BOOM', grid: 'middle' }] });
+      const result = await buildInteriorPdf([{ pageNumber: 1, data: createPng(8, 8), text: { ...pageText('Otto waved.'), lettering } }], 'square-large');
+      expect(result.warnings).toContain('Page 1 lettering has characters the PDF font cannot draw; left off 1 of 2 bubbles and sound effects');
+    });
+
+    it('leaves off text the PDF font cannot draw, with a warning', async () => {
+      const result = await buildInteriorPdf([{ pageNumber: 1, data: createPng(8, 8), text: pageText('小さな竜') }], 'square-large');
+      expect(result.warnings).toContain('Page 1 text has characters the PDF font cannot draw; left it off');
+    });
+  });
+});
+
+describe('buildCoverPdf', () => {
+  it('sizes the cover spread from page count and paper', async () => {
+    const result = await buildCoverPdf({
+      title: 'Test Book',
+      pageCount: 32,
+      formatKey: 'square-large',
+      paper: 'white-80-coated',
+      frontImage: createPng(4, 4),
+    });
+    const doc = await PDFDocument.load(result.pdf);
+    const size = doc.getPage(0).getSize();
+
+    expect(doc.getPageCount()).toBe(1);
+    expect(size.width).toBeCloseTo(result.dimensions.width);
+    expect(size.height).toBeCloseTo(630);
+    expect(result.warnings[0]).toMatch(/Front cover image is \d+dpi/);
+  });
+
+  it('leaves off a title the cover font cannot draw, with a warning', async () => {
+    const result = await buildCoverPdf({
+      title: '小さな竜 🐉',
+      pageCount: 32,
+      formatKey: 'square-large',
+      paper: 'white-80-coated',
+      frontImage: createPng(4, 4),
+    });
+
+    expect(await PDFDocument.load(result.pdf)).toBeDefined();
+    expect(result.warnings).toContain('Title has characters the cover font cannot draw; left it off the spine and back cover');
+  });
+});
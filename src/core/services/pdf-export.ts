@@ -0,0 +1,454 @@
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont, type PDFImage, type PDFPage, type RGB } from 'pdf-lib';
+import { BOOK_FORMATS, type BookFormat, type BookFormatKey } from '../schemas';
+import { BUBBLE_COLORS, SFX_COLORS, type LetteringLayout, type TextLayout, type TextStyle } from './text-compositor';
+
+/**
+ * Print-ready PDF export for Lulu print-on-demand.
+ *
+ * Interior: one PDF page per book page, sized to the bleed dimensions of the
+ * chosen BOOK_FORMAT, with TrimBox/BleedBox set so the printer knows where to cut.
+ * Cover: single spread (back + spine + front) whose spine width depends on
+ * page count and paper stock.
+ */
+
+const DPI = 300;
+const POINTS_PER_INCH = 72;
+
+/** Lulu only prints spine text on books with at least this many pages */
+const SPINE_TEXT_MIN_PAGES = 80;
+/** Lulu perfect binding minimum page count */
+const PERFECT_BOUND_MIN_PAGES = 32;
+
+/**
+ * Paper stocks with pages-per-inch (caliper) used to compute spine width.
+ * Values follow Lulu's paperback spine calculator.
+ */
+export const PAPER_STOCKS = {
+  'white-60': { name: '60# White (standard)', pagesPerInch: 444 },
+  'cream-60': { name: '60# Cream', pagesPerInch: 434 },
+  'white-80-coated': { name: '80# Coated White (premium color)', pagesPerInch: 370 },
+} as const;
+
+export type PaperStock = keyof typeof PAPER_STOCKS;
+
+/** Extra spine width contributed by the cover stock itself (inches) */
+const COVER_STOCK_ALLOWANCE = 0.06;
+
+const pxToPoints = (px: number): number => (px / DPI) * POINTS_PER_INCH;
+const inchesToPoints = (inches: number): number => inches * POINTS_PER_INCH;
+
+export interface PrintDimensions {
+  /** Trim size in points */
+  trimWidth: number;
+  trimHeight: number;
+  /** Bleed on each edge in points */
+  bleed: number;
+}
+
+/**
+ * Convert a pixel-based book format to PDF point dimensions
+ */
+export const getPrintDimensions = (format: BookFormat): PrintDimensions => ({
+  trimWidth: pxToPoints(format.trimWidth),
+  trimHeight: pxToPoints(format.trimHeight),
+  bleed: pxToPoints((format.bleedWidth - format.trimWidth) / 2),
+});
+
+/**
+ * Spine width in inches for a paperback of the given page count
+ */
+export const calculateSpineWidth = (pageCount: number, paper: PaperStock): number =>
+  pageCount / PAPER_STOCKS[paper].pagesPerInch + COVER_STOCK_ALLOWANCE;
+
+export interface CoverDimensions {
+  /** Full cover spread including bleed, in points */
+  width: number;
+  height: number;
+  /** Spine width in points */
+  spineWidth: number;
+  /** Bleed on each edge in points */
+  bleed: number;
+  /** Single panel (front or back) trim size in points */
+  panelWidth: number;
+  panelHeight: number;
+}
+
+/**
+ * Cover spread dimensions: bleed + back + spine + front + bleed
+ */
+export const getCoverDimensions = (
+  format: BookFormat,
+  pageCount: number,
+  paper: PaperStock
+): CoverDimensions => {
+  const { trimWidth, trimHeight, bleed } = getPrintDimensions(format);
+  const spineWidth = inchesToPoints(calculateSpineWidth(pageCount, paper));
+
+  return {
+    width: bleed * 2 + trimWidth * 2 + spineWidth,
+    height: bleed * 2 + trimHeight,
+    spineWidth,
+    bleed,
+    panelWidth: trimWidth,
+    panelHeight: trimHeight,
+  };
+};
+
+export interface ResolutionIssue {
+  pageNumber: number;
+  width: number;
+  height: number;
+  requiredWidth: number;
+  requiredHeight: number;
+  /** Effective DPI once the image is scaled to cover the bleed area */
+  effectiveDpi: number;
+}
+
+/**
+ * Check whether an image has enough pixels to cover a format's bleed area at 300dpi.
+ * Returns null when the image is large enough.
+ */
+export const checkPageResolution = (
+  pageNumber: number,
+  size: { width: number; height: number },
+  format: BookFormat
+): ResolutionIssue | null => {
+  const scale = Math.max(format.bleedWidth / size.width, format.bleedHeight / size.height);
+  if (scale <= 1) return null;
+
+  return {
+    pageNumber,
+    width: size.width,
+    height: size.height,
+    requiredWidth: format.bleedWidth,
+    requiredHeight: format.bleedHeight,
+    effectiveDpi: Math.floor(DPI / scale),
+  };
+};
+
+/** Draw an image so it covers the box completely (center crop, no letterboxing) */
+const drawImageCover = (
+  page: PDFPage,
+  image: PDFImage,
+  box: { x: number; y: number; width: number; height: number }
+): void => {
+  const scale = Math.max(box.width / image.width, box.height / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  page.drawImage(image, {
+    x: box.x + (box.width - width) / 2,
+    y: box.y + (box.height - height) / 2,
+    width,
+    height,
+  });
+};
+
+export interface PageImage {
+  pageNumber: number;
+  /** PNG file contents */
+  data: Uint8Array;
+  /** Text to typeset over the image, for text-free illustrations (see text-compositor) */
+  text?: { layout: TextLayout; style: TextStyle; lettering?: LetteringLayout };
+}
+
+/** Whether a font can encode every character of the text */
+const canDrawText = (font: PDFFont, text: string): boolean => {
+  try {
+    font.encodeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** A CSS hex color (#rgb or #rrggbb) as a PDF color; anything else is black */
+const parseColor = (value: string): RGB => {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim())?.[1];
+  if (!hex) return rgb(0, 0, 0);
+  const full = hex.length === 3 ? [...hex].map(c => c + c).join('') : hex;
+  return rgb(parseInt(full.slice(0, 2), 16) / 255, parseInt(full.slice(2, 4), 16) / 255, parseInt(full.slice(4, 6), 16) / 255);
+};
+
+/** Standard PDF font closest to a CSS font-family list (PDFs can't use system fonts) */
+const standardFontFor = (fontFamily: string): StandardFonts =>
+  /\bserif\b/.test(fontFamily.replace(/sans-serif/g, '')) ? StandardFonts.TimesRoman : StandardFonts.Helvetica;
+
+/** Rounded rectangle as an SVG path */
+const roundedRectPath = ({ x, y, width, height }: TextLayout['box'], radius: number): string => {
+  const r = Math.min(radius, width / 2, height / 2);
+  return `M${x + r},${y} H${x + width - r} A${r},${r} 0 0 1 ${x + width},${y + r} V${y + height - r} `
+    + `A${r},${r} 0 0 1 ${x + width - r},${y + height} H${x + r} A${r},${r} 0 0 1 ${x},${y + height - r} V${y + r} A${r},${r} 0 0 1 ${x + r},${y} Z`;
+};
+
+/** Ellipse as an SVG path */
+const ellipsePath = (cx: number, cy: number, rx: number, ry: number): string =>
+  `M${cx - rx},${cy} A${rx},${ry} 0 1 0 ${cx + rx},${cy} A${rx},${ry} 0 1 0 ${cx - rx},${cy} Z`;
+
+/** Outline approximated by drawing the text in the outline color around itself */
+const OUTLINE_OFFSETS = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]] as const;
+
+/**
+ * Letter speech bubbles and sound effects from a compositor layout, matching the
+ * composited SVG. Layout units are page pixels (origin top left).
+ */
+const drawLettering = (page: PDFPage, fonts: { text: PDFFont; soundEffect: PDFFont }, lettering: LetteringLayout, scale: number): void => {
+  const pageHeight = page.getHeight();
+  const path = (d: string, options: { fill?: string; stroke?: number }) => page.drawSvgPath(d, {
+    x: 0,
+    y: pageHeight,
+    scale,
+    color: options.fill ? parseColor(options.fill) : undefined,
+    borderColor: options.stroke ? parseColor(BUBBLE_COLORS.ink) : undefined,
+    borderWidth: options.stroke,
+  });
+
+  for (const effect of lettering.soundEffects) {
+    const { center, fontSize } = effect;
+    const width = fonts.soundEffect.widthOfTextAtSize(effect.text, fontSize);
+    const radians = (effect.angle * Math.PI) / 180;
+    // Text origin (left end of the baseline), rotated clockwise about the center like the SVG
+    const origin = (dx: number, dy: number) => {
+      const x = -width / 2 + dx;
+      const y = effect.baseline - center.y + dy;
+      return { x: center.x + x * Math.cos(radians) - y * Math.sin(radians), y: center.y + x * Math.sin(radians) + y * Math.cos(radians) };
+    };
+    const draw = (dx: number, dy: number, color: string) => {
+      const point = origin(dx, dy);
+      page.drawText(effect.text, { x: point.x * scale, y: pageHeight - point.y * scale, size: fontSize * scale, font: fonts.soundEffect, color: parseColor(color), rotate: degrees(-effect.angle) });
+    };
+    // The SVG stroke is centered on the glyph edge, so half of it shows
+    for (const [dx, dy] of OUTLINE_OFFSETS) draw((dx * effect.strokeWidth) / 2, (dy * effect.strokeWidth) / 2, SFX_COLORS.stroke);
+    draw(0, 0, SFX_COLORS.fill);
+  }
+
+  for (const bubble of lettering.dialogue) {
+    const { center, strokeWidth } = bubble;
+    const ellipse = ellipsePath(center.x, center.y, bubble.rx, bubble.ry);
+    if (bubble.tail) {
+      const tail = `M${bubble.tail.map(point => `${point.x},${point.y}`).join(' L')} Z`;
+      // Outlined tail under the bubble, then its fill again on top to hide the bubble's outline at the join
+      path(tail, { fill: BUBBLE_COLORS.fill, stroke: strokeWidth });
+      path(ellipse, { fill: BUBBLE_COLORS.fill, stroke: strokeWidth });
+      path(tail, { fill: BUBBLE_COLORS.fill });
+    } else {
+      path(ellipse, { fill: BUBBLE_COLORS.fill, stroke: strokeWidth });
+      for (const { x, y, r } of bubble.trail ?? []) path(ellipsePath(x, y, r, r), { fill: BUBBLE_COLORS.fill, stroke: strokeWidth });
+    }
+
+    bubble.lines.forEach((line, i) => {
+      const width = fonts.text.widthOfTextAtSize(line, bubble.fontSize);
+      page.drawText(line, {
+        x: (center.x - width / 2) * scale,
+        y: pageHeight - (bubble.firstBaseline + i * bubble.lineHeight) * scale,
+        size: bubble.fontSize * scale,
+        font: fonts.text,
+        color: parseColor(BUBBLE_COLORS.ink),
+      });
+    });
+  }
+};
+
+/**
+ * Typeset page text from a compositor layout, matching the composited SVG: panel,
+ * lines and drop cap. Outlines and halos are approximated by drawing the text in the
+ * contrast color around itself. Layout units are page pixels (origin top left).
+ */
+const drawPageText = (page: PDFPage, font: PDFFont, { layout, style }: NonNullable<PageImage['text']>, scale: number): void => {
+  const pageHeight = page.getHeight();
+  const { box, dropCap } = layout;
+  const padding = style.box ? style.box.padding : 0;
+
+  if (style.box) {
+    page.drawSvgPath(roundedRectPath(box, style.box.radius), { x: 0, y: pageHeight, scale, color: parseColor(style.box.fill), opacity: style.box.opacity });
+  }
+
+  const contrast = style.outline ?? style.halo;
+  const draw = (text: string, x: number, baseline: number, size: number, color: RGB) => {
+    for (const [dx, dy] of contrast ? OUTLINE_OFFSETS : []) {
+      page.drawText(text, { x: (x + dx * contrast!.width) * scale, y: pageHeight - (baseline + dy * contrast!.width) * scale, size: size * scale, font, color: parseColor(contrast!.color) });
+    }
+    page.drawText(text, { x: x * scale, y: pageHeight - baseline * scale, size: size * scale, font, color });
+  };
+
+  // Same geometry as compositePageSvg: drop caps set the text flush left
+  const align = dropCap ? 'left' : style.align;
+  const lineHeight = layout.fontSize * style.lineHeight;
+  const firstBaseline = box.y + padding + (lineHeight - layout.fontSize) / 2 + layout.fontSize * 0.8;
+  const color = parseColor(style.color);
+
+  layout.lines.forEach((line, i) => {
+    const width = font.widthOfTextAtSize(line, layout.fontSize);
+    const x = align === 'left'
+      ? box.x + padding + (dropCap && i < dropCap.lines ? dropCap.width : 0)
+      : align === 'center' ? box.x + (box.width - width) / 2 : box.x + box.width - padding - width;
+    draw(line, x, firstBaseline + i * lineHeight, layout.fontSize, color);
+  });
+  if (dropCap) {
+    draw(dropCap.letter, box.x + padding, firstBaseline + (dropCap.lines - 1) * lineHeight, dropCap.fontSize, parseColor(style.dropCap?.color ?? style.color));
+  }
+};
+
+export interface InteriorPdfResult {
+  pdf: Uint8Array;
+  /** Printed page count (padded to an even number) */
+  pageCount: number;
+  resolutionIssues: ResolutionIssue[];
+  warnings: string[];
+}
+
+/**
+ * Build the interior PDF with each page image placed at full bleed, and the page
+ * text and lettering typeset over images that have none of their own.
+ * Pads with a blank page when needed so the page count is even.
+ */
+export const buildInteriorPdf = async (
+  images: PageImage[],
+  formatKey: BookFormatKey,
+  title?: string
+): Promise<InteriorPdfResult> => {
+  const format = BOOK_FORMATS[formatKey];
+  const { trimWidth, trimHeight, bleed } = getPrintDimensions(format);
+  const pageWidth = trimWidth + bleed * 2;
+  const pageHeight = trimHeight + bleed * 2;
+
+  const doc = await PDFDocument.create();
+  if (title) doc.setTitle(title);
+
+  const resolutionIssues: ResolutionIssue[] = [];
+  const warnings: string[] = [];
+  const sorted = [...images].sort((a, b) => a.pageNumber - b.pageNumber);
+
+  const fonts = new Map<StandardFonts, PDFFont>();
+  const embedFont = async (name: StandardFonts): Promise<PDFFont> => {
+    if (!fonts.has(name)) fonts.set(name, await doc.embedFont(name));
+    return fonts.get(name)!;
+  };
+
+  for (const { pageNumber, data, text } of sorted) {
+    const image = await doc.embedPng(data);
+    const issue = checkPageResolution(pageNumber, image, format);
+    if (issue) resolutionIssues.push(issue);
+
+    const page = doc.addPage([pageWidth, pageHeight]);
+    page.setBleedBox(0, 0, pageWidth, pageHeight);
+    page.setTrimBox(bleed, bleed, trimWidth, trimHeight);
+    drawImageCover(page, image, { x: 0, y: 0, width: pageWidth, height: pageHeight });
+
+    if (text) {
+      const scale = pageWidth / format.bleedWidth;
+      const font = await embedFont(standardFontFor(text.style.fontFamily));
+      // Lettering goes under the page text, as in the composited SVG
+      if (text.lettering) {
+        const soundEffectFont = await embedFont(StandardFonts.HelveticaBold);
+        const dialogue = text.lettering.dialogue.filter(bubble => canDrawText(font, bubble.lines.join(' ')));
+        const soundEffects = text.lettering.soundEffects.filter(effect => canDrawText(soundEffectFont, effect.text));
+        const total = text.lettering.dialogue.length + text.lettering.soundEffects.length;
+        if (dialogue.length + soundEffects.length < total) {
+          warnings.push(`Page ${pageNumber} lettering has characters the PDF font cannot draw; left off ${total - dialogue.length - soundEffects.length} of ${total} bubbles and sound effects`);
+        }
+        drawLettering(page, { text: font, soundEffect: soundEffectFont }, { dialogue, soundEffects }, scale);
+      }
+      if (canDrawText(font, [text.layout.dropCap?.letter ?? '', ...text.layout.lines].join(' '))) {
+        drawPageText(page, font, text, scale);
+      } else {
+        warnings.push(`Page ${pageNumber} text has characters the PDF font cannot draw; left it off`);
+      }
+    }
+  }
+
+  if (doc.getPageCount() % 2 !== 0) {
+    const blank = doc.addPage([pageWidth, pageHeight]);
+    blank.setBleedBox(0, 0, pageWidth, pageHeight);
+    blank.setTrimBox(bleed, bleed, trimWidth, trimHeight);
+    warnings.push('Added a blank final page to make the page count even');
+  }
+
+  const pageCount = doc.getPageCount();
+  if (pageCount < PERFECT_BOUND_MIN_PAGES) {
+    warnings.push(`Perfect binding requires at least ${PERFECT_BOUND_MIN_PAGES} pages (have ${pageCount}); use saddle stitch or add pages`);
+  }
+
+  return { pdf: await doc.save(), pageCount, resolutionIssues, warnings };
+};
+
+export interface CoverPdfOptions {
+  title: string;
+  /** Printed interior page count (drives spine width) */
+  pageCount: number;
+  formatKey: BookFormatKey;
+  paper: PaperStock;
+  /** PNG used for the front cover */
+  frontImage: Uint8Array;
+  /** Optional PNG for the back cover (defaults to plain white with title) */
+  backImage?: Uint8Array;
+}
+
+export interface CoverPdfResult {
+  pdf: Uint8Array;
+  dimensions: CoverDimensions;
+  warnings: string[];
+}
+
+/**
+ * Build the one-piece cover PDF (back, spine, front) with bleed on all edges.
+ */
+export const buildCoverPdf = async (options: CoverPdfOptions): Promise<CoverPdfResult> => {
+  const { title, pageCount, formatKey, paper, frontImage, backImage } = options;
+  const format = BOOK_FORMATS[formatKey];
+  const dimensions = getCoverDimensions(format, pageCount, paper);
+  const { width, height, spineWidth, bleed, panelWidth } = dimensions;
+
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${title} (cover)`);
+  const page = doc.addPage([width, height]);
+  page.setBleedBox(0, 0, width, height);
+  page.setTrimBox(bleed, bleed, width - bleed * 2, height - bleed * 2);
+
+  const font = await doc.embedFont(StandardFonts.HelveticaBold);
+  const warnings: string[] = [];
+
+  // The standard fonts only cover WinAnsi - an emoji or CJK title would throw when drawn
+  const titleDrawable = canDrawText(font, title);
+  if (!titleDrawable) warnings.push('Title has characters the cover font cannot draw; left it off the spine and back cover');
+
+  // Panels include the outer bleed; the spine edge is the fold, so no bleed there
+  const panelBoxWidth = panelWidth + bleed;
+  const frontX = bleed + panelWidth + spineWidth;
+
+  const front = await doc.embedPng(frontImage);
+  const frontIssue = checkPageResolution(1, front, format);
+  if (frontIssue) warnings.push(`Front cover image is ${frontIssue.effectiveDpi}dpi at full bleed (needs ${DPI}dpi)`);
+  drawImageCover(page, front, { x: frontX, y: 0, width: panelBoxWidth, height });
+
+  if (backImage) {
+    const back = await doc.embedPng(backImage);
+    const backIssue = checkPageResolution(1, back, format);
+    if (backIssue) warnings.push(`Back cover image is ${backIssue.effectiveDpi}dpi at full bleed (needs ${DPI}dpi)`);
+    drawImageCover(page, back, { x: 0, y: 0, width: panelBoxWidth, height });
+  } else if (titleDrawable) {
+    const fontSize = 18;
+    const textWidth = font.widthOfTextAtSize(title, fontSize);
+    page.drawText(title, {
+      x: bleed + (panelWidth - textWidth) / 2,
+      y: height / 2,
+      size: fontSize,
+      font,
+      color: rgb(0.2, 0.2, 0.2),
+    });
+  }
+
+  if (titleDrawable && pageCount >= SPINE_TEXT_MIN_PAGES) {
+    const fontSize = Math.min(14, spineWidth * 0.6);
+    const textWidth = font.widthOfTextAtSize(title, fontSize);
+    page.drawText(title, {
+      x: bleed + panelWidth + (spineWidth + fontSize * 0.7) / 2,
+      y: (height + textWidth) / 2,
+      size: fontSize,
+      font,
+      rotate: degrees(-90),
+      color: rgb(0.2, 0.2, 0.2),
+    });
+  }
+
+  return { pdf: await doc.save(), dimensions, warnings };
+};
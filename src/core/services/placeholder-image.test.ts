@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { createPlaceholderPng, toPngDataUri } from './placeholder-image';
+import { createOfflineImageProvider } from './offline-image-provider';
+import { BOOK_FORMATS } from '../schemas';
+
+const readSize = (png: Buffer) => ({ width: png.readUInt32BE(16), height: png.readUInt32BE(20) });
+
+describe('createPlaceholderPng', () => {
+  it('writes a PNG with the requested dimensions', () => {
+    const png = createPlaceholderPng({ width: 40, height: 30 });
+    expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    expect(readSize(png)).toEqual({ width: 40, height: 30 });
+  });
+
+  it('is deterministic per seed', () => {
+    const a = createPlaceholderPng({ width: 20, height: 20, seed: 'page-1' });
+    expect(createPlaceholderPng({ width: 20, height: 20, seed: 'page-1' }).equals(a)).toBe(true);
+    expect(createPlaceholderPng({ width: 20, height: 20, seed: 'page-2' }).equals(a)).toBe(false);
+  });
+
+  it('encodes as a base64 data URI', () => {
+    expect(toPngDataUri(Buffer.from('png'))).toBe('data:image/png;base64,cG5n');
+  });
+});
+
+describe('createOfflineImageProvider', () => {
+  const decode = (url: string) => Buffer.from(url.split(',')[1]!, 'base64');
+
+  it('generates pages at the format bleed proportions', async () => {
+    const format = BOOK_FORMATS.landscape;
+    const { url } = await createOfflineImageProvider().generatePage({ page: { pageNumber: 2 } } as never, format);
+    const { width, height } = readSize(decode(url));
+    expect(Math.max(width, height)).toBe(600);
+    expect(width / height).toBeCloseTo(format.bleedWidth / format.bleedHeight, 1);
+  });
+
+  it('generates sprite sheets at the requested aspect ratio', async () => {
+    const { url } = await createOfflineImageProvider().generateSpriteSheet('Otto', { aspectRatio: '16:9' });
+    expect(readSize(decode(url))).toEqual({ width: 600, height: 338 });
+  });
+});
@@ -0,0 +1,102 @@
+import { deflateSync } from 'zlib';
+
+/**
+ * Placeholder PNGs for offline runs: a flat pastel fill (colour derived from a seed)
+ * with a darker border and a diagonal cross, so pages are distinguishable at a glance.
+ * Deterministic - the same seed and size always produce the same bytes.
+ */
+
+export interface PlaceholderOptions {
+  width: number;
+  height: number;
+  /** Any string (e.g. "page-3"); picks the fill colour */
+  seed?: string;
+}
+
+type Rgb = [number, number, number];
+
+// ============================================================================
+// PNG encoding (8-bit RGB, no interlace)
+// ============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+/**
+ * Encode raw RGB pixels (row-major, 3 bytes per pixel) as a PNG
+ */
+export const encodePng = (width: number, height: number, pixels: Uint8Array): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(8, 8); // bit depth
+  header.writeUInt8(2, 9); // colour type: RGB
+
+  // Each scanline is prefixed with filter type 0 (none)
+  const stride = width * 3;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(pixels.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+// ============================================================================
+// Placeholder drawing
+// ============================================================================
+
+/** Stable pastel colour from a string (FNV-1a hash → hue) */
+const seedColor = (seed: string): Rgb => {
+  let hash = 0x811c9dc5;
+  for (const char of seed) hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+  const hue = (hash % 360) / 60;
+  const x = 1 - Math.abs((hue % 2) - 1);
+  const [r, g, b] = hue < 1 ? [1, x, 0] : hue < 2 ? [x, 1, 0] : hue < 3 ? [0, 1, x] : hue < 4 ? [0, x, 1] : hue < 5 ? [x, 0, 1] : [1, 0, x];
+  // Pastel: mix with white
+  return [r, g, b].map(c => Math.round(160 + c * 80)) as Rgb;
+};
+
+export const createPlaceholderPng = ({ width, height, seed = 'placeholder' }: PlaceholderOptions): Buffer => {
+  const fill = seedColor(seed);
+  const ink = fill.map(c => Math.round(c * 0.55)) as Rgb;
+  const border = Math.max(2, Math.round(Math.min(width, height) / 64));
+  const pixels = new Uint8Array(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Diagonals from corner to corner, scaled for non-square images
+      const onDiagonal = Math.abs(x * height - y * width) <= border * width / 2
+        || Math.abs((width - 1 - x) * height - y * width) <= border * width / 2;
+      const onBorder = x < border || y < border || x >= width - border || y >= height - border;
+      pixels.set(onBorder || onDiagonal ? ink : fill, (y * width + x) * 3);
+    }
+  }
+
+  return encodePng(width, height, pixels);
+};
+
+export const toPngDataUri = (png: Buffer): string => `data:image/png;base64,${png.toString('base64')}`;
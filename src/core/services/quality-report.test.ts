@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { buildQualityReportHtml, summarizeQuality, type PageQuality } from './quality-report';
+import type { ImageQualityResult } from '../schemas';
+
+const result = (score: number, overrides: Partial<ImageQualityResult> = {}): ImageQualityResult => ({
+  score,
+  characterConsistency: score,
+  environmentConsistency: score,
+  aiArtifacts: score,
+  issues: [],
+  passesQualityBar: score >= 70,
+  ...overrides,
+});
+
+const pages: PageQuality[] = [
+  { pageNumber: 1, imageSrc: 'assets/page-1.png', result: result(90), failedAttempts: [] },
+  {
+    pageNumber: 2,
+    imageSrc: 'assets/page-2.png',
+    result: result(80, { characterConsistency: 65 }),
+    failedAttempts: [{ attempt: 1, imageSrc: 'assets/failed/page-2-attempt-1.png', result: result(40, { issues: ['Extra <finger>'] }) }],
+  },
+  { pageNumber: 3, imageSrc: 'assets/page-3.png', result: result(50, { aiArtifacts: 30, issues: ['Melted lamp post'] }), failedAttempts: [] },
+  { pageNumber: 4, failedAttempts: [] },
+];
+
+describe('summarizeQuality', () => {
+  it('reports the pass rate over analyzed pages and the worst dimensions first', () => {
+    const summary = summarizeQuality(pages);
+    expect(summary).toMatchObject({ analyzed: 3, passed: 2, passRate: 67, passedFirstTry: 1, failedAttempts: 1 });
+    expect(summary.dimensions.map(d => d.key)).toEqual(['aiArtifacts', 'characterConsistency', 'score', 'environmentConsistency']);
+    expect(summary.dimensions[0]).toEqual({ key: 'aiArtifacts', label: 'AI artifacts', average: 67, lowest: 30, lowestPage: 3 });
+  });
+
+  it('handles a story with no results', () => {
+    expect(summarizeQuality([{ pageNumber: 1, failedAttempts: [] }])).toMatchObject({ analyzed: 0, passRate: 0, dimensions: [] });
+  });
+});
+
+describe('buildQualityReportHtml', () => {
+  const html = buildQualityReportHtml({ title: 'Otto & the City', pages });
+
+  it('shows a card per page with thumbnail, scores and status', () => {
+    expect(html).toContain('<title>Otto &amp; the City - quality report</title>');
+    expect(html).toContain('<img src="assets/page-1.png"');
+    expect(html.match(/<article class="page/g)).toHaveLength(4);
+    expect(html).toContain('<article class="page failed" id="page-3">');
+    expect(html).toContain('<dt>AI artifacts</dt><dd>30</dd>');
+    expect(html).toContain('<li>Melted lamp post</li>');
+    expect(html).toContain('Not analyzed');
+  });
+
+  it('lists failed attempts with their images, scores and escaped issues', () => {
+    expect(html).toContain('1 failed attempt</summary>');
+    expect(html).toContain('<img src="assets/failed/page-2-attempt-1.png"');
+    expect(html).toContain('<li>Extra &lt;finger&gt;</li>');
+  });
+
+  it('summarizes the pass rate and links the lowest page of each dimension', () => {
+    expect(html).toContain('<strong>67%</strong> pass rate');
+    expect(html).toContain('2 of 3 analyzed (4 pages)');
+    expect(html).toContain('30 <a href="#page-3">page 3</a>');
+  });
+});
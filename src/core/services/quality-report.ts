@@ -0,0 +1,226 @@
+import type { ImageQualityResult } from '../schemas';
+
+/**
+ * Story-level image quality report.
+ *
+ * Produces a single quality-report.html (inline CSS, no network access needed) for
+ * reviewing a book in a browser: a summary of the pass rate and the weakest scores,
+ * then one card per page with its thumbnail, the four quality scores, the issues
+ * found and any failed attempts the renderer retried.
+ */
+
+export type QualityDimension = 'score' | 'characterConsistency' | 'environmentConsistency' | 'aiArtifacts';
+
+export const QUALITY_DIMENSIONS: Array<{ key: QualityDimension; label: string }> = [
+  { key: 'score', label: 'Overall' },
+  { key: 'characterConsistency', label: 'Character' },
+  { key: 'environmentConsistency', label: 'Environment' },
+  { key: 'aiArtifacts', label: 'AI artifacts' },
+];
+
+export interface QualityAttempt {
+  attempt: number;
+  /** Image src (relative path, URL or data URI) */
+  imageSrc?: string;
+  result?: ImageQualityResult;
+}
+
+export interface PageQuality {
+  pageNumber: number;
+  imageSrc?: string;
+  /** Quality of the final image - missing when the page was never analyzed */
+  result?: ImageQualityResult;
+  /** Images rejected by the quality check before the final one */
+  failedAttempts: QualityAttempt[];
+}
+
+export interface QualityReportInput {
+  title: string;
+  pages: PageQuality[];
+  /** Score a page needs to pass (default: 70) */
+  threshold?: number;
+}
+
+export interface DimensionSummary {
+  key: QualityDimension;
+  label: string;
+  average: number;
+  lowest: number;
+  lowestPage: number;
+}
+
+export interface QualitySummary {
+  analyzed: number;
+  passed: number;
+  /** Passed pages as a percentage of analyzed pages */
+  passRate: number;
+  /** Pages that passed without a failed attempt */
+  passedFirstTry: number;
+  failedAttempts: number;
+  /** Average and lowest score per dimension, worst average first */
+  dimensions: DimensionSummary[];
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Pass rate and per-dimension scores over the analyzed pages
+ */
+export const summarizeQuality = (pages: PageQuality[]): QualitySummary => {
+  const analyzed = pages.filter((page): page is PageQuality & { result: ImageQualityResult } => page.result !== undefined);
+  const passed = analyzed.filter(page => page.result.passesQualityBar);
+
+  const dimensions = analyzed.length === 0 ? [] : QUALITY_DIMENSIONS
+    .map(({ key, label }): DimensionSummary => {
+      const lowest = analyzed.reduce((worst, page) => (page.result[key] < worst.result[key] ? page : worst));
+      return {
+        key,
+        label,
+        average: Math.round(analyzed.reduce((sum, page) => sum + page.result[key], 0) / analyzed.length),
+        lowest: lowest.result[key],
+        lowestPage: lowest.pageNumber,
+      };
+    })
+    .sort((a, b) => a.average - b.average);
+
+  return {
+    analyzed: analyzed.length,
+    passed: passed.length,
+    passRate: analyzed.length === 0 ? 0 : Math.round((passed.length / analyzed.length) * 100),
+    passedFirstTry: passed.filter(page => page.failedAttempts.length === 0).length,
+    failedAttempts: pages.reduce((sum, page) => sum + page.failedAttempts.length, 0),
+    dimensions,
+  };
+};
+
+const scoreClass = (value: number, threshold: number): string =>
+  value >= threshold ? 'good' : value >= threshold - 15 ? 'fair' : 'poor';
+
+const renderScores = (result: ImageQualityResult, threshold: number): string =>
+  `<dl class="scores">${QUALITY_DIMENSIONS.map(({ key, label }) =>
+    `<div class="${scoreClass(result[key], threshold)}"><dt>${label}</dt><dd>${result[key]}</dd></div>`).join('')}</dl>`;
+
+const renderIssues = (issues: string[]): string =>
+  issues.length === 0 ? '' : `<ul class="issues">${issues.map(issue => `<li>${escapeHtml(issue)}</li>`).join('')}</ul>`;
+
+const renderImage = (src: string | undefined, alt: string): string =>
+  src ? `<a href="${escapeHtml(src)}"><img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}" loading="lazy"></a>` : '<div class="missing-image">No image</div>';
+
+const renderAttempt = (pageNumber: number, attempt: QualityAttempt, threshold: number): string => `<div class="attempt">
+        ${renderImage(attempt.imageSrc, `Page ${pageNumber}, attempt ${attempt.attempt}`)}
+        <div>
+          <h4>Attempt ${attempt.attempt}</h4>
+          ${attempt.result ? renderScores(attempt.result, threshold) + renderIssues(attempt.result.issues) : '<p class="muted">No quality result saved</p>'}
+        </div>
+      </div>`;
+
+const renderPage = (page: PageQuality, threshold: number): string => {
+  const status = !page.result
+    ? '<span class="status muted">Not analyzed</span>'
+    : page.result.passesQualityBar
+      ? '<span class="status pass">Pass</span>'
+      : '<span class="status fail">Fail</span>';
+  const attempts = page.failedAttempts.length === 0 ? '' : `<details>
+      <summary>${page.failedAttempts.length} failed attempt${page.failedAttempts.length === 1 ? '' : 's'}</summary>
+      ${page.failedAttempts.map(attempt => renderAttempt(page.pageNumber, attempt, threshold)).join('\n      ')}
+    </details>`;
+
+  return `<article class="page${page.result && !page.result.passesQualityBar ? ' failed' : ''}" id="page-${page.pageNumber}">
+    ${renderImage(page.imageSrc, `Page ${page.pageNumber}`)}
+    <div class="details">
+      <h3>Page ${page.pageNumber} ${status}</h3>
+      ${page.result ? renderScores(page.result, threshold) + renderIssues(page.result.issues) : ''}
+      ${attempts}
+    </div>
+  </article>`;
+};
+
+const renderSummary = (summary: QualitySummary, total: number, threshold: number): string => {
+  const dimensions = summary.dimensions.map((dimension, i) => `<tr${i < 2 ? ' class="worst"' : ''}>
+        <td>${dimension.label}</td>
+        <td class="${scoreClass(dimension.average, threshold)}">${dimension.average}</td>
+        <td class="${scoreClass(dimension.lowest, threshold)}">${dimension.lowest} <a href="#page-${dimension.lowestPage}">page ${dimension.lowestPage}</a></td>
+      </tr>`).join('\n      ');
+
+  return `<section class="summary">
+    <div class="stat"><strong>${summary.passRate}%</strong> pass rate<br><span class="muted">${summary.passed} of ${summary.analyzed} analyzed${summary.analyzed < total ? ` (${total} pages)` : ''}</span></div>
+    <div class="stat"><strong>${summary.passedFirstTry}</strong> passed first try</div>
+    <div class="stat"><strong>${summary.failedAttempts}</strong> failed attempt${summary.failedAttempts === 1 ? '' : 's'}</div>
+    ${dimensions ? `<table>
+      <thead><tr><th>Dimension (worst first)</th><th>Average</th><th>Lowest</th></tr></thead>
+      <tbody>
+      ${dimensions}
+      </tbody>
+    </table>` : ''}
+  </section>`;
+};
+
+const STYLES = `
+* { box-sizing: border-box; }
+body { margin: 0; padding: 24px; font-family: system-ui, sans-serif; background: #f4f1ea; color: #222; }
+h1 { margin: 0 0 4px; font-size: 22px; }
+.muted { color: #888; }
+.summary { display: flex; flex-wrap: wrap; gap: 16px; align-items: flex-start; margin: 16px 0 24px; }
+.stat { background: #fff; border-radius: 6px; padding: 12px 16px; min-width: 140px; }
+.stat strong { font-size: 24px; }
+table { border-collapse: collapse; background: #fff; border-radius: 6px; }
+th, td { padding: 6px 12px; text-align: left; border-bottom: 1px solid #eee; }
+tr.worst td:first-child { font-weight: bold; }
+.pages { display: grid; grid-template-columns: repeat(auto-fill, minmax(520px, 1fr)); gap: 16px; }
+.page { display: flex; gap: 12px; background: #fff; border-radius: 6px; padding: 12px; border-left: 4px solid #4a9d5b; }
+.page.failed { border-left-color: #c0392b; }
+.page > a img, .page > .missing-image { width: 200px; }
+img { display: block; width: 100%; border-radius: 4px; }
+.missing-image { aspect-ratio: 1; display: flex; align-items: center; justify-content: center; background: #ddd; color: #777; }
+.details { flex: 1; min-width: 0; }
+h3 { margin: 0 0 8px; font-size: 16px; }
+h4 { margin: 0 0 4px; font-size: 13px; }
+.status { font-size: 12px; padding: 2px 8px; border-radius: 10px; margin-left: 6px; vertical-align: middle; }
+.status.pass { background: #dff0e2; color: #2d6a3a; }
+.status.fail { background: #f8dcd8; color: #a02f22; }
+.scores { display: grid; grid-template-columns: repeat(4, 1fr); gap: 6px; margin: 0 0 8px; }
+.scores div { background: #f6f6f6; border-radius: 4px; padding: 4px 6px; }
+.scores dt { font-size: 11px; color: #666; }
+.scores dd { margin: 0; font-size: 18px; font-weight: bold; }
+.good { color: #2d6a3a; }
+.fair { color: #a06800; }
+.poor { color: #a02f22; }
+.issues { margin: 0 0 8px; padding-left: 18px; font-size: 13px; }
+details summary { cursor: pointer; font-size: 13px; color: #555; }
+.attempt { display: flex; gap: 8px; margin-top: 8px; padding-top: 8px; border-top: 1px dashed #ddd; }
+.attempt > a img, .attempt > .missing-image { width: 120px; }
+.attempt > div { flex: 1; min-width: 0; }
+`;
+
+/**
+ * Build quality-report.html
+ */
+export const buildQualityReportHtml = (input: QualityReportInput): string => {
+  const { title, threshold = 70 } = input;
+  const pages = [...input.pages].sort((a, b) => a.pageNumber - b.pageNumber);
+  const summary = summarizeQuality(pages);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} - quality report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="muted">Image quality report · passing score ${threshold}</div>
+${renderSummary(summary, pages.length, threshold)}
+<main class="pages">
+  ${pages.map(page => renderPage(page, threshold)).join('\n  ')}
+</main>
+</body>
+</html>
+`;
+};
@@ -3,7 +3,7 @@ import * as path from 'path';
 import { z } from 'zod';
 
 /**
- * Style preset schema - name + art_style only
+ * Style preset schema - name, art_style and the typography that suits it
  */
 const ArtStyleSchema = z.object({
   genre: z.array(z.string().min(1)).default([]),
@@ -14,6 +14,7 @@ const ArtStyleSchema = z.object({
 
 const StylePresetFileSchema = z.object({
   name: z.string().min(1),
+  typography: z.string().min(1).optional().describe('Typography preset name (prompts/typography) for composited text'),
   art_style: ArtStyleSchema,
 });
 
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TEXT_STYLE,
+  compositePageSvg,
+  findNegativeSpace,
+  layoutStoryText,
+  layoutText,
+  resolveAnchorPoint,
+  resolveTextRegion,
+  storyLetteringSvg,
+  wrapText,
+} from './text-compositor';
+import { BOOK_FORMATS, type ComposedStory, type IllustrationBeat } from '../schemas';
+
+const beat = (negative_space?: string): IllustrationBeat => ({
+  order: 1,
+  purpose: 'setup',
+  summary: 'Hero looks up',
+  emotion: 'wonder',
+  characters: [],
+  shot: { size: 'wide', angle: 'eye_level', staging: negative_space ? { negative_space } : undefined },
+});
+
+describe('resolveTextRegion', () => {
+  it('defaults to a band along the bottom', () => {
+    expect(resolveTextRegion()).toEqual({ x: 0.08, y: 0.68, width: 0.84, height: 0.26 });
+  });
+
+  it('follows the negative space description', () => {
+    expect(resolveTextRegion('Open sky in the upper third')).toMatchObject({ y: 0.05 });
+    expect(resolveTextRegion('empty floor, bottom left')).toEqual({ x: 0.06, y: 0.68, width: 0.44, height: 0.26 });
+  });
+
+  it('gives a tall column for a side-only description', () => {
+    expect(resolveTextRegion('plain wall on the right')).toEqual({ x: 0.5, y: 0.1, width: 0.44, height: 0.8 });
+  });
+});
+
+describe('findNegativeSpace', () => {
+  it('uses the first beat that describes one', () => {
+    expect(findNegativeSpace([beat(), beat('sky above'), beat('ground')])).toBe('sky above');
+    expect(findNegativeSpace()).toBeUndefined();
+  });
+});
+
+describe('wrapText', () => {
+  it('wraps words to the line budget and keeps line breaks', () => {
+    expect(wrapText('one two three four\nfive', 9)).toEqual(['one two', 'three', 'four', 'five']);
+  });
+});
+
+describe('layoutText', () => {
+  const format = BOOK_FORMATS['square-large'];
+
+  it('keeps the style size when the text fits', () => {
+    const layout = layoutText('Otto found a box.', resolveTextRegion(), format, DEFAULT_TEXT_STYLE);
+    expect(layout.fontSize).toBe(DEFAULT_TEXT_STYLE.fontSize);
+    expect(layout.lines).toEqual(['Otto found a box.']);
+  });
+
+  it('shrinks long text and anchors bottom regions to the bottom edge', () => {
+    const region = resolveTextRegion();
+    const layout = layoutText('word '.repeat(200), region, format, DEFAULT_TEXT_STYLE);
+    expect(layout.fontSize).toBeLessThan(DEFAULT_TEXT_STYLE.fontSize);
+    expect(layout.box.y + layout.box.height).toBeCloseTo((region.y + region.height) * format.bleedHeight);
+  });
+});
+
+describe('layoutStoryText', () => {
+  it('places a story page\'s text in its shot\'s negative space', () => {
+    const story = {
+      prose: { pages: [{ text: 'Otto looked up.' }] },
+      visuals: { illustratedPages: [{ pageNumber: 1, beats: [beat('open sky at the top')] }] },
+    } as unknown as ComposedStory;
+    const layout = layoutStoryText(story, 1, 'square-large');
+    expect(layout).toEqual(layoutText('Otto looked up.', resolveTextRegion('open sky at the top'), BOOK_FORMATS['square-large'], DEFAULT_TEXT_STYLE));
+    expect(layout.box.y).toBeLessThan(BOOK_FORMATS['square-large'].bleedHeight / 2);
+  });
+});
+
+describe('compositePageSvg', () => {
+  it('draws escaped text over the illustration', () => {
+    const svg = compositePageSvg({
+      text: 'Tom & Jerry <3',
+      imageHref: '../page-1.png',
+      format: BOOK_FORMATS['square-large'],
+      beats: [beat('sky at the top')],
+    });
+
+    expect(svg).toContain('<image href="../page-1.png"');
+    expect(svg).toContain('Tom &amp; Jerry &lt;3');
+    expect(svg).toContain('<rect');
+  });
+
+  it('sets a drop cap flush left and indents the lines beside it', () => {
+    const style = { ...DEFAULT_TEXT_STYLE, align: 'center' as const, dropCap: { lines: 2, color: '#900' } };
+    const text = 'Once upon a time there was a very small dragon who loved to read books about knights.';
+    const layout = layoutText(text, resolveTextRegion(), BOOK_FORMATS['square-large'], style);
+    expect(layout.dropCap).toMatchObject({ letter: 'O', lines: 2 });
+    expect(layout.lines[0]!.startsWith('nce')).toBe(true);
+
+    const svg = compositePageSvg({ text, imageHref: 'page.png', format: BOOK_FORMATS['square-large'], style });
+    expect(svg).toContain('fill="#900">O</text>');
+    expect(svg).toContain('text-anchor="start"');
+  });
+
+  it('drops the drop cap for one-line text', () => {
+    const style = { ...DEFAULT_TEXT_STYLE, dropCap: { lines: 3 } };
+    const layout = layoutText('The end.', resolveTextRegion(), BOOK_FORMATS['square-large'], style);
+    expect(layout.dropCap).toBeUndefined();
+    expect(layout.lines).toEqual(['The end.']);
+  });
+
+  it('adds an outline stroke or a halo filter', () => {
+    const format = BOOK_FORMATS['square-large'];
+    const outlined = compositePageSvg({ text: 'Hi', imageHref: 'p.png', format, style: { ...DEFAULT_TEXT_STYLE, box: false, outline: { color: '#000', width: 4 } } });
+    expect(outlined).toContain('stroke="#000" stroke-width="8"');
+
+    const haloed = compositePageSvg({ text: 'Hi', imageHref: 'p.png', format, style: { ...DEFAULT_TEXT_STYLE, box: false, halo: { color: '#fff', width: 10 } } });
+    expect(haloed).toContain('<filter id="halo"');
+    expect(haloed).toContain('filter="url(#halo)"');
+  });
+
+  it('omits the panel when the style has no box', () => {
+    const svg = compositePageSvg({
+      text: 'Hello',
+      imageHref: 'page.png',
+      format: BOOK_FORMATS['square-large'],
+      style: { ...DEFAULT_TEXT_STYLE, box: false },
+    });
+    expect(svg).not.toContain('<rect');
+  });
+});
+
+describe('resolveAnchorPoint', () => {
+  it('reads composition grid positions', () => {
+    expect(resolveAnchorPoint('top-left third')).toEqual({ x: 0.22, y: 0.18 });
+    expect(resolveAnchorPoint('bottom right')).toEqual({ x: 0.78, y: 0.8 });
+    expect(resolveAnchorPoint('center')).toEqual({ x: 0.5, y: 0.5 });
+  });
+});
+
+describe('lettering', () => {
+  const format = BOOK_FORMATS['square-large'];
+  const staged: IllustrationBeat = {
+    ...beat(),
+    shot: { size: 'wide', angle: 'eye_level', staging: { anchors: [{ subject: 'Otto the owl', grid: 'bottom-left third' }] } },
+  };
+
+  it('draws a speech bubble with its tail towards the speaker', () => {
+    const svg = compositePageSvg({
+      text: 'The end.',
+      imageHref: 'page.png',
+      format,
+      beats: [staged],
+      dialogue: [{ speaker: 'Otto', text: 'Hello & goodbye', grid: 'top-right third' }],
+    });
+
+    expect(svg).toContain('<g class="dialogue" data-speaker="Otto">');
+    expect(svg).toContain('Hello &amp; goodbye');
+    // The bubble sits top right; the tail tip points down-left towards Otto
+    const [, cx, cy] = /<ellipse cx="([\d.]+)" cy="([\d.]+)"/.exec(svg)!;
+    const [, tipX, tipY] = /<path d="M[\d.,]+ L([\d.]+),([\d.]+)/.exec(svg)!;
+    expect(Number(cx)).toBeGreaterThan(format.bleedWidth / 2);
+    expect(Number(tipX)).toBeLessThan(Number(cx));
+    expect(Number(tipY)).toBeGreaterThan(Number(cy));
+  });
+
+  it('draws thought bubbles with a trail of circles', () => {
+    const svg = compositePageSvg({
+      text: 'Hmm.',
+      imageHref: 'page.png',
+      format,
+      dialogue: [{ speaker: 'Otto', text: 'Where is it?', grid: 'top', kind: 'thought' }],
+    });
+    expect(svg.match(/<circle /g)).toHaveLength(3);
+    expect(svg).not.toContain('<path');
+  });
+
+  it('letters sound effects under the page text', () => {
+    const svg = compositePageSvg({ text: 'Splash went the puddle.', imageHref: 'page.png', format, soundEffects: [{ text: 'SPLASH!', grid: 'middle left' }] });
+    expect(svg).toContain('class="sound-effect"');
+    expect(svg.indexOf('SPLASH!')).toBeLessThan(svg.indexOf('Splash went'));
+  });
+
+  it('letters a story page on its own, as an overlay without the art or page text', () => {
+    const story = {
+      prose: { pages: [{ text: 'Otto looked up.' }, { text: 'Quiet.' }] },
+      visuals: {
+        illustratedPages: [
+          { pageNumber: 1, beats: [staged], dialogue: [{ speaker: 'Otto', text: 'Hoot!', grid: 'top' }], soundEffects: [{ text: 'WHOOSH', grid: 'right' }] },
+          { pageNumber: 2, beats: [staged] },
+        ],
+      },
+    } as unknown as ComposedStory;
+
+    const svg = storyLetteringSvg(story, 1, 'square-large')!;
+    expect(svg).toContain(`viewBox="0 0 ${format.bleedWidth} ${format.bleedHeight}" preserveAspectRatio="xMidYMid slice"`);
+    expect(svg).toContain('Hoot!');
+    expect(svg).toContain('WHOOSH');
+    expect(svg).not.toContain('<image');
+    expect(svg).not.toContain('Otto looked up.');
+    expect(storyLetteringSvg(story, 2, 'square-large')).toBeUndefined();
+  });
+});
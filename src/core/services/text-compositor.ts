@@ -0,0 +1,523 @@
+import type { BookFormat, BookFormatKey, ComposedStory, Dialogue, IllustrationBeat, SoundEffect } from '../schemas';
+import { BOOK_FORMATS } from '../schemas';
+
+/**
+ * Text compositor: lays the page text over a clean illustration instead of asking
+ * the image model to letter it (models misspell, and baked-in text can't be edited
+ * or translated).
+ *
+ * Output is an SVG the size of the page (bleed, 300dpi) that references the raw
+ * illustration and draws the text as real text, in the shot's negative space.
+ * The page's dialogue and sound effects are lettered as vector bubbles and SFX.
+ */
+
+export interface TextStyle {
+  /** CSS font-family list */
+  fontFamily: string;
+  /** Font size in page pixels (300dpi - 72px is about 17pt) */
+  fontSize: number;
+  /** Line height as a multiple of fontSize */
+  lineHeight: number;
+  color: string;
+  align: 'left' | 'center' | 'right';
+  /** Panel behind the text for legibility; false for none */
+  box: false | { fill: string; opacity: number; padding: number; radius: number };
+  /** Thin stroke around the letters, for text straight on the art */
+  outline?: { color: string; width: number };
+  /** Soft glow around the letters, for text straight on the art */
+  halo?: { color: string; width: number };
+  /** Enlarged first letter spanning the first lines (sets the text flush left) */
+  dropCap?: { lines: number; color?: string; fontFamily?: string };
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: '"Andika", "Century Gothic", "Trebuchet MS", sans-serif',
+  fontSize: 72,
+  lineHeight: 1.35,
+  color: '#2b2118',
+  align: 'center',
+  box: { fill: '#fffaf0', opacity: 0.82, padding: 36, radius: 24 },
+};
+
+/** Area of the page, as fractions of its width and height */
+export interface TextRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Text goes along the bottom unless the shot says otherwise */
+const DEFAULT_REGION: TextRegion = { x: 0.08, y: 0.68, width: 0.84, height: 0.26 };
+
+/** Rough average glyph width for wrapping, as a multiple of fontSize */
+const AVERAGE_GLYPH_WIDTH = 0.52;
+
+/** Text is shrunk down to this fraction of the style's size before it may overflow */
+const MIN_FONT_SCALE = 0.6;
+
+// ============================================================================
+// Placement
+// ============================================================================
+
+const VERTICAL: Array<[RegExp, Pick<TextRegion, 'y' | 'height'>]> = [
+  [/\b(top|upper|sky|above|ceiling)\b/, { y: 0.05, height: 0.28 }],
+  [/\b(bottom|lower|ground|floor|foreground)\b/, { y: 0.68, height: 0.26 }],
+  [/\b(middle|center|centre)\b/, { y: 0.36, height: 0.28 }],
+];
+
+const HORIZONTAL: Array<[RegExp, Pick<TextRegion, 'x' | 'width'>]> = [
+  [/\bleft\b/, { x: 0.06, width: 0.44 }],
+  [/\bright\b/, { x: 0.5, width: 0.44 }],
+];
+
+/**
+ * Text region from a shot's staging.negative_space description
+ * (e.g. "open sky in the upper third", "empty floor bottom left")
+ */
+export const resolveTextRegion = (negativeSpace?: string): TextRegion => {
+  const description = negativeSpace?.toLowerCase() ?? '';
+  const vertical = VERTICAL.find(([pattern]) => pattern.test(description))?.[1];
+  const horizontal = HORIZONTAL.find(([pattern]) => pattern.test(description))?.[1];
+  if (!vertical && !horizontal) return DEFAULT_REGION;
+
+  return {
+    x: horizontal?.x ?? DEFAULT_REGION.x,
+    width: horizontal?.width ?? DEFAULT_REGION.width,
+    // A side-only description ("left side") gets a tall column
+    y: vertical?.y ?? (horizontal ? 0.1 : DEFAULT_REGION.y),
+    height: vertical?.height ?? (horizontal ? 0.8 : DEFAULT_REGION.height),
+  };
+};
+
+/** The negative space of the page's first beat that describes one */
+export const findNegativeSpace = (beats: IllustrationBeat[] = []): string | undefined =>
+  beats.find(beat => beat.shot.staging?.negative_space)?.shot.staging?.negative_space;
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/**
+ * Greedy word wrap to a character budget per line. Author line breaks are kept.
+ * The first indent.lines lines are shortened by indent.chars (room for a drop cap).
+ */
+export const wrapText = (text: string, maxChars: number, indent?: { lines: number; chars: number }): string[] => {
+  const lines: string[] = [];
+  const budget = () => (indent && lines.length < indent.lines ? Math.max(1, maxChars - indent.chars) : maxChars);
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + 1 + word.length > budget()) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+};
+
+export interface TextLayout {
+  fontSize: number;
+  lines: string[];
+  /** Text box in page pixels */
+  box: { x: number; y: number; width: number; height: number };
+  /** The drop cap letter (removed from lines), its size and the indent it takes */
+  dropCap?: { letter: string; fontSize: number; width: number; lines: number };
+}
+
+/** Cap height as a fraction of the font size, roughly, for sizing drop caps */
+const CAP_HEIGHT = 0.7;
+
+/** A drop cap only for text that starts with a letter or digit */
+const splitDropCap = (text: string): { letter: string; rest: string } | undefined => {
+  const match = /^\s*([\p{L}\p{N}])(.*)$/su.exec(text);
+  return match ? { letter: match[1]!, rest: match[2]! } : undefined;
+};
+
+/**
+ * Fit text into a region, shrinking the font until the lines fit its height
+ */
+export const layoutText = (text: string, region: TextRegion, format: BookFormat, style: TextStyle): TextLayout => {
+  const padding = style.box ? style.box.padding : 0;
+  const area = {
+    x: region.x * format.bleedWidth,
+    y: region.y * format.bleedHeight,
+    width: region.width * format.bleedWidth,
+    height: region.height * format.bleedHeight,
+  };
+
+  const cap = style.dropCap && splitDropCap(text);
+  const body = cap ? cap.rest : text;
+
+  // The cap runs from the first line's cap height down to the last spanned baseline
+  const sizeDropCap = (fontSize: number, lines: number) => {
+    const capSize = ((lines - 1) * fontSize * style.lineHeight) / CAP_HEIGHT + fontSize;
+    return { fontSize: Math.round(capSize), width: capSize * 0.75, lines };
+  };
+
+  const fit = (fontSize: number) => {
+    const glyphWidth = fontSize * AVERAGE_GLYPH_WIDTH;
+    const maxChars = Math.max(8, Math.floor((area.width - padding * 2) / glyphWidth));
+    const wrapBesideCap = (capLines: number) => {
+      const dropCap = cap && { letter: cap.letter, ...sizeDropCap(fontSize, capLines) };
+      return { dropCap, lines: wrapText(body, maxChars, dropCap && { lines: capLines, chars: Math.ceil(dropCap.width / glyphWidth) }) };
+    };
+
+    let { dropCap, lines } = cap && style.dropCap ? wrapBesideCap(style.dropCap.lines) : { dropCap: undefined, lines: wrapText(text, maxChars) };
+    // Short text: the cap spans only the lines there are, and one-line text gets none
+    if (dropCap && lines.length < dropCap.lines) {
+      ({ dropCap, lines } = lines.length >= 2 ? wrapBesideCap(lines.length) : { dropCap: undefined, lines: wrapText(text, maxChars) });
+    }
+    const height = Math.max(lines.length, dropCap?.lines ?? 0) * fontSize * style.lineHeight + padding * 2;
+    return { fontSize, lines, height, dropCap };
+  };
+
+  let layout = fit(style.fontSize);
+  while (layout.height > area.height && layout.fontSize > style.fontSize * MIN_FONT_SCALE) {
+    layout = fit(Math.max(style.fontSize * MIN_FONT_SCALE, layout.fontSize * 0.9));
+  }
+
+  // Anchor the box to the region's edge nearest the page edge, so text hugs the margin
+  const { height, dropCap } = layout;
+  const y = region.y + region.height / 2 > 0.5 ? area.y + area.height - height : area.y;
+  return { fontSize: Math.round(layout.fontSize), lines: layout.lines, box: { x: area.x, y, width: area.width, height }, dropCap };
+};
+
+// ============================================================================
+// SVG
+// ============================================================================
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+// ============================================================================
+// Lettering (speech bubbles and sound effects)
+// ============================================================================
+
+/** A point on the page, as fractions of its width and height */
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+const BUBBLE_MAX_CHARS = 18;
+export const BUBBLE_COLORS = { fill: '#ffffff', ink: '#1f1a17' };
+export const SFX_FONT = '"Bangers", "Luckiest Guy", Impact, sans-serif';
+export const SFX_COLORS = { fill: '#ffd23f', stroke: '#2b2118' };
+/** Lettering stays this far (fraction of the page) from the edges */
+const LETTERING_MARGIN = 0.04;
+
+/**
+ * Point from a composition grid position, as used by staging.anchors
+ * (e.g. "top-left third", "center", "bottom right")
+ */
+export const resolveAnchorPoint = (grid: string): GridPoint => {
+  const position = grid.toLowerCase();
+  const y = /\b(top|upper|above|sky)\b/.test(position) ? 0.18 : /\b(bottom|lower|ground|floor)\b/.test(position) ? 0.8 : 0.5;
+  const x = /\bleft\b/.test(position) ? 0.22 : /\bright\b/.test(position) ? 0.78 : 0.5;
+  return { x, y };
+};
+
+/** Where a character stands, from the first beat anchor that names them */
+const findSpeakerPoint = (speaker: string, beats: IllustrationBeat[] = []): GridPoint | undefined => {
+  const anchor = beats
+    .flatMap(beat => beat.shot.staging?.anchors ?? [])
+    .find(({ subject }) => subject.toLowerCase().includes(speaker.toLowerCase()));
+  return anchor && resolveAnchorPoint(anchor.grid);
+};
+
+/** Center (page pixels) for a box of the given size near point, kept inside the page margins */
+const clampCenter = (point: GridPoint, width: number, height: number, format: BookFormat): { x: number; y: number } => {
+  const clamp = (value: number, size: number, page: number) =>
+    Math.min(Math.max(value * page, page * LETTERING_MARGIN + size / 2), page * (1 - LETTERING_MARGIN) - size / 2);
+  return { x: clamp(point.x, width, format.bleedWidth), y: clamp(point.y, height, format.bleedHeight) };
+};
+
+/** A bubble's shape and text, in page pixels */
+export interface BubbleLayout {
+  speaker: string;
+  kind: NonNullable<Dialogue['kind']>;
+  fontSize: number;
+  lineHeight: number;
+  lines: string[];
+  /** Baseline of the first line; every line is centered on the bubble */
+  firstBaseline: number;
+  center: GridPoint;
+  rx: number;
+  ry: number;
+  strokeWidth: number;
+  /** Speech: the tail's base corner, tip and other base corner */
+  tail?: [GridPoint, GridPoint, GridPoint];
+  /** Thought: a trail of shrinking circles */
+  trail?: Array<GridPoint & { r: number }>;
+}
+
+export interface SoundEffectLayout {
+  text: string;
+  fontSize: number;
+  /** Point the text is centered on and rotated about */
+  center: GridPoint;
+  baseline: number;
+  /** Clockwise, in degrees */
+  angle: number;
+  strokeWidth: number;
+  letterSpacing: number;
+}
+
+/** Speech bubbles and sound effects of one page, in page pixels */
+export interface LetteringLayout {
+  dialogue: BubbleLayout[];
+  soundEffects: SoundEffectLayout[];
+}
+
+/**
+ * Speech or thought bubble with a tail towards the speaker
+ * (or downwards, when the staging doesn't place them)
+ */
+export const layoutDialogue = (dialogue: Dialogue, format: BookFormat, style: TextStyle, beats?: IllustrationBeat[]): BubbleLayout => {
+  const fontSize = Math.round(style.fontSize * 0.8);
+  const lines = wrapText(dialogue.text, BUBBLE_MAX_CHARS);
+  const lineHeight = fontSize * 1.2;
+  const textWidth = Math.max(...lines.map(line => line.length)) * fontSize * AVERAGE_GLYPH_WIDTH;
+  // An ellipse around the text block needs about 1.4x its width and height
+  const rx = (textWidth / 2 + fontSize * 0.4) * 1.4;
+  const ry = ((lines.length * lineHeight) / 2 + fontSize * 0.3) * 1.4;
+  const center = clampCenter(resolveAnchorPoint(dialogue.grid), rx * 2, ry * 2, format);
+
+  const speaker = findSpeakerPoint(dialogue.speaker, beats);
+  const target = speaker
+    ? { x: speaker.x * format.bleedWidth, y: speaker.y * format.bleedHeight }
+    : { x: center.x, y: center.y + ry * 3 };
+  const distance = Math.hypot(target.x - center.x, target.y - center.y) || 1;
+  const direction = { x: (target.x - center.x) / distance, y: (target.y - center.y) / distance };
+  // Distance from the center to the ellipse edge along direction
+  const edge = 1 / Math.hypot(direction.x / rx, direction.y / ry);
+  const tailLength = Math.min(fontSize * 1.6, Math.max(fontSize * 0.6, distance - edge));
+  const along = (length: number, offset = 0) => ({
+    x: center.x + direction.x * length - direction.y * offset,
+    y: center.y + direction.y * length + direction.x * offset,
+  });
+
+  const kind = dialogue.kind ?? 'speech';
+  return {
+    speaker: dialogue.speaker,
+    kind,
+    fontSize,
+    lineHeight,
+    lines,
+    firstBaseline: center.y - ((lines.length - 1) * lineHeight) / 2 + fontSize * 0.35,
+    center,
+    rx,
+    ry,
+    strokeWidth: fontSize * 0.08,
+    ...(kind === 'thought'
+      // A trail of shrinking circles instead of a pointed tail
+      ? { trail: [0.35, 0.7, 1].map((t, i) => ({ ...along(edge + tailLength * t), r: fontSize * (0.35 - i * 0.1) })) }
+      : { tail: [along(edge * 0.8, fontSize * 0.45), along(edge + tailLength), along(edge * 0.8, -fontSize * 0.45)] }),
+  };
+};
+
+/** Bold, tilted onomatopoeia lettering */
+export const layoutSoundEffect = (effect: SoundEffect, index: number, format: BookFormat, style: TextStyle): SoundEffectLayout => {
+  const fontSize = Math.round(style.fontSize * 1.8);
+  const width = effect.text.length * fontSize * AVERAGE_GLYPH_WIDTH;
+  const center = clampCenter(resolveAnchorPoint(effect.grid), width, fontSize, format);
+  return {
+    text: effect.text,
+    fontSize,
+    center,
+    baseline: center.y + fontSize * 0.35,
+    angle: index % 2 === 0 ? -8 : 6,
+    strokeWidth: fontSize * 0.12,
+    letterSpacing: fontSize * 0.04,
+  };
+};
+
+export interface LetteringInput {
+  format: BookFormat;
+  beats?: IllustrationBeat[];
+  dialogue?: Dialogue[];
+  soundEffects?: SoundEffect[];
+  style?: TextStyle;
+}
+
+/**
+ * Lay out a page's speech bubbles (tails pointing at the speaker's staging anchor)
+ * and sound effects
+ */
+export const layoutLettering = ({ format, beats, dialogue = [], soundEffects = [], style = DEFAULT_TEXT_STYLE }: LetteringInput): LetteringLayout => ({
+  dialogue: dialogue.map(line => layoutDialogue(line, format, style, beats)),
+  soundEffects: soundEffects.map((effect, i) => layoutSoundEffect(effect, i, format, style)),
+});
+
+const tailPath = (tail: NonNullable<BubbleLayout['tail']>): string =>
+  `M${tail.map(point => `${round(point.x)},${round(point.y)}`).join(' L')} Z`;
+
+const dialogueSvg = (bubble: BubbleLayout, style: TextStyle): string => {
+  const { center, fontSize } = bubble;
+  const stroke = `stroke="${BUBBLE_COLORS.ink}" stroke-width="${round(bubble.strokeWidth)}"`;
+  const ellipse = `<ellipse cx="${round(center.x)}" cy="${round(center.y)}" rx="${round(bubble.rx)}" ry="${round(bubble.ry)}" fill="${BUBBLE_COLORS.fill}" ${stroke}/>`;
+  const shape = bubble.tail
+    // Outlined tail under the bubble, then its fill again on top to hide the bubble's outline at the join
+    ? `<path d="${tailPath(bubble.tail)}" fill="${BUBBLE_COLORS.fill}" ${stroke} stroke-linejoin="round"/>${ellipse}<path d="${tailPath(bubble.tail)}" fill="${BUBBLE_COLORS.fill}"/>`
+    : ellipse + (bubble.trail ?? []).map(({ x, y, r }) => `<circle cx="${round(x)}" cy="${round(y)}" r="${round(r)}" fill="${BUBBLE_COLORS.fill}" ${stroke}/>`).join('');
+
+  const tspans = bubble.lines
+    .map((line, i) => `<tspan x="${round(center.x)}" y="${round(bubble.firstBaseline + i * bubble.lineHeight)}">${escapeXml(line)}</tspan>`)
+    .join('');
+  return `  <g class="dialogue" data-speaker="${escapeXml(bubble.speaker)}">${shape}<text font-family="${escapeXml(style.fontFamily)}" font-size="${fontSize}" fill="${BUBBLE_COLORS.ink}" text-anchor="middle">${tspans}</text></g>\n`;
+};
+
+const soundEffectSvg = (effect: SoundEffectLayout): string => {
+  const x = round(effect.center.x);
+  const y = round(effect.center.y);
+  return `  <text class="sound-effect" x="${x}" y="${round(effect.baseline)}" transform="rotate(${effect.angle} ${x} ${y})" font-family="${escapeXml(SFX_FONT)}" font-size="${effect.fontSize}" fill="${SFX_COLORS.fill}" stroke="${SFX_COLORS.stroke}" stroke-width="${round(effect.strokeWidth)}" stroke-linejoin="round" paint-order="stroke" text-anchor="middle" letter-spacing="${round(effect.letterSpacing)}">${escapeXml(effect.text)}</text>\n`;
+};
+
+/** Sound effects first, so bubbles sit on top of them */
+const letteringElements = (lettering: LetteringLayout, style: TextStyle): string => [
+  ...lettering.soundEffects.map(soundEffectSvg),
+  ...lettering.dialogue.map(bubble => dialogueSvg(bubble, style)),
+].join('');
+
+/**
+ * Lettering on its own, as a transparent SVG the shape of the page to lay over the
+ * text-free illustration (sized by CSS; covers the box like object-fit: cover)
+ */
+export const letteringSvg = (lettering: LetteringLayout, format: BookFormat, style: TextStyle = DEFAULT_TEXT_STYLE): string =>
+  `<svg xmlns="http://www.w3.org/2000/svg" class="lettering" viewBox="0 0 ${format.bleedWidth} ${format.bleedHeight}" preserveAspectRatio="xMidYMid slice" aria-hidden="true">
+${letteringElements(lettering, style)}</svg>`;
+
+// ============================================================================
+// Page
+// ============================================================================
+
+export interface CompositePageInput {
+  text: string;
+  /** Raw illustration, e.g. a path relative to the SVG or a data URI */
+  imageHref: string;
+  format: BookFormat;
+  beats?: IllustrationBeat[];
+  /** Speech bubbles, tails pointing at the speaker's staging anchor */
+  dialogue?: Dialogue[];
+  soundEffects?: SoundEffect[];
+  style?: TextStyle;
+}
+
+/** Stroke or glow that keeps text readable straight on the art */
+const contrastEffect = (style: TextStyle): { defs: string; attributes: string } => {
+  const defs = style.halo
+    ? `  <defs>
+    <filter id="halo" x="-10%" y="-10%" width="120%" height="120%">
+      <feMorphology in="SourceAlpha" operator="dilate" radius="${style.halo.width}" result="spread"/>
+      <feGaussianBlur in="spread" stdDeviation="${round(style.halo.width / 2)}" result="soft"/>
+      <feFlood flood-color="${escapeXml(style.halo.color)}"/>
+      <feComposite in2="soft" operator="in" result="glow"/>
+      <feMerge><feMergeNode in="glow"/><feMergeNode in="SourceGraphic"/></feMerge>
+    </filter>
+  </defs>
+`
+    : '';
+  const attributes = [
+    style.outline && ` stroke="${escapeXml(style.outline.color)}" stroke-width="${style.outline.width * 2}" stroke-linejoin="round" paint-order="stroke"`,
+    style.halo && ' filter="url(#halo)"',
+  ].filter(Boolean).join('');
+  return { defs, attributes };
+};
+
+/**
+ * Composite page text over an illustration as an SVG document
+ */
+export const compositePageSvg = ({ text, imageHref, format, beats, dialogue = [], soundEffects = [], style = DEFAULT_TEXT_STYLE }: CompositePageInput): string => {
+  const { bleedWidth: width, bleedHeight: height } = format;
+  const layout = layoutText(text, resolveTextRegion(findNegativeSpace(beats)), format, style);
+  const { box, dropCap } = layout;
+  const padding = style.box ? style.box.padding : 0;
+  const { defs, attributes } = contrastEffect(style);
+
+  // Drop caps set the text flush left
+  const align = dropCap ? 'left' : style.align;
+  const anchor = { left: 'start', center: 'middle', right: 'end' }[align];
+  const textX = { left: box.x + padding, center: box.x + box.width / 2, right: box.x + box.width - padding }[align];
+  const lineHeight = layout.fontSize * style.lineHeight;
+  // First baseline: top padding plus the ascent (about 0.8em) within the first line
+  const firstBaseline = box.y + padding + (lineHeight - layout.fontSize) / 2 + layout.fontSize * 0.8;
+  const lineX = (i: number) => (dropCap && i < dropCap.lines ? textX + dropCap.width : textX);
+
+  const panel = style.box
+    ? `  <rect x="${round(box.x)}" y="${round(box.y)}" width="${round(box.width)}" height="${round(box.height)}" rx="${style.box.radius}" fill="${escapeXml(style.box.fill)}" fill-opacity="${style.box.opacity}"/>\n`
+    : '';
+  const capText = dropCap && style.dropCap
+    ? `  <text x="${round(textX)}" y="${round(firstBaseline + (dropCap.lines - 1) * lineHeight)}" font-family="${escapeXml(style.dropCap.fontFamily ?? style.fontFamily)}" font-size="${dropCap.fontSize}" fill="${escapeXml(style.dropCap.color ?? style.color)}"${attributes}>${escapeXml(dropCap.letter)}</text>\n`
+    : '';
+  // Lettering goes under the page text, so it never hides a word of the story
+  const lettering = letteringElements(layoutLettering({ format, beats, dialogue, soundEffects, style }), style);
+  const lines = layout.lines
+    .map((line, i) => `    <tspan x="${round(lineX(i))}" y="${round(firstBaseline + i * lineHeight)}">${escapeXml(line)}</tspan>`)
+    .join('\n');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+${defs}  <image href="${escapeXml(imageHref)}" x="0" y="0" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>
+${lettering}${panel}${capText}  <text font-family="${escapeXml(style.fontFamily)}" font-size="${layout.fontSize}" fill="${escapeXml(style.color)}" text-anchor="${anchor}"${attributes}>
+${lines}
+  </text>
+</svg>
+`;
+};
+
+/**
+ * Layout of a story page's text, placed as compositeStoryPage places it
+ * (for typesetting the same text elsewhere, e.g. into a print PDF)
+ */
+export const layoutStoryText = (story: ComposedStory, pageNumber: number, format: BookFormatKey, style: TextStyle = DEFAULT_TEXT_STYLE): TextLayout => {
+  const illustratedPage = story.visuals.illustratedPages.find(page => page.pageNumber === pageNumber);
+  const region = resolveTextRegion(findNegativeSpace(illustratedPage?.beats));
+  return layoutText(story.prose.pages[pageNumber - 1]?.text ?? '', region, BOOK_FORMATS[format], style);
+};
+
+/**
+ * Speech bubbles and sound effects of a story page, placed as compositeStoryPage
+ * places them
+ */
+export const layoutStoryLettering = (story: ComposedStory, pageNumber: number, format: BookFormatKey, style: TextStyle = DEFAULT_TEXT_STYLE): LetteringLayout => {
+  const illustratedPage = story.visuals.illustratedPages.find(page => page.pageNumber === pageNumber);
+  return layoutLettering({
+    format: BOOK_FORMATS[format],
+    beats: illustratedPage?.beats,
+    dialogue: illustratedPage?.dialogue,
+    soundEffects: illustratedPage?.soundEffects,
+    style,
+  });
+};
+
+/**
+ * A story page's lettering as an overlay SVG (see letteringSvg), or undefined when
+ * the page has no speech bubbles or sound effects
+ */
+export const storyLetteringSvg = (story: ComposedStory, pageNumber: number, format: BookFormatKey, style: TextStyle = DEFAULT_TEXT_STYLE): string | undefined => {
+  const lettering = layoutStoryLettering(story, pageNumber, format, style);
+  return lettering.dialogue.length + lettering.soundEffects.length > 0 ? letteringSvg(lettering, BOOK_FORMATS[format], style) : undefined;
+};
+
+/**
+ * Composite a story page over its saved illustration. The SVG is saved to
+ * assets/composited/, so it references the raw image as ../page-N.png.
+ */
+export const compositeStoryPage = (story: ComposedStory, pageNumber: number, format: BookFormatKey, style?: TextStyle): string => {
+  const illustratedPage = story.visuals.illustratedPages.find(page => page.pageNumber === pageNumber);
+  return compositePageSvg({
+    text: story.prose.pages[pageNumber - 1]?.text ?? '',
+    imageHref: `../page-${pageNumber}.png`,
+    format: BOOK_FORMATS[format],
+    beats: illustratedPage?.beats,
+    dialogue: illustratedPage?.dialogue,
+    soundEffects: illustratedPage?.soundEffects,
+    style,
+  });
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { listTypography, loadTextStyle, loadTypographyPreset, typographyTextStyle, type TypographyPreset } from './typography';
+
+const preset: TypographyPreset = {
+  name: 'Test',
+  fontFamily: 'serif',
+  sizes: { '2-4': 96, '4-6': 80, '6-8': 68, '8+': 60 },
+  lineHeight: 1.4,
+  color: '#000',
+  align: 'left',
+  halo: { color: '#fff', width: 8 },
+};
+
+describe('typographyTextStyle', () => {
+  it('sizes the type for the age band', () => {
+    expect(typographyTextStyle(preset, { min: 2, max: 4 }).fontSize).toBe(96);
+    expect(typographyTextStyle(preset, { min: 9, max: 12 }).fontSize).toBe(60);
+  });
+
+  it('keeps the preset settings and has no panel unless the preset sets one', () => {
+    expect(typographyTextStyle(preset)).toEqual({
+      fontFamily: 'serif',
+      fontSize: 80,
+      lineHeight: 1.4,
+      color: '#000',
+      align: 'left',
+      box: false,
+      halo: { color: '#fff', width: 8 },
+    });
+  });
+});
+
+describe('typography presets', () => {
+  it('loads every preset file', async () => {
+    const names = await listTypography();
+    expect(names).toContain('storybook');
+    for (const name of names) await expect(loadTypographyPreset(name)).resolves.toHaveProperty('sizes');
+  });
+
+  it('uses the style preset\'s typography for a story', async () => {
+    const style = await loadTextStyle({ stylePreset: 'watercolor', ageRange: { min: 3, max: 5 } });
+    expect(style.dropCap).toBeDefined();
+    expect(style.fontSize).toBe((await loadTypographyPreset('classic')).sizes['2-4']);
+  });
+});
@@ -0,0 +1,90 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { ageBandFor, type AgeRange, type Story } from '../schemas';
+import { loadStyleFile } from './style-loader';
+import type { TextStyle } from './text-compositor';
+
+/**
+ * Typography presets (prompts/typography/*.json): how composited page text is set.
+ * Style presets name the typography that suits their art; the type size follows the
+ * story's age range, so the youngest readers get the largest type.
+ */
+
+const ColorEffectSchema = z.object({
+  color: z.string().min(1),
+  width: z.number().positive().describe('Width in page pixels (300dpi)'),
+});
+
+const TypographyPresetFileSchema = z.object({
+  name: z.string().min(1),
+  fontFamily: z.string().min(1).describe('CSS font-family list'),
+  sizes: z.object({
+    '2-4': z.number().positive(),
+    '4-6': z.number().positive(),
+    '6-8': z.number().positive(),
+    '8+': z.number().positive(),
+  }).describe('Font size in page pixels (300dpi) for each age band'),
+  lineHeight: z.number().positive().default(1.35).describe('Leading, as a multiple of the font size'),
+  color: z.string().min(1),
+  align: z.enum(['left', 'center', 'right']).default('center'),
+  box: z.object({
+    fill: z.string().min(1),
+    opacity: z.number().min(0).max(1),
+    padding: z.number().min(0),
+    radius: z.number().min(0),
+  }).optional().describe('Panel behind the text'),
+  outline: ColorEffectSchema.optional(),
+  halo: ColorEffectSchema.optional(),
+  dropCap: z.object({
+    lines: z.number().int().min(2).max(5),
+    color: z.string().optional(),
+    fontFamily: z.string().optional(),
+  }).optional(),
+});
+
+export type TypographyPreset = z.infer<typeof TypographyPresetFileSchema>;
+
+/** Used when the story's style preset names no typography */
+export const DEFAULT_TYPOGRAPHY = 'storybook';
+
+const TYPOGRAPHY_DIR = path.join(process.cwd(), 'prompts', 'typography');
+
+/**
+ * Text style from a typography preset, sized for the age range
+ */
+export const typographyTextStyle = (preset: TypographyPreset, ageRange?: AgeRange): TextStyle => {
+  const { name: _name, sizes, box, ...style } = preset;
+  return { ...style, fontSize: sizes[ageBandFor(ageRange)], box: box ?? false };
+};
+
+/**
+ * List available typography preset names
+ */
+export const listTypography = async (): Promise<string[]> => {
+  try {
+    const files = await fs.readdir(TYPOGRAPHY_DIR);
+    return files
+      .filter(f => f.endsWith('.json'))
+      .map(f => f.replace('.json', ''));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Load a typography preset file by name
+ */
+export const loadTypographyPreset = async (name: string): Promise<TypographyPreset> => {
+  const content = await fs.readFile(path.join(TYPOGRAPHY_DIR, `${name}.json`), 'utf-8');
+  return TypographyPresetFileSchema.parse(JSON.parse(content));
+};
+
+/**
+ * Text style for a story: its style preset's typography (or the default), sized for its age range
+ */
+export const loadTextStyle = async (story: Pick<Story, 'stylePreset' | 'ageRange'>): Promise<TextStyle> => {
+  const stylePreset = story.stylePreset ? await loadStyleFile(story.stylePreset) : undefined;
+  const preset = await loadTypographyPreset(stylePreset?.typography ?? DEFAULT_TYPOGRAPHY);
+  return typographyTextStyle(preset, story.ageRange);
+};
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import {
+  StorySchema,
+  VisualStyleGuideSchema,
+  ProseSetupSchema,
+  CharacterDesignSchema,
+  ProsePageSchema,
+  IllustratedPageSchema,
+  RenderedPageSchema,
+} from '../schemas';
+import type { PipelineState } from '../pipeline';
+
+/**
+ * Pipeline checkpoint: the PipelineState saved after every step (checkpoint.json),
+ * so a stopped or failed run resumes exactly where it left off.
+ * Unknown keys are kept so custom steps can checkpoint their own state.
+ */
+export const PipelineCheckpointSchema = z.object({
+  story: StorySchema,
+  styleGuide: VisualStyleGuideSchema.optional(),
+  proseSetup: ProseSetupSchema.optional(),
+  characterDesigns: z.array(CharacterDesignSchema).optional(),
+  prosePages: z.array(ProsePageSchema).optional(),
+  illustratedPages: z.array(IllustratedPageSchema).optional(),
+  renderedPages: z.array(RenderedPageSchema).optional(),
+  heroPage: RenderedPageSchema.optional(),
+}).passthrough();
+
+export const parseCheckpoint = (data: unknown): PipelineState => PipelineCheckpointSchema.parse(data);
@@ -0,0 +1,287 @@
+import { isPageLocked, type ComposedStory, type IllustratedPage, type ProsePage, type RenderedPage } from '../schemas';
+import {
+  proseSetupAgent,
+  prosePageAgent,
+  styleGuideAgent,
+  pageVisualsAgent,
+  generateCharacterDesigns,
+  renderPage,
+  renderPageMock,
+  styleGuideMock,
+  proseSetupMock,
+  prosePageMock,
+  pageVisualsMock,
+} from '../agents';
+import type { PipelineState } from '../pipeline';
+import { compositeStoryPage } from '../services/text-compositor';
+import { assembleProse, assembleVisuals } from '../utils/assemble';
+import { lintErrors, lintPage } from '../utils/prose-lint';
+import type { PipelineStep, StepContext } from './registry';
+
+/**
+ * Built-in pipeline steps, in execution order:
+ * styleGuide → proseSetup → characterDesigns → prosePages → illustratedPages → renderedPages
+ */
+
+/** Require state keys declared in a step's reads (narrows the type for the step body) */
+const need = <K extends keyof PipelineState>(state: PipelineState, key: K, step: string): NonNullable<PipelineState[K]> => {
+  const value = state[key];
+  if (value === undefined) throw new Error(`Pipeline step "${step}" requires ${key}`);
+  return value as NonNullable<PipelineState[K]>;
+};
+
+// ============================================================================
+// Page locks
+// ============================================================================
+
+/** A locked page's prose from the state the run started with */
+const lockedProse = ({ locks, startState }: StepContext, pageNumber: number): ProsePage | undefined =>
+  isPageLocked(locks, pageNumber, 'prose') ? startState?.prosePages?.[pageNumber - 1] : undefined;
+
+const lockedVisuals = ({ locks, startState }: StepContext, pageNumber: number): IllustratedPage | undefined =>
+  isPageLocked(locks, pageNumber, 'visuals') ? startState?.illustratedPages?.find(page => page.pageNumber === pageNumber) : undefined;
+
+const lockedImage = ({ locks, startState }: StepContext, pageNumber: number): RenderedPage | undefined =>
+  isPageLocked(locks, pageNumber, 'image') ? startState?.renderedPages?.find(page => page.pageNumber === pageNumber) : undefined;
+
+const reportLocked = ({ logger }: StepContext, step: string, pageNumbers: number[]): void => {
+  if (pageNumbers.length > 0) logger?.info({ step, pageNumbers }, 'Skipped locked pages');
+};
+
+export const styleGuideStep: PipelineStep = {
+  name: 'styleGuide',
+  reads: ['story'],
+  writes: ['styleGuide'],
+  run: async (_state, { story, ui, stylePreset, logger, outputManager, offline }) => {
+    ui?.progress('Creating style guide...');
+    const styleGuide = offline
+      ? await styleGuideMock(story, stylePreset)
+      : await styleGuideAgent(story, stylePreset, logger);
+
+    // Save initial visuals (style guide only, no pages yet)
+    await outputManager?.saveVisuals({ style: styleGuide, illustratedPages: [] });
+    return { styleGuide };
+  },
+};
+
+export const proseSetupStep: PipelineStep = {
+  name: 'proseSetup',
+  reads: ['story'],
+  writes: ['proseSetup'],
+  run: async (_state, { story, ui, logger, offline }) => {
+    ui?.progress('Setting up prose...');
+    return { proseSetup: offline ? await proseSetupMock(story) : await proseSetupAgent(story, logger) };
+  },
+};
+
+export const characterDesignsStep: PipelineStep = {
+  name: 'characterDesigns',
+  reads: ['story', 'styleGuide'],
+  writes: ['characterDesigns'],
+  run: async (state, { story, ui, logger, outputManager, imageProvider }) => {
+    ui?.progress('Generating character designs...');
+    const styleGuide = need(state, 'styleGuide', 'characterDesigns');
+    const characterDesigns = await generateCharacterDesigns(story.characters, styleGuide, { logger, provider: imageProvider });
+    if (outputManager) {
+      for (const design of characterDesigns) await outputManager.saveCharacterDesign(design);
+    }
+    return { characterDesigns };
+  },
+};
+
+/** Default rewrites per page for the prose lint gate */
+const PROSE_LINT_RETRIES = 2;
+
+/**
+ * Prose lint gate: rewrite a page that breaks its age band's limits, with the
+ * problems as feedback. After the last rewrite the page is kept as it is.
+ */
+const lintedProsePage = async (
+  page: ProsePage,
+  rewrite: (feedback: string[]) => Promise<ProsePage>,
+  pageNumber: number,
+  { story, ui, logger, proseLint }: StepContext
+): Promise<ProsePage> => {
+  if (!proseLint?.enabled) return page;
+  const maxRetries = proseLint.maxRetries ?? PROSE_LINT_RETRIES;
+
+  let current = page;
+  for (let attempt = 1; ; attempt++) {
+    const errors = lintErrors(lintPage(current, pageNumber, story).issues);
+    if (errors.length === 0) return current;
+    if (attempt > maxRetries) {
+      logger?.warn({ pageNumber, issues: errors.map(issue => issue.message) }, 'Page still over prose limits after rewrites');
+      return current;
+    }
+    logger?.info({ pageNumber, attempt, issues: errors.map(issue => issue.rule) }, 'Page over prose limits, rewriting');
+    ui?.progress(`Rewriting page ${pageNumber} to fit the age limits (${attempt}/${maxRetries})...`);
+    current = await rewrite(errors.map(issue => issue.message));
+  }
+};
+
+/** Prose is sequential - each page needs previousPages for context */
+export const prosePagesStep: PipelineStep = {
+  name: 'prosePages',
+  reads: ['story', 'proseSetup'],
+  writes: ['prosePages'],
+  isComplete: (state) => (state.prosePages?.length ?? 0) >= (state.story?.pageCount ?? 0),
+  run: async (state, context) => {
+    const { story, ui, logger, outputManager, offline } = context;
+    const proseSetup = need(state, 'proseSetup', 'prosePages');
+    const prosePages = [...(state.prosePages ?? [])];
+    const writePage = offline ? prosePageMock : prosePageAgent;
+    const skipped: number[] = [];
+
+    for (let pageNumber = prosePages.length + 1; pageNumber <= story.pageCount; pageNumber++) {
+      const locked = lockedProse(context, pageNumber);
+      if (locked) {
+        prosePages.push(locked);
+        skipped.push(pageNumber);
+        continue;
+      }
+      ui?.progress(`Writing page ${pageNumber} of ${story.pageCount}...`);
+      logger?.debug({ pageNumber, totalPages: story.pageCount }, 'Generating prose');
+      const write = (feedback?: string[]) => writePage({ story, proseSetup, pageNumber, previousPages: prosePages, feedback, logger });
+      prosePages.push(await lintedProsePage(await write(), write, pageNumber, context));
+    }
+    reportLocked(context, 'prosePages', skipped);
+
+    // Save prose after all pages generated
+    await outputManager?.saveProse({ ...story, prose: assembleProse(proseSetup, prosePages) });
+    return { prosePages };
+  },
+};
+
+/** Visuals are parallel - each page is independent */
+export const illustratedPagesStep: PipelineStep = {
+  name: 'illustratedPages',
+  reads: ['story', 'styleGuide', 'prosePages'],
+  writes: ['illustratedPages'],
+  isComplete: (state) => (state.illustratedPages?.length ?? 0) >= (state.story?.pageCount ?? 0),
+  run: async (state, context) => {
+    const { story, ui, logger, outputManager, offline } = context;
+    const styleGuide = need(state, 'styleGuide', 'illustratedPages');
+    const directPage = offline ? pageVisualsMock : pageVisualsAgent;
+    const prosePages = need(state, 'prosePages', 'illustratedPages');
+    const existingIllustratedPages = state.illustratedPages ?? [];
+    const pagesToIllustrate = prosePages.slice(existingIllustratedPages.length);
+    const pageNumberAt = (i: number) => existingIllustratedPages.length + i + 1;
+    const skipped = pagesToIllustrate.map((_, i) => pageNumberAt(i)).filter(pageNumber => lockedVisuals(context, pageNumber));
+
+    ui?.progress(`Directing ${pagesToIllustrate.length - skipped.length} pages in parallel...`);
+    logger?.info({ count: pagesToIllustrate.length - skipped.length }, 'Starting parallel visual generation');
+
+    const newIllustratedPages = await Promise.all(
+      pagesToIllustrate.map((prosePage, i) => {
+        const pageNumber = pageNumberAt(i);
+        return lockedVisuals(context, pageNumber) ?? directPage({ story, styleGuide, pageNumber, prosePage, logger });
+      })
+    );
+    reportLocked(context, 'illustratedPages', skipped);
+
+    const illustratedPages = [...existingIllustratedPages, ...newIllustratedPages];
+
+    // Save visuals after all pages illustrated
+    await outputManager?.saveVisuals({ style: styleGuide, illustratedPages });
+    return { illustratedPages };
+  },
+};
+
+/** Save a rendered page with its quality results and failed attempts */
+const saveRenderedPage = async (
+  page: Awaited<ReturnType<typeof renderPage>>,
+  story: ComposedStory,
+  { outputManager, mock, format, textStyle }: StepContext
+): Promise<void> => {
+  if (!outputManager || mock) return;
+  await outputManager.savePageImage(page);
+  if (textStyle) await outputManager.saveCompositedPage(page.pageNumber, compositeStoryPage(story, page.pageNumber, format, textStyle));
+  if (page.quality) await outputManager.saveQualityResult(page.pageNumber, page.quality);
+  if (page.failedAttempts) {
+    for (let i = 0; i < page.failedAttempts.length; i++) {
+      const failed = page.failedAttempts[i]!;
+      await outputManager.saveFailedImage(page.pageNumber, i + 1, failed.url);
+      await outputManager.saveQualityResult(page.pageNumber, failed.quality, i + 1);
+    }
+  }
+};
+
+/** Render is parallel, with the hero page (page 1) first for style consistency */
+export const renderedPagesStep: PipelineStep = {
+  name: 'renderedPages',
+  reads: ['story', 'styleGuide', 'proseSetup', 'characterDesigns', 'prosePages', 'illustratedPages'],
+  writes: ['renderedPages', 'heroPage'],
+  isComplete: (state) => (state.renderedPages?.length ?? 0) >= (state.story?.pageCount ?? 0),
+  run: async (state, context) => {
+    const { story, ui, logger, format, qualityCheck, mock, imageProvider, textStyle } = context;
+    const renderedPages: RenderedPage[] = [...(state.renderedPages ?? [])];
+    let heroPage = state.heroPage ?? renderedPages[0];
+
+    const composedStory: ComposedStory = {
+      ...story,
+      prose: assembleProse(need(state, 'proseSetup', 'renderedPages'), need(state, 'prosePages', 'renderedPages')),
+      visuals: assembleVisuals(need(state, 'styleGuide', 'renderedPages'), need(state, 'illustratedPages', 'renderedPages')),
+      characterDesigns: state.characterDesigns,
+    };
+
+    const renderOptions = {
+      format,
+      logger,
+      provider: imageProvider,
+      compositeText: !!textStyle,
+      qualityCheck: qualityCheck?.enabled ? { threshold: qualityCheck.threshold, maxRetries: qualityCheck.maxRetries } : undefined,
+    };
+    const render = (pageNumber: number, heroPageUrl?: string) =>
+      mock ? Promise.resolve(renderPageMock(pageNumber)) : renderPage(composedStory, pageNumber, { ...renderOptions, heroPageUrl });
+
+    const skipped: number[] = [];
+
+    // Render heroPage first (page 1) if not already rendered
+    if (!heroPage) {
+      const locked = lockedImage(context, 1);
+      if (locked) {
+        heroPage = locked;
+        skipped.push(1);
+      } else {
+        ui?.progress('Rendering hero page...');
+        heroPage = await render(1);
+        await saveRenderedPage(heroPage, composedStory, context);
+      }
+      renderedPages.push(heroPage);
+    }
+
+    // Render remaining pages in parallel
+    const remainingPageNumbers = Array.from(
+      { length: story.pageCount - renderedPages.length },
+      (_, i) => renderedPages.length + i + 1
+    );
+    const lockedPages = remainingPageNumbers.flatMap(pageNumber => lockedImage(context, pageNumber) ?? []);
+    const pageNumbersToRender = remainingPageNumbers.filter(pageNumber => !lockedImage(context, pageNumber));
+    skipped.push(...lockedPages.map(page => page.pageNumber));
+
+    if (pageNumbersToRender.length > 0) {
+      ui?.progress(`Rendering ${pageNumbersToRender.length} pages in parallel...`);
+      logger?.info({ count: pageNumbersToRender.length }, 'Starting parallel render');
+    }
+
+    const newRenderedPages = await Promise.all(
+      pageNumbersToRender.map(pageNumber => render(pageNumber, heroPage?.url))
+    );
+    for (const page of newRenderedPages) await saveRenderedPage(page, composedStory, context);
+
+    // Sort by page number and add to list
+    renderedPages.push(...[...lockedPages, ...newRenderedPages].sort((a, b) => a.pageNumber - b.pageNumber));
+    reportLocked(context, 'renderedPages', skipped);
+
+    return { renderedPages, heroPage };
+  },
+};
+
+export const DEFAULT_STEPS: PipelineStep[] = [
+  styleGuideStep,
+  proseSetupStep,
+  characterDesignsStep,
+  prosePagesStep,
+  illustratedPagesStep,
+  renderedPagesStep,
+];
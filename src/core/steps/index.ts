@@ -0,0 +1,26 @@
+// Registry types and pure helpers
+export {
+  isStepComplete,
+  getPendingSteps,
+  getStep,
+  insertStep,
+  validateSteps,
+  resetFromStep,
+  type PipelineStep,
+  type StepContext,
+  type StateKey,
+} from './registry';
+
+// Built-in steps
+export {
+  DEFAULT_STEPS,
+  styleGuideStep,
+  proseSetupStep,
+  characterDesignsStep,
+  prosePagesStep,
+  illustratedPagesStep,
+  renderedPagesStep,
+} from './default-steps';
+
+// Checkpoint (checkpoint.json)
+export { PipelineCheckpointSchema, parseCheckpoint } from './checkpoint';
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isStepComplete,
+  getPendingSteps,
+  getStep,
+  insertStep,
+  validateSteps,
+  resetFromStep,
+  type PipelineStep,
+} from './registry';
+import { DEFAULT_STEPS } from './default-steps';
+import type { PipelineState } from '../pipeline';
+import type { Story } from '../schemas';
+
+const makeStep = (name: string, reads: PipelineStep['reads'], writes: PipelineStep['writes']): PipelineStep => ({
+  name,
+  reads,
+  writes,
+  run: async () => ({}),
+});
+
+const mockStory: Story = {
+  title: 'Test Story',
+  storyArc: 'A test adventure',
+  setting: 'Test land',
+  pageCount: 2,
+  characters: [{ name: 'Hero', description: 'The main character', traits: [], notes: [] }],
+  interests: [],
+  plotBeats: [
+    { purpose: 'setup', description: 'Hero starts journey' },
+    { purpose: 'conflict', description: 'Hero faces challenge' },
+    { purpose: 'payoff', description: 'Hero succeeds' },
+  ],
+  allowCreativeLiberty: true,
+};
+
+const prosePage = { summary: 'Page', text: 'Text', imageConcept: 'Concept' };
+
+describe('DEFAULT_STEPS', () => {
+  it('runs in the expected order', () => {
+    expect(DEFAULT_STEPS.map(s => s.name)).toEqual([
+      'styleGuide',
+      'proseSetup',
+      'characterDesigns',
+      'prosePages',
+      'illustratedPages',
+      'renderedPages',
+    ]);
+  });
+
+  it('is valid (every read is written earlier)', () => {
+    expect(() => validateSteps(DEFAULT_STEPS)).not.toThrow();
+  });
+});
+
+describe('isStepComplete', () => {
+  it('defaults to checking every write key is set', () => {
+    const step = makeStep('proseSetup', ['story'], ['proseSetup']);
+    expect(isStepComplete(step, {})).toBe(false);
+    expect(isStepComplete(step, { proseSetup: { logline: 'l', theme: 't' } })).toBe(true);
+  });
+
+  it('treats partially written prose pages as incomplete', () => {
+    const step = getStep(DEFAULT_STEPS, 'prosePages');
+    expect(isStepComplete(step, { story: mockStory, prosePages: [prosePage] })).toBe(false);
+    expect(isStepComplete(step, { story: mockStory, prosePages: [prosePage, prosePage] })).toBe(true);
+  });
+});
+
+describe('getPendingSteps', () => {
+  it('returns steps whose output is missing', () => {
+    const state: PipelineState = {
+      story: mockStory,
+      styleGuide: { art_style: { genre: [], medium: [], technique: [] }, setting: { landmarks: [], diegetic_lights: [] } },
+      proseSetup: { logline: 'l', theme: 't' },
+    };
+    expect(getPendingSteps(DEFAULT_STEPS, state).map(s => s.name)).toEqual([
+      'characterDesigns',
+      'prosePages',
+      'illustratedPages',
+      'renderedPages',
+    ]);
+  });
+});
+
+describe('getStep', () => {
+  it('throws with available names for unknown steps', () => {
+    expect(() => getStep(DEFAULT_STEPS, 'translation')).toThrow('Available steps: styleGuide');
+  });
+});
+
+describe('resetFromStep', () => {
+  const state: PipelineState = {
+    story: mockStory,
+    proseSetup: { logline: 'l', theme: 't' },
+    prosePages: [prosePage, prosePage],
+    illustratedPages: [],
+    renderedPages: [],
+    heroPage: { pageNumber: 1, url: 'https://example.com/page1.png' },
+  };
+
+  it('clears the named step and every later step', () => {
+    const reset = resetFromStep(DEFAULT_STEPS, state, 'illustratedPages');
+    expect(Object.keys(reset)).toEqual(['story', 'proseSetup', 'prosePages']);
+  });
+
+  it('never clears the story', () => {
+    expect(resetFromStep(DEFAULT_STEPS, state, 'styleGuide')).toEqual({ story: mockStory });
+  });
+
+  it('throws for unknown steps', () => {
+    expect(() => resetFromStep(DEFAULT_STEPS, state, 'cover')).toThrow('Unknown pipeline step');
+  });
+});
+
+describe('insertStep', () => {
+  const translation = makeStep('translation', ['prosePages'], []);
+
+  it('inserts after an existing step without mutating the list', () => {
+    const steps = insertStep(DEFAULT_STEPS, translation, { after: 'prosePages' });
+    expect(steps.map(s => s.name).indexOf('translation')).toBe(4);
+    expect(DEFAULT_STEPS).toHaveLength(6);
+  });
+
+  it('inserts before an existing step', () => {
+    const steps = insertStep(DEFAULT_STEPS, translation, { before: 'illustratedPages' });
+    expect(steps[4]?.name).toBe('translation');
+  });
+
+  it('appends when no position is given', () => {
+    const steps = insertStep(DEFAULT_STEPS, translation);
+    expect(steps.at(-1)?.name).toBe('translation');
+  });
+
+  it('rejects duplicate names', () => {
+    expect(() => insertStep(DEFAULT_STEPS, makeStep('styleGuide', [], []))).toThrow('already registered');
+  });
+});
+
+describe('validateSteps', () => {
+  it('throws when a step reads state no earlier step writes', () => {
+    const steps = insertStep(DEFAULT_STEPS, makeStep('cover', ['renderedPages'], []), { before: 'styleGuide' });
+    expect(() => validateSteps(steps)).toThrow('Pipeline step "cover" reads renderedPages before any step writes it');
+  });
+});
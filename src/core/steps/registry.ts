@@ -0,0 +1,130 @@
+import type { Story, BookFormatKey, PageLocks } from '../schemas';
+import type { StylePreset } from '../agents';
+import type { PipelineState, PipelineUI, ProseLintOptions, QualityCheckOptions } from '../pipeline';
+import type { StoryOutputManager } from '../../cli/utils/output';
+import type { Logger } from '../utils/logger';
+import type { ImageProvider } from '../services/image-provider';
+import type { TextStyle } from '../services/text-compositor';
+
+/**
+ * Step Registry
+ *
+ * A pipeline step declares which PipelineState keys it reads and writes,
+ * and how to produce its writes. The incremental pipeline runs an ordered
+ * list of steps instead of hardcoding each stage, so new steps (translation,
+ * cover generation, ...) are added by inserting into the list.
+ */
+
+export type StateKey = keyof PipelineState;
+
+/**
+ * Resolved options available to every step
+ */
+export interface StepContext {
+  story: Story;
+  format: BookFormatKey;
+  ui?: PipelineUI;
+  outputManager?: StoryOutputManager;
+  logger?: Logger;
+  stylePreset?: StylePreset;
+  qualityCheck?: QualityCheckOptions;
+  proseLint?: ProseLintOptions;
+  /** Use placeholder images instead of real generation */
+  mock?: boolean;
+  /** Use deterministic mock agents instead of LLM calls */
+  offline?: boolean;
+  /** Image backend for sprite sheets and pages (default: the configured provider) */
+  imageProvider?: ImageProvider;
+  /** Approved pages: page steps reuse these from startState instead of regenerating them */
+  locks?: PageLocks;
+  /** State the run started with, before --from cleared anything */
+  startState?: PipelineState;
+  /** Typeset page text onto clean illustrations (assets/composited) instead of into the image */
+  textStyle?: TextStyle;
+}
+
+export interface PipelineStep {
+  /** Unique step name (by convention, the main PipelineState key it writes) */
+  name: string;
+  /** State keys that must be present before this step can run */
+  reads: StateKey[];
+  /** State keys this step fills in */
+  writes: StateKey[];
+  /** Whether the step's output is already complete (default: every write key is set) */
+  isComplete?: (state: PipelineState) => boolean;
+  /** Produce the step's writes. Receives the full state so far. */
+  run: (state: PipelineState, context: StepContext) => Promise<Partial<PipelineState>>;
+}
+
+/**
+ * Check whether a step can be skipped for the given state
+ */
+export const isStepComplete = (step: PipelineStep, state: PipelineState): boolean =>
+  step.isComplete ? step.isComplete(state) : step.writes.every(key => state[key] !== undefined);
+
+/**
+ * Steps that still need to run, in order
+ */
+export const getPendingSteps = (steps: PipelineStep[], state: PipelineState): PipelineStep[] =>
+  steps.filter(step => !isStepComplete(step, state));
+
+/**
+ * Find a step by name, throwing with the list of valid names if missing
+ */
+export const getStep = (steps: PipelineStep[], name: string): PipelineStep => {
+  const step = steps.find(s => s.name === name);
+  if (!step) {
+    throw new Error(`Unknown pipeline step "${name}". Available steps: ${steps.map(s => s.name).join(', ')}`);
+  }
+  return step;
+};
+
+/**
+ * Clear everything written by the named step and the steps after it, so they rerun.
+ * The story itself is never cleared.
+ */
+export const resetFromStep = (steps: PipelineStep[], state: PipelineState, name: string): PipelineState => {
+  const index = steps.indexOf(getStep(steps, name));
+  const cleared = new Set(steps.slice(index).flatMap(step => step.writes));
+  cleared.delete('story');
+  return Object.fromEntries(
+    Object.entries(state).filter(([key]) => !cleared.has(key as StateKey))
+  ) as PipelineState;
+};
+
+/**
+ * Return a new step list with the step inserted before/after an existing one
+ * (appended when no position is given). Pure - does not mutate the input list.
+ */
+export const insertStep = (
+  steps: PipelineStep[],
+  step: PipelineStep,
+  position: { before?: string; after?: string } = {}
+): PipelineStep[] => {
+  if (steps.some(s => s.name === step.name)) {
+    throw new Error(`Pipeline step "${step.name}" is already registered`);
+  }
+
+  const anchor = position.before ?? position.after;
+  if (!anchor) return [...steps, step];
+
+  const index = steps.indexOf(getStep(steps, anchor));
+  const insertAt = position.before ? index : index + 1;
+  return [...steps.slice(0, insertAt), step, ...steps.slice(insertAt)];
+};
+
+/**
+ * Validate that every step's reads are written by an earlier step (or are the story itself).
+ * Throws on the first step that depends on state nothing before it produces.
+ */
+export const validateSteps = (steps: PipelineStep[]): void => {
+  const available = new Set<StateKey>(['story']);
+
+  for (const step of steps) {
+    const missing = step.reads.filter(key => !available.has(key));
+    if (missing.length > 0) {
+      throw new Error(`Pipeline step "${step.name}" reads ${missing.join(', ')} before any step writes it`);
+    }
+    step.writes.forEach(key => available.add(key));
+  }
+};
@@ -0,0 +1,43 @@
+import type {
+  Story,
+  StoryWithProse,
+  ComposedStory,
+  Prose,
+  ProseSetup,
+  ProsePage,
+  VisualDirection,
+  VisualStyleGuide,
+  IllustratedPage,
+  CharacterDesign,
+} from '../schemas';
+
+/**
+ * Pure assembly functions: compose stage outputs into the linear story types
+ */
+
+export const assembleProse = (setup: ProseSetup, pages: ProsePage[]): Prose => ({
+  logline: setup.logline,
+  theme: setup.theme,
+  styleNotes: setup.styleNotes,
+  pages,
+});
+
+export const assembleVisuals = (style: VisualStyleGuide, pages: IllustratedPage[]): VisualDirection => ({
+  style,
+  illustratedPages: pages,
+});
+
+export const assembleStoryWithProse = (story: Story, prose: Prose): StoryWithProse => ({
+  ...story,
+  prose,
+});
+
+export const assembleComposedStory = (
+  story: StoryWithProse,
+  visuals: VisualDirection,
+  characterDesigns?: CharacterDesign[]
+): ComposedStory => ({
+  ...story,
+  visuals,
+  characterDesigns,
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { checkContinuity, continuityErrors, heldProps } from './continuity';
+import type { BeatCharacter, ComposedStory, IllustratedPage, IllustrationBeat } from '../schemas';
+
+const cast = (id: string, pose = 'standing'): BeatCharacter => ({ id, expression: 'happy', pose, focus: 'primary' });
+
+const beat = (characters: BeatCharacter[], setting?: IllustrationBeat['setting']): IllustrationBeat => ({
+  order: 1,
+  purpose: 'setup',
+  summary: 'A moment',
+  emotion: 'calm',
+  characters,
+  setting,
+  shot: { size: 'wide', angle: 'eye_level' },
+});
+
+const makeStory = (pages: Array<{ text: string; page: Omit<IllustratedPage, 'pageNumber'> }>): ComposedStory => ({
+  title: 'Test Story',
+  storyArc: 'A test adventure',
+  setting: 'Test land',
+  ageRange: { min: 4, max: 8 },
+  pageCount: pages.length,
+  characters: [
+    { name: 'Otto', description: 'A curious boy', traits: [], notes: [] },
+    { name: 'Grandma Rose', description: 'His grandmother', traits: [], notes: [] },
+  ],
+  interests: [],
+  plotBeats: [],
+  allowCreativeLiberty: true,
+  prose: {
+    logline: 'Otto explores',
+    theme: 'Courage',
+    pages: pages.map(({ text }, i) => ({ summary: `Page ${i + 1}`, text, imageConcept: 'A moment' })),
+  },
+  visuals: {
+    style: {
+      art_style: { genre: [], medium: ['watercolor'], technique: [] },
+      setting: { location: 'city park', time_of_day: 'morning', landmarks: [], diegetic_lights: [] },
+    },
+    illustratedPages: pages.map(({ page }, i) => ({ pageNumber: i + 1, ...page })),
+  },
+});
+
+describe('heldProps', () => {
+  it('finds what a pose puts in a character\'s hands', () => {
+    expect(heldProps('Holding a red balloon high and waving')).toEqual([{ phrase: 'red balloon', noun: 'balloon' }]);
+    expect(heldProps('carrying the picnic basket, clutching her hat')).toEqual([
+      { phrase: 'picnic basket', noun: 'basket' },
+      { phrase: 'hat', noun: 'hat' },
+    ]);
+    expect(heldProps('running')).toEqual([]);
+  });
+});
+
+describe('checkContinuity', () => {
+  it('reports nothing for a consistent story', () => {
+    const report = checkContinuity(makeStory([
+      { text: 'Otto finds a balloon.', page: { beats: [beat([cast('Otto', 'holding a red balloon')])] } },
+      { text: 'Otto and Grandma Rose walk on.', page: { beats: [beat([cast('Otto', 'waving the balloon'), cast('Grandma Rose')])] } },
+    ]));
+    expect(report).toEqual({ issues: [], regenerations: [] });
+  });
+
+  it('flags unknown character IDs as errors, suggesting the closest name', () => {
+    const report = checkContinuity(makeStory([
+      { text: 'Otto waves.', page: { beats: [beat([cast('otto'), cast('Mysterious Cat')])] } },
+    ]));
+    expect(continuityErrors(report.issues).map(issue => issue.message)).toEqual([
+      'Beat 1 shows "otto", which is not a story character (did you mean "Otto"?)',
+      'Beat 1 shows "Mysterious Cat", which is not a story character',
+    ]);
+    // The mistyped Otto is still on the page - not also reported as missing
+    expect(report.issues.some(issue => issue.rule === 'missingCharacter')).toBe(false);
+  });
+
+  it('flags characters named in the text but missing from the beats', () => {
+    const report = checkContinuity(makeStory([
+      { text: 'Otto hugs Grandma goodbye.', page: { beats: [beat([cast('Otto')])] } },
+    ]));
+    expect(report.issues).toEqual([
+      { pageNumber: 1, rule: 'missingCharacter', severity: 'warning', message: '"Grandma Rose" is in the text but in none of the page\'s beats' },
+    ]);
+  });
+
+  it('flags setting and time jumps the text does not explain', () => {
+    const pages = [
+      { text: 'Otto plays.', page: { beats: [beat([cast('Otto')])] } },
+      { text: 'Otto smiles.', page: { beats: [beat([cast('Otto')], { location: 'underwater cave', time_of_day: 'midnight' })] } },
+    ];
+    expect(checkContinuity(makeStory(pages)).issues.map(issue => issue.rule)).toEqual(['settingJump', 'timeJump']);
+
+    pages[1]!.text = 'Later that night, Otto swam into the cave.';
+    expect(checkContinuity(makeStory(pages)).issues).toEqual([]);
+  });
+
+  it('flags a held prop that vanishes without a reason in the text', () => {
+    const pages = [
+      { text: 'Otto gets a balloon.', page: { beats: [beat([cast('Otto', 'clutching a red balloon')])] } },
+      { text: 'Otto sees a dog.', page: { beats: [beat([cast('Otto', 'pointing')])] } },
+      { text: 'Otto laughs.', page: { beats: [beat([cast('Otto', 'laughing')])] } },
+    ];
+    const report = checkContinuity(makeStory(pages));
+    expect(report.issues).toEqual([
+      { pageNumber: 2, rule: 'propDropped', severity: 'warning', message: 'Otto holds the red balloon on page 1, but it is gone here with nothing in the text to explain it' },
+    ]);
+    expect(report.regenerations).toEqual([{ pageNumber: 2, stage: 'visuals', reasons: [report.issues[0]!.message] }]);
+
+    pages[1]!.text = 'Otto let go, and the balloon floated away.';
+    expect(checkContinuity(makeStory(pages)).issues).toEqual([]);
+  });
+});
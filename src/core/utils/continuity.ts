@@ -0,0 +1,231 @@
+import type { ComposedStory, IllustratedPage, PageLockStage, Setting } from '../schemas';
+import { splitWords } from './prose-lint';
+
+/**
+ * Continuity checker: pages are directed one at a time (and in parallel), so nothing
+ * keeps characters, the setting or a held prop consistent from one page to the next.
+ * Reads the whole ComposedStory, reports where continuity breaks and which pages to
+ * regenerate.
+ *
+ * Checks are heuristic: a jump counts as explained when the page text names the new
+ * place or time, or uses a word that moves the story on ("later", "went", "dropped").
+ */
+
+export type ContinuityRule = 'unknownCharacter' | 'missingCharacter' | 'settingJump' | 'timeJump' | 'propDropped';
+
+export interface ContinuityIssue {
+  pageNumber: number;
+  rule: ContinuityRule;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface SuggestedRegen {
+  pageNumber: number;
+  stage: PageLockStage;
+  reasons: string[];
+}
+
+export interface ContinuityReport {
+  issues: ContinuityIssue[];
+  /** One per page with issues, in page order */
+  regenerations: SuggestedRegen[];
+}
+
+/** Words in the page text that explain a change of time */
+const TIME_CUES = [
+  'morning', 'afternoon', 'evening', 'night', 'tonight', 'dawn', 'dusk', 'sunrise', 'sunset', 'noon', 'midnight',
+  'later', 'next', 'tomorrow', 'soon', 'after', 'until', 'finally', 'meanwhile', 'bedtime', 'woke', 'slept', 'dark',
+];
+
+/** Words in the page text that explain a change of place */
+const PLACE_CUES = [
+  'went', 'go', 'goes', 'walked', 'ran', 'arrived', 'came', 'back', 'home', 'into', 'through', 'climbed', 'flew',
+  'sailed', 'drove', 'rode', 'followed', 'reached', 'left', 'outside', 'inside', 'entered', 'across', 'toward', 'towards',
+];
+
+/** Words in the page text that explain a prop going missing */
+const RELEASE_CUES = [
+  'drop', 'dropped', 'lost', 'let go', 'gave', 'put down', 'set down', 'left', 'popped', 'broke', 'away', 'floated',
+  'gone', 'tucked', 'packed', 'hid',
+];
+
+/** Poses that put a prop in a character's hands */
+const HOLDING = /\b(?:holding|holds|carrying|carries|clutching|clutches|hugging|hugs|gripping|grips|cradling|cradles)\s+(?:(?:a|an|the|his|her|their|its|one)\s+)?([a-z][a-z'-]*(?:\s+[a-z][a-z'-]*){0,2})/gi;
+
+/** Words that end a held prop's phrase */
+const PROP_STOPWORDS = new Set([
+  'and', 'while', 'as', 'with', 'to', 'in', 'on', 'at', 'under', 'over', 'up', 'high', 'close', 'tight', 'tightly',
+  'carefully', 'gently', 'proudly', 'out', 'near', 'by', 'above', 'behind',
+]);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const hasCue = (text: string, cues: string[]): boolean =>
+  cues.some(cue => new RegExp(`\\b${escapeRegExp(cue)}\\b`, 'i').test(text));
+
+/** Lowercase words worth comparing (skips "a", "the", "of"...) */
+const contentWords = (text: string): string[] => splitWords(text.toLowerCase()).filter(word => word.length >= 3 && word !== 'the' && word !== 'and');
+
+/** Two setting values describe the same place or time when they share a word ("night" and "nighttime" count) */
+const sameSetting = (a: string, b: string): boolean => {
+  const wordsA = contentWords(a);
+  const wordsB = contentWords(b);
+  if (wordsA.length === 0 || wordsB.length === 0) return a.trim().toLowerCase() === b.trim().toLowerCase();
+  return wordsA.some(x => wordsB.some(y => x.startsWith(y) || y.startsWith(x)));
+};
+
+/** The page text names the new setting ("At the bakery...") */
+const mentions = (text: string, value: string): boolean =>
+  contentWords(value).some(word => new RegExp(`\\b${escapeRegExp(word)}`, 'i').test(text));
+
+/** Props held in a pose, with the head noun used to look for them on later pages */
+export const heldProps = (pose: string): Array<{ phrase: string; noun: string }> =>
+  [...pose.matchAll(HOLDING)].flatMap(match => {
+    const words = match[1]!.toLowerCase().split(/\s+/);
+    const end = words.findIndex(word => PROP_STOPWORDS.has(word));
+    const phrase = (end === -1 ? words : words.slice(0, end)).join(' ');
+    const noun = phrase.split(' ').at(-1);
+    return noun ? [{ phrase, noun }] : [];
+  });
+
+/** Everything a page's visual direction puts in frame, as one searchable string */
+const pageVisualText = (page: IllustratedPage): string =>
+  page.beats
+    .flatMap(beat => [
+      beat.summary,
+      ...beat.characters.map(character => character.pose),
+      ...(beat.shot.staging?.anchors?.map(anchor => anchor.subject) ?? []),
+      ...(beat.shot.staging?.depth?.fg ?? []),
+      ...(beat.shot.staging?.depth?.mg ?? []),
+      ...(beat.shot.staging?.depth?.bg ?? []),
+      ...(beat.shot.overrides?.focal_hierarchy?.priority ?? []),
+      ...(beat.shot.overrides?.focal_hierarchy?.no_crop ?? []),
+    ])
+    .join('\n');
+
+const shows = (visualText: string, noun: string): boolean =>
+  new RegExp(`\\b${escapeRegExp(noun)}(?:e?s)?\\b`, 'i').test(visualText);
+
+/**
+ * The story character a beat's character ID refers to: exact name, or a case or
+ * first-name mismatch (reported as unknown, but not also as missing)
+ */
+const resolveCharacter = (id: string, names: string[]): { name?: string; exact: boolean } => {
+  if (names.includes(id)) return { name: id, exact: true };
+  const lower = id.trim().toLowerCase();
+  const name = names.find(n => n.toLowerCase() === lower || n.toLowerCase().split(/\s+/)[0] === lower.split(/\s+/)[0]);
+  return { name, exact: false };
+};
+
+/** How the page text refers to a character: the full name or the first name, capitalised */
+const namedIn = (text: string, name: string): boolean => {
+  const first = name.split(/\s+/)[0]!;
+  return new RegExp(`\\b${escapeRegExp(name)}\\b`).test(text) || (first.length >= 3 && new RegExp(`\\b${escapeRegExp(first)}\\b`).test(text));
+};
+
+type Place = Pick<Setting, 'location' | 'biome' | 'time_of_day'>;
+
+const placeOf = (story: ComposedStory, page: IllustratedPage, which: 'first' | 'last'): Place => {
+  const beats = [...page.beats].sort((a, b) => a.order - b.order);
+  const beat = which === 'first' ? beats[0] : beats.at(-1);
+  return { ...story.visuals.style.setting, ...beat?.setting };
+};
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+/**
+ * Check continuity across every page of a composed story
+ */
+export const checkContinuity = (story: ComposedStory): ContinuityReport => {
+  const names = story.characters.map(character => character.name);
+  const pages = [...story.visuals.illustratedPages].sort((a, b) => a.pageNumber - b.pageNumber);
+  const textOf = (pageNumber: number) => story.prose.pages[pageNumber - 1]?.text ?? '';
+
+  const issues: ContinuityIssue[] = [];
+  const issue = (pageNumber: number, rule: ContinuityRule, severity: ContinuityIssue['severity'], message: string) =>
+    issues.push({ pageNumber, rule, severity, message });
+
+  /** Props each character is holding, by head noun */
+  const carried = new Map<string, Map<string, { phrase: string; pageNumber: number }>>();
+
+  pages.forEach((page, i) => {
+    const { pageNumber } = page;
+    const text = textOf(pageNumber);
+
+    // Characters: IDs must be story character names, and named characters must be drawn
+    const present = new Set<string>();
+    for (const beat of page.beats) {
+      for (const { id } of beat.characters) {
+        const { name, exact } = resolveCharacter(id, names);
+        if (name) present.add(name);
+        if (!exact) {
+          issue(pageNumber, 'unknownCharacter', 'error', `Beat ${beat.order} shows "${id}", which is not a story character${name ? ` (did you mean "${name}"?)` : ''}`);
+        }
+      }
+    }
+    for (const name of names) {
+      if (!present.has(name) && namedIn(text, name)) {
+        issue(pageNumber, 'missingCharacter', 'warning', `"${name}" is in the text but in none of the page's beats`);
+      }
+    }
+
+    // Setting and time of day: a change from the previous page needs a reason in the text
+    const previous = pages[i - 1];
+    if (previous) {
+      const before = placeOf(story, previous, 'last');
+      const after = placeOf(story, page, 'first');
+      const placeBefore = before.location ?? before.biome;
+      const placeAfter = after.location ?? after.biome;
+      if (placeBefore && placeAfter && !sameSetting(placeBefore, placeAfter) && !mentions(text, placeAfter) && !hasCue(text, PLACE_CUES)) {
+        issue(pageNumber, 'settingJump', 'warning', `Setting jumps from "${placeBefore}" (page ${previous.pageNumber}) to "${placeAfter}" with nothing in the text to explain it`);
+      }
+      if (before.time_of_day && after.time_of_day && !sameSetting(before.time_of_day, after.time_of_day)
+        && !mentions(text, after.time_of_day) && !hasCue(text, TIME_CUES)) {
+        issue(pageNumber, 'timeJump', 'warning', `Time of day jumps from "${before.time_of_day}" (page ${previous.pageNumber}) to "${after.time_of_day}" with nothing in the text to explain it`);
+      }
+    }
+
+    // Props: something a character holds should stay with them until the text lets it go
+    const visualText = pageVisualText(page);
+    for (const name of present) {
+      const props = carried.get(name);
+      if (!props) continue;
+      for (const [noun, prop] of props) {
+        if (shows(visualText, noun)) continue;
+        if (!hasCue(text, RELEASE_CUES)) {
+          issue(pageNumber, 'propDropped', 'warning', `${name} holds the ${prop.phrase} on page ${prop.pageNumber}, but it is gone here with nothing in the text to explain it`);
+        }
+        props.delete(noun);
+      }
+    }
+    for (const beat of page.beats) {
+      for (const character of beat.characters) {
+        const { name } = resolveCharacter(character.id, names);
+        if (!name) continue;
+        for (const { phrase, noun } of heldProps(character.pose)) {
+          const props = carried.get(name) ?? new Map();
+          if (!props.has(noun)) props.set(noun, { phrase, pageNumber });
+          carried.set(name, props);
+        }
+      }
+    }
+  });
+
+  // Every check is about the visual direction - re-directing the page fixes it
+  const byPage = new Map<number, string[]>();
+  for (const { pageNumber, message } of issues) byPage.set(pageNumber, [...(byPage.get(pageNumber) ?? []), message]);
+  const regenerations = [...byPage]
+    .sort(([a], [b]) => a - b)
+    .map(([pageNumber, reasons]): SuggestedRegen => ({ pageNumber, stage: 'visuals', reasons }));
+
+  return { issues, regenerations };
+};
+
+export const continuityErrors = (issues: ContinuityIssue[]): ContinuityIssue[] => issues.filter(issue => issue.severity === 'error');
@@ -51,6 +51,21 @@ export const logRateLimit = (logger: Logger | undefined, agent: string, retryAft
   logger?.warn({ agent, status: 'rate_limited', retryAfter }, 'Rate limited');
 };
 
+/** Log a response cache lookup with running hit/miss counts */
+export const logCacheLookup = (
+  logger: Logger | undefined,
+  kind: string,
+  status: 'hit' | 'miss',
+  stats: { hits: number; misses: number }
+): void => {
+  logger?.debug({ cache: status, kind, cacheHits: stats.hits, cacheMisses: stats.misses }, `Cache ${status}`);
+};
+
+/** Log the response cache's hit/miss totals for a run */
+export const logCacheStats = (logger: Logger | undefined, stats: { hits: number; misses: number }): void => {
+  logger?.info({ cacheHits: stats.hits, cacheMisses: stats.misses }, 'Response cache totals');
+};
+
 /** Log thinking status for CLI display */
 export const logThinking = (logger: Logger | undefined, message: string): void => {
   logger?.info({ thinking: message }, 'status');
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { parseManuscript } from './manuscript';
+
+describe('parseManuscript', () => {
+  it('splits pages on thematic breaks', () => {
+    const text = 'Otto woke early.\n\n---\n\nThe wind was up.\n* * *\nThe kite flew.';
+    expect(parseManuscript(text)).toEqual(['Otto woke early.', 'The wind was up.', 'The kite flew.']);
+  });
+
+  it('splits pages on "Page N" headings and drops the headings', () => {
+    const text = '## Page 1\nOtto woke early.\n\n## Page 2\nThe wind was up.';
+    expect(parseManuscript(text)).toEqual(['Otto woke early.', 'The wind was up.']);
+  });
+
+  it('splits pages on form feeds', () => {
+    expect(parseManuscript('One.\fTwo.\r\n\fThree.')).toEqual(['One.', 'Two.', 'Three.']);
+  });
+
+  it('keeps page text verbatim, including line breaks and Markdown', () => {
+    const text = 'Up, up, *up*\nwent the kite!\n---\n"Come back!" cried Otto.';
+    expect(parseManuscript(text)).toEqual(['Up, up, *up*\nwent the kite!', '"Come back!" cried Otto.']);
+  });
+
+  it('drops a title-only section and empty pages', () => {
+    const text = '# Otto and the Lost Kite\n\n---\n\nOtto woke early.\n---\n---\nThe end.\n---\n';
+    expect(parseManuscript(text)).toEqual(['Otto woke early.', 'The end.']);
+  });
+
+  it('returns the whole text as one page when there are no breaks', () => {
+    expect(parseManuscript('Just one page.\n\nStill the same page.')).toEqual(['Just one page.\n\nStill the same page.']);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Manuscript parsing
+ *
+ * Splits an author's plain-text or Markdown manuscript into page texts.
+ * Page breaks are:
+ * - a thematic break line: ---, ***, ___ (or spaced, e.g. * * *)
+ * - a form feed character
+ * - a Markdown heading naming a page: "## Page 3"
+ *
+ * Page text is kept verbatim (trimmed). A section made only of headings,
+ * such as the title above page 1, is front matter and is dropped.
+ */
+
+const THEMATIC_BREAK = /^ {0,3}([-*_])( *\1){2,} *$/;
+const PAGE_HEADING = /^ {0,3}#{1,6}\s*page\s+\d+\b.*$/i;
+const HEADING = /^ {0,3}#{1,6}(\s|$)/;
+
+const isFrontMatter = (section: string): boolean =>
+  section.split('\n').every(line => !line.trim() || HEADING.test(line));
+
+/**
+ * Split a manuscript into page texts, in order
+ */
+export const parseManuscript = (text: string): string[] => {
+  const sections: string[][] = [[]];
+
+  for (const line of text.replace(/\r\n?/g, '\n').replace(/\f/g, '\n---\n').split('\n')) {
+    if (THEMATIC_BREAK.test(line) || PAGE_HEADING.test(line)) {
+      sections.push([]);
+    } else {
+      sections[sections.length - 1]!.push(line);
+    }
+  }
+
+  return sections
+    .map(lines => lines.join('\n').trim())
+    .filter(section => section && !isFrontMatter(section));
+};
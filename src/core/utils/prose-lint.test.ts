@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { countSyllables, fleschKincaidGrade, lintPage, lintProse, pagesOverLimits, splitSentences } from './prose-lint';
+
+const story = {
+  ageRange: { min: 4, max: 6 },
+  characters: [{ name: 'Otto Underwood', description: 'A curious boy', traits: [], notes: [] }],
+};
+
+describe('countSyllables', () => {
+  it('counts vowel groups, ignoring a silent e', () => {
+    expect(countSyllables('cat')).toBe(1);
+    expect(countSyllables('cake')).toBe(1);
+    expect(countSyllables('garden')).toBe(2);
+    expect(countSyllables('wonderful')).toBe(3);
+    expect(countSyllables('magnificent')).toBe(4);
+  });
+});
+
+describe('splitSentences', () => {
+  it('splits after end punctuation, including closing quotes', () => {
+    expect(splitSentences('"Look!" said Otto. The kite flew up... Wow?')).toEqual(['"Look!"', 'said Otto.', 'The kite flew up...', 'Wow?']);
+  });
+});
+
+describe('fleschKincaidGrade', () => {
+  it('rates short simple text lower than long complicated text', () => {
+    const simple = fleschKincaidGrade('The cat sat. The dog ran.');
+    const complex = fleschKincaidGrade('The magnificent, extraordinarily luminous observatory illuminated the surrounding countryside considerably.');
+    expect(simple).toBe(0);
+    expect(complex).toBeGreaterThan(10);
+  });
+});
+
+describe('lintPage', () => {
+  it('passes a page within the limits', () => {
+    const { stats, issues } = lintPage({ text: 'Otto ran to the park. He saw a red kite.' }, 1, story);
+    expect(stats).toMatchObject({ pageNumber: 1, words: 10, sentences: 2, longestSentence: 5 });
+    expect(issues).toEqual([]);
+  });
+
+  it('reports too many words and sentences and long sentences as errors', () => {
+    const text = 'Otto ran and ran and ran past the big old tree and the small blue pond and the tall gray wall by the road. He stopped. He sat. He looked. He smiled at the sky above the hill for a long time.';
+    const issues = lintPage({ text }, 2, story).issues;
+    expect(issues.filter(issue => issue.severity === 'error').map(issue => issue.rule)).toEqual(['words', 'sentences', 'sentenceLength']);
+    expect(issues[0]).toMatchObject({ pageNumber: 2, message: expect.stringContaining('at most 40') });
+  });
+
+  it('warns about hard words and repeats, but not about character names', () => {
+    const { stats, issues } = lintPage({ text: 'Underwood saw an extraordinary comet. The comet glowed. The comet fell.' }, 1, story);
+    expect(stats.hardWords).toEqual(['extraordinary']);
+    expect(stats.repeatedWords).toEqual(['comet']);
+    expect(issues.map(issue => [issue.rule, issue.severity])).toContainEqual(['vocabulary', 'warning']);
+  });
+
+  it('allows repetition for the youngest readers', () => {
+    const { stats } = lintPage({ text: 'Moon, moon, moon!' }, 1, { ...story, ageRange: { min: 2, max: 4 } });
+    expect(stats.repeatedWords).toEqual([]);
+  });
+});
+
+describe('lintProse', () => {
+  it('lints every page and lists the pages over the limits', () => {
+    const report = lintProse([{ text: 'Otto ran.' }, { text: 'word '.repeat(41) }, { text: 'Otto sat.' }], story);
+    expect(report.band).toBe('4-6');
+    expect(report.pages.map(page => page.pageNumber)).toEqual([1, 2, 3]);
+    expect(pagesOverLimits(report)).toEqual([2]);
+  });
+});
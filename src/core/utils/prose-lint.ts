@@ -0,0 +1,196 @@
+import { ageBandFor, type AgeBand, type ProsePage, type Story } from '../schemas';
+
+/**
+ * Prose linter: checks page text against the per-page limits for the story's age
+ * band (the same limits the prose prompts give the model), plus readability.
+ *
+ * Errors break a limit from the prose guidelines and can gate the pipeline;
+ * warnings are advice for an editor.
+ */
+
+export interface ProseLimits {
+  /** Sentences per page, [typical, max] */
+  sentences: [number, number];
+  /** Words per page, [typical, max] */
+  words: [number, number];
+  /** Longest sentence, in words */
+  maxSentenceWords: number;
+  /** Highest Flesch-Kincaid grade level for a page */
+  maxGrade: number;
+  /** Words with more syllables than this count as hard vocabulary */
+  maxSyllables: number;
+  vocabulary: string;
+}
+
+export const PROSE_LIMITS: Record<AgeBand, ProseLimits> = {
+  '2-4': { sentences: [1, 2], words: [10, 20], maxSentenceWords: 10, maxGrade: 1, maxSyllables: 2, vocabulary: 'Simple words, repetition' },
+  '4-6': { sentences: [2, 3], words: [20, 40], maxSentenceWords: 14, maxGrade: 2.5, maxSyllables: 3, vocabulary: 'Mix simple + new words' },
+  '6-8': { sentences: [3, 4], words: [40, 60], maxSentenceWords: 18, maxGrade: 4, maxSyllables: 3, vocabulary: 'Descriptive vocabulary' },
+  '8+': { sentences: [3, 4], words: [40, 60], maxSentenceWords: 22, maxGrade: 6, maxSyllables: 4, vocabulary: 'Descriptive vocabulary' },
+};
+
+export type ProseLintRule = 'words' | 'sentences' | 'sentenceLength' | 'grade' | 'vocabulary' | 'repetition';
+
+export interface ProseLintIssue {
+  pageNumber: number;
+  rule: ProseLintRule;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface PageLintStats {
+  pageNumber: number;
+  words: number;
+  sentences: number;
+  /** Words in the longest sentence */
+  longestSentence: number;
+  /** Flesch-Kincaid grade level */
+  grade: number;
+  hardWords: string[];
+  repeatedWords: string[];
+}
+
+export interface ProseLintReport {
+  band: AgeBand;
+  limits: ProseLimits;
+  /** Flesch-Kincaid grade level of the whole text */
+  grade: number;
+  pages: PageLintStats[];
+  issues: ProseLintIssue[];
+}
+
+/** A content word used this often on one page reads as repetitive (except for the youngest readers) */
+const REPEAT_THRESHOLD = 3;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'him',
+  'his', 'i', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the',
+  'their', 'them', 'then', 'there', 'they', 'this', 'to', 'up', 'was', 'we', 'were', 'what', 'when', 'with', 'you',
+  'your', 'said', 'just', 'very', 'could', 'would', 'will', 'down', 'out', 'over', 'all', 'one', 'back',
+]);
+
+// ============================================================================
+// Text statistics
+// ============================================================================
+
+const WORD = /[A-Za-z]+(?:['’][A-Za-z]+)*/g;
+
+export const splitWords = (text: string): string[] => text.match(WORD) ?? [];
+
+/** Sentences, split after . ! ? (and any closing quote or bracket) */
+export const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[.!?…]+["'”’)]*)\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => splitWords(sentence).length > 0);
+
+/**
+ * Syllables in an English word (vowel-group heuristic - close enough for grade levels)
+ */
+export const countSyllables = (word: string): number => {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length === 0) return 0;
+  if (letters.length <= 3) return 1;
+  const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 1);
+};
+
+/**
+ * Flesch-Kincaid grade level
+ */
+export const fleschKincaidGrade = (text: string): number => {
+  const words = splitWords(text);
+  const sentences = Math.max(1, splitSentences(text).length);
+  if (words.length === 0) return 0;
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+};
+
+// ============================================================================
+// Linting
+// ============================================================================
+
+/** Lowercase words of the character names - names are never hard or repetitive */
+const nameWords = (story: Pick<Story, 'characters'>): Set<string> =>
+  new Set(story.characters.flatMap(character => splitWords(character.name.toLowerCase())));
+
+/**
+ * Lint one page's text
+ */
+export const lintPage = (
+  page: Pick<ProsePage, 'text'>,
+  pageNumber: number,
+  story: Pick<Story, 'ageRange' | 'characters'>
+): { stats: PageLintStats; issues: ProseLintIssue[] } => {
+  const band = ageBandFor(story.ageRange);
+  const limits = PROSE_LIMITS[band];
+  const names = nameWords(story);
+  const words = splitWords(page.text);
+  const sentences = splitSentences(page.text);
+  const lowerWords = words.map(word => word.toLowerCase());
+
+  const hardWords = [...new Set(lowerWords.filter(word => !names.has(word) && countSyllables(word) > limits.maxSyllables))];
+  const counts = new Map<string, number>();
+  for (const word of lowerWords) {
+    if (word.length >= 4 && !STOPWORDS.has(word) && !names.has(word)) counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  // Repetition is a feature for the youngest readers
+  const repeatedWords = band === '2-4' ? [] : [...counts].filter(([, count]) => count >= REPEAT_THRESHOLD).map(([word]) => word);
+
+  const stats: PageLintStats = {
+    pageNumber,
+    words: words.length,
+    sentences: sentences.length,
+    longestSentence: Math.max(0, ...sentences.map(sentence => splitWords(sentence).length)),
+    grade: fleschKincaidGrade(page.text),
+    hardWords,
+    repeatedWords,
+  };
+
+  const issues: ProseLintIssue[] = [];
+  const issue = (rule: ProseLintRule, severity: ProseLintIssue['severity'], message: string) =>
+    issues.push({ pageNumber, rule, severity, message });
+
+  if (stats.words > limits.words[1]) {
+    issue('words', 'error', `${stats.words} words - ages ${band} allow at most ${limits.words[1]} per page`);
+  }
+  if (stats.sentences > limits.sentences[1]) {
+    issue('sentences', 'error', `${stats.sentences} sentences - ages ${band} allow at most ${limits.sentences[1]} per page`);
+  }
+  if (stats.longestSentence > limits.maxSentenceWords) {
+    issue('sentenceLength', 'error', `A ${stats.longestSentence}-word sentence - keep sentences under ${limits.maxSentenceWords + 1} words for ages ${band}`);
+  }
+  if (stats.grade > limits.maxGrade) {
+    issue('grade', 'warning', `Reading grade ${stats.grade} - aim for ${limits.maxGrade} or below for ages ${band}`);
+  }
+  if (hardWords.length > 0) {
+    issue('vocabulary', 'warning', `Hard words for ages ${band}: ${hardWords.join(', ')}`);
+  }
+  if (repeatedWords.length > 0) {
+    issue('repetition', 'warning', `Repeated words: ${repeatedWords.join(', ')}`);
+  }
+
+  return { stats, issues };
+};
+
+/**
+ * Lint every page of the prose
+ */
+export const lintProse = (pages: Pick<ProsePage, 'text'>[], story: Pick<Story, 'ageRange' | 'characters'>): ProseLintReport => {
+  const band = ageBandFor(story.ageRange);
+  const results = pages.map((page, i) => lintPage(page, i + 1, story));
+  return {
+    band,
+    limits: PROSE_LIMITS[band],
+    grade: fleschKincaidGrade(pages.map(page => page.text).join(' ')),
+    pages: results.map(result => result.stats),
+    issues: results.flatMap(result => result.issues),
+  };
+};
+
+export const lintErrors = (issues: ProseLintIssue[]): ProseLintIssue[] => issues.filter(issue => issue.severity === 'error');
+
+/** Pages that break a limit, in order */
+export const pagesOverLimits = (report: ProseLintReport): number[] =>
+  [...new Set(lintErrors(report.issues).map(issue => issue.pageNumber))];
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { diffFields, diffStories, hasStoryChanges } from './story-diff';
+import type { ComposedStory, IllustrationBeat } from '../schemas';
+
+const beat = (order: number, summary: string, shot: Partial<IllustrationBeat['shot']> = {}): IllustrationBeat => ({
+  order,
+  purpose: 'setup',
+  summary,
+  emotion: 'calm',
+  characters: [],
+  shot: { size: 'wide', angle: 'eye_level', ...shot },
+});
+
+const story: ComposedStory = {
+  title: 'Test Story',
+  storyArc: 'A test adventure',
+  setting: 'Test land',
+  ageRange: { min: 4, max: 8 },
+  pageCount: 2,
+  characters: [
+    { name: 'Hero', description: 'The main character', traits: [], notes: [] },
+    { name: 'Owl', description: 'A wise owl', traits: [], notes: [] },
+  ],
+  interests: [],
+  plotBeats: [],
+  allowCreativeLiberty: true,
+  prose: {
+    logline: 'A hero saves the day',
+    theme: 'Courage',
+    pages: [
+      { summary: 'Page 1', text: 'Once upon a time...', imageConcept: 'Hero standing' },
+      { summary: 'Page 2', text: 'The end.', imageConcept: 'Hero celebrating' },
+    ],
+  },
+  visuals: {
+    style: {
+      art_style: { genre: [], medium: ['watercolor'], technique: [] },
+      setting: { landmarks: [], diegetic_lights: [] },
+    },
+    illustratedPages: [
+      { pageNumber: 1, beats: [beat(1, 'Hero stands on a hill'), beat(2, 'Owl lands')] },
+      { pageNumber: 2, beats: [beat(1, 'Hero cheers')] },
+    ],
+  },
+};
+
+describe('diffFields', () => {
+  it('reports changed leaves by dotted path, comparing arrays whole', () => {
+    expect(diffFields({ a: { b: 1, c: [1] }, d: 'x' }, { a: { b: 2, c: [1] }, e: 'y' })).toEqual([
+      { path: 'a.b', before: 1, after: 2 },
+      { path: 'd', before: 'x', after: undefined },
+      { path: 'e', before: undefined, after: 'y' },
+    ]);
+  });
+});
+
+describe('diffStories', () => {
+  it('reports no changes for identical stories', () => {
+    const diff = diffStories(story, structuredClone(story));
+    expect(diff).toEqual({ styleGuide: [], characters: [], pages: [] });
+    expect(hasStoryChanges(diff)).toBe(false);
+  });
+
+  it('reports page text changes', () => {
+    const after = structuredClone(story);
+    after.prose.pages[1]!.text = 'The very end.';
+
+    expect(diffStories(story, after).pages).toEqual([
+      { pageNumber: 2, status: 'changed', text: { before: 'The end.', after: 'The very end.' }, addedBeats: [], removedBeats: [], beatChanges: [] },
+    ]);
+  });
+
+  it('reports added and removed beats and shot size/angle changes', () => {
+    const after = structuredClone(story);
+    after.visuals.illustratedPages[0]!.beats = [
+      beat(1, 'Hero stands on a hill', { size: 'close_up', angle: 'low_angle_hero' }),
+      beat(3, 'Hero waves'),
+    ];
+
+    const [page] = diffStories(story, after).pages;
+    expect(page).toMatchObject({
+      pageNumber: 1,
+      addedBeats: [{ order: 3, summary: 'Hero waves' }],
+      removedBeats: [{ order: 2, summary: 'Owl lands' }],
+      beatChanges: [{
+        order: 1,
+        changes: [
+          { path: 'shot.size', before: 'wide', after: 'close_up' },
+          { path: 'shot.angle', before: 'eye_level', after: 'low_angle_hero' },
+        ],
+      }],
+    });
+    expect(page!.text).toBeUndefined();
+  });
+
+  it('reports added and removed pages', () => {
+    const after = structuredClone(story);
+    after.prose.pages.push({ summary: 'Page 3', text: 'Epilogue.', imageConcept: 'Sunset' });
+
+    expect(diffStories(story, after).pages).toMatchObject([{ pageNumber: 3, status: 'added', text: { after: 'Epilogue.' } }]);
+    expect(diffStories(after, story).pages).toMatchObject([{ pageNumber: 3, status: 'removed', text: { before: 'Epilogue.' } }]);
+  });
+
+  it('reports style guide field changes', () => {
+    const after = structuredClone(story);
+    after.visuals.style.art_style.medium = ['gouache'];
+    after.visuals.style.coreEmotion = 'wonder';
+
+    expect(diffStories(story, after).styleGuide).toEqual([
+      { path: 'art_style.medium', before: ['watercolor'], after: ['gouache'] },
+      { path: 'coreEmotion', before: undefined, after: 'wonder' },
+    ]);
+  });
+
+  it('reports added, removed and changed characters, including sprite sheets', () => {
+    const after = structuredClone(story);
+    after.characters = [
+      { name: 'Hero', description: 'The brave main character', traits: [], notes: [] },
+      { name: 'Fox', description: 'A sly fox', traits: [], notes: [] },
+    ];
+    after.characterDesigns = [{ character: after.characters[0]!, spriteSheetUrl: 'https://example.com/hero.png' }];
+
+    expect(diffStories(story, after).characters).toEqual([
+      {
+        name: 'Hero',
+        status: 'changed',
+        changes: [
+          { path: 'description', before: 'The main character', after: 'The brave main character' },
+          { path: 'spriteSheetUrl', before: undefined, after: 'https://example.com/hero.png' },
+        ],
+      },
+      { name: 'Owl', status: 'removed', changes: [] },
+      { name: 'Fox', status: 'added', changes: [] },
+    ]);
+  });
+});
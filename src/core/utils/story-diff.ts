@@ -0,0 +1,163 @@
+import type { ComposedStory, IllustratedPage, IllustrationBeat, StoryCharacter } from '../schemas';
+
+/**
+ * Structured diff between two versions of a ComposedStory (e.g. before and after
+ * rerunning prose or visuals). Reports what a reviewer cares about: page text,
+ * beats, shots, style guide fields and characters, instead of JSON lines.
+ */
+
+export interface FieldChange {
+  /** Dotted path of the field, e.g. "lighting.scheme" or "shot.size" */
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface BeatRef {
+  order: number;
+  summary: string;
+}
+
+export interface BeatChange {
+  /** Beat order within the page */
+  order: number;
+  changes: FieldChange[];
+}
+
+export interface PageDiff {
+  pageNumber: number;
+  status: 'added' | 'removed' | 'changed';
+  text?: { before?: string; after?: string };
+  addedBeats: BeatRef[];
+  removedBeats: BeatRef[];
+  /** Summary, emotion and shot size/angle changes of beats present in both versions */
+  beatChanges: BeatChange[];
+}
+
+export interface CharacterDiff {
+  name: string;
+  status: 'added' | 'removed' | 'changed';
+  changes: FieldChange[];
+}
+
+export interface StoryDiff {
+  styleGuide: FieldChange[];
+  characters: CharacterDiff[];
+  pages: PageDiff[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Changed leaf fields between two objects. Arrays are compared as whole values.
+ */
+export const diffFields = (before: unknown, after: unknown, prefix = ''): FieldChange[] => {
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    return isEqual(before, after) ? [] : [{ path: prefix, before, after }];
+  }
+
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys.flatMap(key => diffFields(before[key], after[key], prefix ? `${prefix}.${key}` : key));
+};
+
+// ============================================================================
+// Pages
+// ============================================================================
+
+/** Beat fields worth reviewing - the rest follow from these */
+const beatFields = (beat: IllustrationBeat) => ({
+  summary: beat.summary,
+  emotion: beat.emotion,
+  shot: { size: beat.shot.size, angle: beat.shot.angle },
+});
+
+const toBeatRef = (beat: IllustrationBeat): BeatRef => ({ order: beat.order, summary: beat.summary });
+
+const diffBeats = (before: IllustrationBeat[], after: IllustrationBeat[]): Pick<PageDiff, 'addedBeats' | 'removedBeats' | 'beatChanges'> => {
+  const afterByOrder = new Map(after.map(beat => [beat.order, beat]));
+  const beforeOrders = new Set(before.map(beat => beat.order));
+
+  return {
+    addedBeats: after.filter(beat => !beforeOrders.has(beat.order)).map(toBeatRef),
+    removedBeats: before.filter(beat => !afterByOrder.has(beat.order)).map(toBeatRef),
+    beatChanges: before.flatMap(beat => {
+      const match = afterByOrder.get(beat.order);
+      const changes = match ? diffFields(beatFields(beat), beatFields(match)) : [];
+      return changes.length > 0 ? [{ order: beat.order, changes }] : [];
+    }),
+  };
+};
+
+const diffPage = (pageNumber: number, before: ComposedStory, after: ComposedStory): PageDiff | undefined => {
+  const textBefore = before.prose.pages[pageNumber - 1]?.text;
+  const textAfter = after.prose.pages[pageNumber - 1]?.text;
+  const findPage = (story: ComposedStory): IllustratedPage | undefined =>
+    story.visuals.illustratedPages.find(page => page.pageNumber === pageNumber);
+  const beatsBefore = findPage(before)?.beats ?? [];
+  const beatsAfter = findPage(after)?.beats ?? [];
+
+  const inBefore = textBefore !== undefined || beatsBefore.length > 0;
+  const inAfter = textAfter !== undefined || beatsAfter.length > 0;
+  const page: PageDiff = {
+    pageNumber,
+    status: !inBefore ? 'added' : !inAfter ? 'removed' : 'changed',
+    ...(textBefore !== textAfter && { text: { before: textBefore, after: textAfter } }),
+    ...diffBeats(beatsBefore, beatsAfter),
+  };
+
+  const changed = page.text || page.addedBeats.length + page.removedBeats.length + page.beatChanges.length > 0;
+  return changed ? page : undefined;
+};
+
+// ============================================================================
+// Characters
+// ============================================================================
+
+/** Story characters plus their sprite sheet, by name */
+const charactersByName = (story: ComposedStory): Map<string, StoryCharacter & { spriteSheetUrl?: string }> => {
+  const designs = new Map((story.characterDesigns ?? []).map(design => [design.character.name, design.spriteSheetUrl]));
+  return new Map(story.characters.map(character => [character.name, { ...character, spriteSheetUrl: designs.get(character.name) }]));
+};
+
+const diffCharacters = (before: ComposedStory, after: ComposedStory): CharacterDiff[] => {
+  const charactersBefore = charactersByName(before);
+  const charactersAfter = charactersByName(after);
+  const names = [...new Set([...charactersBefore.keys(), ...charactersAfter.keys()])];
+
+  return names.flatMap((name): CharacterDiff[] => {
+    const character = charactersBefore.get(name);
+    const match = charactersAfter.get(name);
+    if (!character) return [{ name, status: 'added', changes: [] }];
+    if (!match) return [{ name, status: 'removed', changes: [] }];
+    const changes = diffFields(character, match);
+    return changes.length > 0 ? [{ name, status: 'changed', changes }] : [];
+  });
+};
+
+// ============================================================================
+// Story
+// ============================================================================
+
+/**
+ * Compare two versions of a story. Unchanged pages and characters are left out.
+ */
+export const diffStories = (before: ComposedStory, after: ComposedStory): StoryDiff => {
+  const pageCount = Math.max(
+    before.prose.pages.length,
+    after.prose.pages.length,
+    ...before.visuals.illustratedPages.map(page => page.pageNumber),
+    ...after.visuals.illustratedPages.map(page => page.pageNumber)
+  );
+
+  return {
+    styleGuide: diffFields(before.visuals.style, after.visuals.style),
+    characters: diffCharacters(before, after),
+    pages: Array.from({ length: pageCount }, (_, i) => diffPage(i + 1, before, after)).filter(page => page !== undefined),
+  };
+};
+
+export const hasStoryChanges = (diff: StoryDiff): boolean =>
+  diff.styleGuide.length + diff.characters.length + diff.pages.length > 0;